@@ -128,6 +128,10 @@ self.addEventListener('message', (event) => {
     );
   }
 
+  if (event.data && event.data.type === 'CAN_STORE_MODELS' && event.ports[0]) {
+    event.ports[0].postMessage(canWriteModelFiles());
+  }
+
   if (event.data && event.data.type === 'CLEAR_CACHE') {
     event.waitUntil(
       caches.keys().then((cacheNames) => {
@@ -139,6 +143,178 @@ self.addEventListener('message', (event) => {
   }
 });
 
+// Background model prefetch
+// The page starts a Background Fetch with one ranged request per missing chunk.
+// The browser runs the download itself, with its own progress UI, so it keeps
+// going while the tab is hidden or closed. When it ends, the chunks are written
+// here in ModelStore's layout (OPFS models/<modelId>/<index>.part) and recorded
+// in the model's IndexedDB entry; chunks from a failed fetch are kept for resuming.
+const MODEL_FETCH_PREFIX = 'model:';
+const MODEL_DB_NAME = 'browsergpt-models';
+const MODEL_ENTRY_STORE = 'entries';
+const MODEL_DIRECTORY = 'models';
+
+function canWriteModelFiles() {
+  return (
+    !!(self.navigator.storage && self.navigator.storage.getDirectory) &&
+    typeof FileSystemFileHandle !== 'undefined' &&
+    'createWritable' in FileSystemFileHandle.prototype
+  );
+}
+
+function getFetchModelId(registration) {
+  return registration.id.startsWith(MODEL_FETCH_PREFIX) ? registration.id.slice(MODEL_FETCH_PREFIX.length) : null;
+}
+
+async function broadcast(message) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage(message));
+}
+
+self.addEventListener('backgroundfetchsuccess', (event) => {
+  if (getFetchModelId(event.registration)) {
+    event.waitUntil(storeModelFetch(event));
+  }
+});
+
+self.addEventListener('backgroundfetchfail', (event) => {
+  if (getFetchModelId(event.registration)) {
+    event.waitUntil(storeModelFetch(event));
+  }
+});
+
+self.addEventListener('backgroundfetchabort', (event) => {
+  const modelId = getFetchModelId(event.registration);
+  if (modelId) {
+    event.waitUntil(broadcast({ type: 'PREFETCH_CANCELLED', modelId, error: 'The download was cancelled' }));
+  }
+});
+
+self.addEventListener('backgroundfetchclick', (event) => {
+  if (getFetchModelId(event.registration)) {
+    event.waitUntil(focusOrOpenWindow());
+  }
+});
+
+// Write every chunk that arrived, then report whether the model is complete
+async function storeModelFetch(event) {
+  const registration = event.registration;
+  const modelId = getFetchModelId(registration);
+  console.log('[Service Worker] Background fetch finished:', modelId, registration.result);
+
+  let db = null;
+  try {
+    db = await openModelDb();
+    const opfs = await self.navigator.storage.getDirectory();
+    const root = await opfs.getDirectoryHandle(MODEL_DIRECTORY, { create: true });
+    const directory = await root.getDirectoryHandle(modelId, { create: true });
+
+    let entry = await getModelEntry(db, modelId);
+    if (!entry) {
+      throw new Error('The download was removed');
+    }
+
+    for (const record of await registration.matchAll()) {
+      const range = /^bytes=(\d+)-(\d+)$/.exec(record.request.headers.get('Range') || '');
+      if (!range) continue;
+      const start = Number(range[1]);
+      const end = Number(range[2]);
+      const index = Math.floor(start / entry.chunkSize);
+      if (entry.completedChunks.includes(index)) continue;
+
+      let response;
+      try {
+        response = await record.responseReady;
+      } catch {
+        continue; // This request failed; the chunk is fetched again next time
+      }
+      if (response.status !== 206) continue;
+      const data = await response.arrayBuffer();
+      if (data.byteLength !== end - start + 1) continue;
+
+      const file = await directory.getFileHandle(`${String(index).padStart(6, '0')}.part`, { create: true });
+      const writable = await file.createWritable();
+      await writable.write(data);
+      await writable.close();
+
+      entry = await recordModelChunk(db, modelId, index, data.byteLength);
+      await broadcast({ type: 'PREFETCH_CHUNK', modelId, storedBytes: entry.storedBytes, size: entry.size });
+    }
+
+    if (entry.complete) {
+      await broadcast({ type: 'PREFETCH_COMPLETE', modelId });
+      await event.updateUI({ title: 'Model downloaded. Open BrowserGPT to start chatting.' });
+    } else {
+      await broadcast({
+        type: 'PREFETCH_ERROR',
+        modelId,
+        error: `The background download did not finish (${registration.failureReason || 'incomplete'})`,
+      });
+    }
+  } catch (error) {
+    console.log('[Service Worker] Storing the background fetch failed:', modelId, error);
+    await broadcast({ type: 'PREFETCH_ERROR', modelId, error: error && error.message ? error.message : String(error) });
+  } finally {
+    if (db) {
+      db.close();
+    }
+  }
+}
+
+function openModelDb() {
+  return new Promise((resolve, reject) => {
+    // No version: the page creates and upgrades the database
+    const request = indexedDB.open(MODEL_DB_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getModelEntry(db, modelId) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(MODEL_ENTRY_STORE).objectStore(MODEL_ENTRY_STORE).get(modelId);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Same bookkeeping as ModelStore.writeChunk
+function recordModelChunk(db, modelId, index, bytes) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(MODEL_ENTRY_STORE, 'readwrite');
+    const store = transaction.objectStore(MODEL_ENTRY_STORE);
+    let entry = null;
+
+    const request = store.get(modelId);
+    request.onsuccess = () => {
+      entry = request.result;
+      if (!entry) {
+        transaction.abort();
+        return;
+      }
+      if (!entry.completedChunks.includes(index)) {
+        entry.completedChunks.push(index);
+        entry.storedBytes += bytes;
+      }
+      if (entry.completedChunks.length >= Math.ceil(entry.size / entry.chunkSize)) {
+        entry.complete = true;
+        entry.downloadedAt = Date.now();
+      }
+      store.put(entry, modelId);
+    };
+
+    transaction.oncomplete = () => resolve(entry);
+    transaction.onabort = () => reject(transaction.error || new Error('The download was removed'));
+  });
+}
+
+// Focus an open BrowserGPT tab if there is one
+function focusOrOpenWindow() {
+  return clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+    return windows.length > 0 ? windows[0].focus() : clients.openWindow('/');
+  });
+}
+
 // Background sync for offline actions
 self.addEventListener('sync', (event) => {
   console.log('[Service Worker] Background sync:', event.tag);
@@ -176,7 +352,5 @@ self.addEventListener('push', (event) => {
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
 
-  event.waitUntil(
-    clients.openWindow('/')
-  );
+  event.waitUntil(focusOrOpenWindow());
 });
@@ -5,7 +5,7 @@
  * @author Dr. Ernesto Lee
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Routes, Route } from 'react-router-dom';
 import { LandingPage } from './components/LandingPage';
 import { ChatInterface } from './components/ChatInterface';
@@ -15,29 +15,46 @@ import { Features } from './components/Features';
 import { Particles } from './components/Particles';
 import { Analytics } from './components/Analytics';
 import { PWAInstallPrompt } from './components/PWAInstallPrompt';
-import { useStore } from './store/useStore';
+import { useStore, initializeConversationPersistence } from './store/useStore';
 import { modelLoader } from './services/ModelLoader';
-import { inferenceEngine } from './services/InferenceEngine';
+import { llmBackend } from './services/BackendManager';
+import { modelRecommendationService } from './services/ModelRecommendationService';
+import { prefetchService } from './services/PrefetchService';
 import { AudioService } from './services/AudioService';
 import { VideoService } from './services/VideoService';
 import { functionService } from './services/FunctionService';
+import { ToolCallingService } from './services/ToolCallingService';
+import { tokenizerService } from './services/TokenizerService';
 import { videoProcessingService } from './services/VideoProcessingService';
 import { languageDetectionService } from './services/LanguageDetectionService';
 import { analyticsService } from './services/AnalyticsService';
 import { easterEggService } from './services/EasterEggService';
 import { gamificationService } from './services/GamificationService';
 import { SystemInfoService } from './services/SystemInfoService';
-import { getModelConfig } from './config/models';
-import type { Message } from './types';
+import {
+  getModelBackend,
+  getModelConfig,
+  selectModelByCapability,
+  type ModelCapability,
+  type ModelConfig,
+} from './config/models';
+import type { ChatTurn, Message, MessageMetadata } from './types';
 import type { MultimodalInput } from './components/ChatInput';
 import { formatFunctionResult } from './utils/formatFunctionResult';
+import { buildContextWindow } from './utils/contextWindow';
+import { resolveGenerationOptions } from './utils/generationOptions';
+import { isAbortError } from './utils/abort';
+import { isOutOfMemoryError } from './utils/memoryErrors';
+import { describeCapabilities, getMissingCapabilities, getRequiredCapabilities } from './utils/capabilities';
 
 // Create audio and video service instances
-const audioService = new AudioService(inferenceEngine);
-const videoService = new VideoService(inferenceEngine);
+const audioService = new AudioService(llmBackend);
+const videoService = new VideoService(llmBackend);
+const toolCallingService = new ToolCallingService(llmBackend, functionService);
 
 export function App() {
   const [showChat, setShowChat] = useState(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
 
   const {
     currentModelId,
@@ -50,11 +67,14 @@ export function App() {
     addMessage,
     updateMessage,
     setIsGenerating,
+    setContextReport,
     settings,
     analyticsOpen,
     toggleAnalytics,
     setSystemInfo,
+    systemInfo,
   } = useStore();
+  const [loadNotice, setLoadNotice] = useState<string | null>(null);
 
   /**
    * Register Service Worker for PWA functionality
@@ -87,6 +107,27 @@ export function App() {
     collectSystemInfo();
   }, [setSystemInfo]);
 
+  /**
+   * Restore saved conversations from IndexedDB and keep them persisted
+   */
+  useEffect(() => {
+    let cancelled = false;
+    let stopPersistence: (() => void) | undefined;
+
+    initializeConversationPersistence().then((stop) => {
+      if (cancelled) {
+        stop();
+      } else {
+        stopPersistence = stop;
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stopPersistence?.();
+    };
+  }, []);
+
   /**
    * Reset to landing page
    */
@@ -97,47 +138,149 @@ export function App() {
   };
 
   /**
-   * Load model when starting chat (with automatic fallback to CAESAR)
+   * Download (if needed) and initialize a model on its backend, showing progress
    */
-  const handleStartChat = async () => {
-    console.log(`📋 Starting chat with model ID: ${currentModelId}`);
-    const config = getModelConfig(currentModelId);
-    console.log(`📋 Model config loaded: ${config.name} (${config.id})`);
+  const loadModel = async (config: ModelConfig): Promise<void> => {
+    setModelStatus('downloading');
+    const generationOptions = resolveGenerationOptions(settings, null, true);
 
-    try {
-      setModelStatus('downloading');
+    // Keep recently used models loaded within the device's memory budget
+    const { memoryBudget } = await modelRecommendationService.getDeviceProfile(systemInfo);
+    await llmBackend.setResidencyPolicy({ maxModels: settings.residentModels, memoryBudget });
+
+    // A model still downloading (or warming up) in the background is waited for, not fetched twice
+    await prefetchService.waitFor(config.id, setLoadProgress);
 
-      // Load model with progress tracking
+    if (llmBackend.isResident(config.id)) {
+      // Already loaded - switching is instant
+      setModelStatus('loading');
+      await llmBackend.initialize(config, generationOptions);
+    } else if (getModelBackend(config) === 'webllm') {
+      // WebLLM downloads, caches and compiles the model itself, reporting progress as it goes
+      console.log('🔄 Initializing WebLLM inference engine...');
+      await llmBackend.initialize(config, generationOptions, setLoadProgress);
+    } else {
+      // Download the model once (or find it cached) with progress tracking
       await modelLoader.loadModel(
         config,
         (progress) => {
           setLoadProgress(progress);
         },
-        settings.storage.cacheLargeModels
+        settings.storage
       );
 
       // Keep showing loading screen during MediaPipe initialization
       setModelStatus('loading');
       console.log('🔄 Initializing MediaPipe inference engine...');
 
-      // Initialize inference engine (this is where MediaPipe downloads large models)
-      await inferenceEngine.initialize(config);
+      // Initialize inference engine from the stored model bytes
+      await llmBackend.initialize(config, generationOptions);
+      await modelLoader.releaseUncachedModel(config, settings.storage.cacheLargeModels);
+    }
+  };
+
+  // Apply a changed residency limit right away (evicting models over it)
+  useEffect(() => {
+    if (!llmBackend.isLoaded()) return;
+    modelRecommendationService
+      .getDeviceProfile(systemInfo)
+      .then(({ memoryBudget }) => llmBackend.setResidencyPolicy({ maxModels: settings.residentModels, memoryBudget }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings.residentModels]);
+
+  /**
+   * Hot-swap when another model is picked while chatting (e.g. in Settings)
+   * Resident models switch instantly; if loading fails the previous model is restored.
+   */
+  useEffect(() => {
+    if (!showChat || modelStatus !== 'loaded') return;
+
+    const previous = llmBackend.getConfig();
+    if (!previous || previous.id === currentModelId) return;
+
+    const config = getModelConfig(currentModelId);
+    console.log(`🔀 Switching model: ${previous.name} → ${config.name}`);
+    setLoadNotice(null);
+
+    loadModel(config)
+      .catch(async (error) => {
+        console.error('❌ Model switch failed:', error);
+        alert(`❌ Couldn't switch to ${config.name}\n\n${error instanceof Error ? error.message : error}`);
+        useStore.getState().setCurrentModel(previous.id);
+        useStore.getState().updateSettings({ backend: getModelBackend(previous) });
+        await loadModel(previous);
+      })
+      .catch((error) => console.error('❌ Restoring the previous model failed:', error))
+      .finally(() => {
+        setModelStatus('loaded');
+        setLoadProgress(null);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentModelId, showChat, modelStatus]);
+
+  /**
+   * Load model when starting chat (with automatic fallback to CAESAR)
+   */
+  const handleStartChat = () => startChat(currentModelId);
+
+  /**
+   * Load a model and open the chat
+   * Warns first if the model needs more memory than the device has; a model that
+   * runs out of memory while loading is replaced by the next smaller one.
+   * @param isFallback - Loading a replacement after a failure (skips the warning)
+   */
+  const startChat = async (modelId: string, isFallback = false): Promise<void> => {
+    console.log(`📋 Starting chat with model ID: ${modelId}`);
+    const config = getModelConfig(modelId);
+    console.log(`📋 Model config loaded: ${config.name} (${config.id})`);
+
+    if (!isFallback) {
+      setLoadNotice(null);
+      const fit = await modelRecommendationService.checkModelFit(config, systemInfo);
+      if (fit.warning && !window.confirm(`⚠️ ${fit.warning}\n\nLoad it anyway?`)) {
+        return;
+      }
+    }
+
+    try {
+      await loadModel(config);
 
       setModelStatus('loaded');
       setShowChat(true);
 
-      // Create first conversation
-      createConversation(currentModelId);
+      // Resume the restored conversation, or create the first one
+      if (!useStore.getState().currentConversationId) {
+        createConversation(modelId);
+      }
     } catch (error) {
-      console.error('Failed to load model:', error);
       setModelStatus('not-loaded');
       setLoadProgress(null);
 
+      // Cancelled from the progress screen - back to model selection
+      if (isAbortError(error)) {
+        return;
+      }
+      console.error('Failed to load model:', error);
+
+      // Out of memory - switch to a smaller model without asking
+      const fallback = isOutOfMemoryError(error) ? modelRecommendationService.getFallbackModel(config) : null;
+      if (fallback) {
+        console.warn(`🧠 ${config.name} ran out of memory, falling back to ${fallback.name}`);
+        await llmBackend.unload().catch(() => undefined);
+
+        const { setCurrentModel, updateSettings } = useStore.getState();
+        setCurrentModel(fallback.id);
+        updateSettings({ backend: getModelBackend(fallback) });
+        setLoadNotice(`${config.name} ran out of memory on this device, so ${fallback.name} is loading instead.`);
+
+        return startChat(fallback.id, true);
+      }
+
       // Show detailed error message
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       // Auto-fallback to CAESAR if not already using it
-      if (currentModelId !== 'gemma270m') {
+      if (modelId !== 'gemma270m') {
         const shouldFallback = window.confirm(
           `❌ Failed to load model: ${config.name}\n\n` +
           `Error: ${errorMessage}\n\n` +
@@ -155,11 +298,12 @@ export function App() {
           console.log('🔄 Auto-falling back to CAESAR 270M...');
 
           // Switch to CAESAR and try again
-          const { setCurrentModel } = useStore.getState();
+          const { setCurrentModel, updateSettings } = useStore.getState();
           setCurrentModel('gemma270m');
+          updateSettings({ backend: 'mediapipe' });
 
           // Retry with CAESAR
-          return handleStartChat();
+          return startChat('gemma270m', true);
         }
       } else {
         // Already using CAESAR and it failed
@@ -176,6 +320,66 @@ export function App() {
     }
   };
 
+  /**
+   * Make sure the loaded model can read a message's attachments, switching
+   * models if needed (per settings.modelSwitching); the conversation is kept
+   * @returns The model that will answer and the one it replaced, or null if the
+   *          attachments can't be read and the message is answered as text
+   */
+  const ensureCapableModel = async (
+    required: ModelCapability[]
+  ): Promise<{ config: ModelConfig; switchedFrom?: ModelConfig } | null> => {
+    const current = getModelConfig(useStore.getState().currentModelId);
+    const missing = getMissingCapabilities(current, required);
+    if (missing.length === 0) {
+      return { config: current };
+    }
+
+    const { memoryBudget } = await modelRecommendationService.getDeviceProfile(systemInfo);
+    const target = selectModelByCapability(required, memoryBudget);
+    if (settings.modelSwitching === 'off' || getMissingCapabilities(target, required).length > 0) {
+      return null;
+    }
+    if (
+      settings.modelSwitching === 'ask' &&
+      !window.confirm(
+        `${current.name} can't read ${describeCapabilities(missing)}.\n\n` +
+        `Switch to ${target.name} to answer this message? Your conversation stays as it is.`
+      )
+    ) {
+      return null;
+    }
+
+    console.log(`🔀 Switching to ${target.name} for ${describeCapabilities(missing)} input`);
+    const { setCurrentModel, updateSettings } = useStore.getState();
+
+    try {
+      setCurrentModel(target.id);
+      updateSettings({ backend: getModelBackend(target) });
+      setLoadNotice(`Loading ${target.name} to read the ${describeCapabilities(missing)} you attached. Your conversation is kept.`);
+      await loadModel(target);
+      return { config: target, switchedFrom: current };
+    } catch (error) {
+      console.error('❌ Model switch failed, restoring previous model:', error);
+      setCurrentModel(current.id);
+      updateSettings({ backend: getModelBackend(current) });
+      setLoadNotice(null);
+      await loadModel(current);
+      return null;
+    } finally {
+      setModelStatus('loaded');
+      setLoadProgress(null);
+    }
+  };
+
+  /**
+   * Mark a stopped message as interrupted, keeping the metadata it already has
+   */
+  const markInterrupted = (conversationId: string, messageId: string) => {
+    const message = useStore.getState().conversations[conversationId]?.messages.find((msg) => msg.id === messageId);
+    updateMessage(conversationId, messageId, { metadata: { ...message?.metadata, interrupted: true } });
+  };
+
   /**
    * Handle sending a message (with multimodal support)
    */
@@ -230,8 +434,15 @@ export function App() {
       }
     }
 
+    // Each request gets its own controller so Stop only affects the current one
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    generationAbortRef.current = abortController;
     setIsGenerating(true);
 
+    // Message currently receiving streamed media output, marked if the user stops
+    let streamingMessageId: string | null = null;
+
     try {
       // Check for model personality query (Easter egg)
       if (text && easterEggService.isModelPersonalityQuery(text)) {
@@ -247,61 +458,34 @@ export function App() {
         return;
       }
 
-      // Check for function calling
-      if (settings.functions.enableFunctionCalling && text) {
-        const functionCall = functionService.detectFunctionCall(text);
-
-        if (functionCall) {
-          console.log('🔧 Function call detected:', functionCall);
-          gamificationService.trackFeature('functionCalling');
-
-          // Add function call message
-          const functionCallMessage: Message = {
-            id: crypto.randomUUID(),
-            role: 'assistant',
-            content: `🔧 Calling function: ${functionCall.functionName}...`,
-            timestamp: new Date(),
-          };
-          addMessage(currentConversationId, functionCallMessage);
-
-          // Execute function
-          const result = await functionService.executeFunction(functionCall);
-
-          if (result.success) {
-            console.log('✅ Function executed successfully:', result);
-
-            // Add beautifully formatted function result message
-            const formattedResult = formatFunctionResult(functionCall.functionName, result.result);
-            const resultMessage: Message = {
-              id: crypto.randomUUID(),
-              role: 'assistant',
-              content: formattedResult,
-              timestamp: new Date(),
-            };
-            addMessage(currentConversationId, resultMessage);
-          } else {
-            console.error('❌ Function execution failed:', result.error);
+      // Attachments may need vision or audio; switch to a model that has them
+      const required = getRequiredCapabilities({ imageFiles, audioFiles, videoFiles });
+      const answering = hasMultimodal ? await ensureCapableModel(required) : null;
+      const answeringModel = answering?.config ?? getModelConfig(useStore.getState().currentModelId);
+      const switchMetadata: MessageMetadata = answering?.switchedFrom
+        ? { switchedFromModel: answering.switchedFrom.name }
+        : {};
 
-            // Add error message
-            const errorMessage: Message = {
-              id: crypto.randomUUID(),
-              role: 'assistant',
-              content: `❌ Function execution failed: ${result.error}`,
-              timestamp: new Date(),
-            };
-            addMessage(currentConversationId, errorMessage);
-          }
-        }
+      if (hasMultimodal && !answering) {
+        addMessage(currentConversationId, {
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: `📎 ${answeringModel.name} can't read ${describeCapabilities(getMissingCapabilities(answeringModel, required))}, so the attachments were left out of this answer.`,
+          timestamp: new Date(),
+        });
       }
 
-      // Generate AI response (optionally using function result)
-      // Check if model supports multimodal
-      const config = getModelConfig(currentModelId);
-      const isMultimodal = config.capabilities.length > 1;
-
-      if (hasMultimodal && isMultimodal) {
+      // Generate AI response
+      if (hasMultimodal && answering) {
         console.log('🎨 Using multimodal generation');
 
+        // Stream partial output into an existing message after its prefix
+        const streamInto = (messageId: string, prefix: string) => {
+          streamingMessageId = messageId;
+          return (partialText: string) =>
+            updateMessage(currentConversationId, messageId, { content: prefix + partialText });
+        };
+
         // Convert files to data URLs for MediaPipe
         const multimodalInputs = [];
 
@@ -332,7 +516,11 @@ export function App() {
               const audioSource = await fileToDataURL(file);
 
               if (settings.audio.asrProvider === 'gemma') {
-                const result = await audioService.transcribeWithGemma(audioSource);
+                const result = await audioService.transcribeWithGemma(
+                  audioSource,
+                  signal,
+                  streamInto(infoMessage.id, `${infoMessage.content}\n\n`)
+                );
                 multimodalInputs.push({ text: `[Transcription]: ${result.text}` });
               } else {
                 // For Web Speech API, just attach the audio and let user use mic button
@@ -354,7 +542,9 @@ export function App() {
               const result = await audioService.translateAudio(
                 audioSource,
                 audioTranslationOptions.sourceLanguage,
-                audioTranslationOptions.targetLanguage
+                audioTranslationOptions.targetLanguage,
+                signal,
+                streamInto(infoMessage.id, `${infoMessage.content}\n\n`)
               );
 
               const translationMessage: Message = {
@@ -384,15 +574,24 @@ export function App() {
 
             for (const file of audioFiles) {
               const audioSource = await fileToDataURL(file);
-              const result = await audioService.analyzeAudio(audioSource, audioAnalysisOptions.analysisType);
 
               const analysisMessage: Message = {
                 id: crypto.randomUUID(),
                 role: 'assistant',
-                content: `**${analysisTypeLabels[audioAnalysisOptions.analysisType]}:**\n\n${result.findings}`,
+                content: `**${analysisTypeLabels[audioAnalysisOptions.analysisType]}:**\n\n`,
                 timestamp: new Date(),
               };
               addMessage(currentConversationId, analysisMessage);
+
+              const result = await audioService.analyzeAudio(
+                audioSource,
+                audioAnalysisOptions.analysisType,
+                signal,
+                streamInto(analysisMessage.id, analysisMessage.content)
+              );
+              updateMessage(currentConversationId, analysisMessage.id, {
+                content: `${analysisMessage.content}${result.findings}`,
+              });
             }
           } else {
             // Default: just attach the audio
@@ -425,15 +624,24 @@ export function App() {
               );
 
               const frameDataURLs = processingResult.frames.map(f => f.dataURL);
-              const result = await videoService.describeVideo(frameDataURLs, processingResult.duration);
 
               const descriptionMessage: Message = {
                 id: crypto.randomUUID(),
                 role: 'assistant',
-                content: `**Video Description:**\n\n${result.description}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+                content: `**Video Description:**\n\n`,
                 timestamp: new Date(),
               };
               addMessage(currentConversationId, descriptionMessage);
+
+              const result = await videoService.describeVideo(
+                frameDataURLs,
+                processingResult.duration,
+                signal,
+                streamInto(descriptionMessage.id, descriptionMessage.content)
+              );
+              updateMessage(currentConversationId, descriptionMessage.id, {
+                content: `${descriptionMessage.content}${result.description}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+              });
             }
           } else if (videoAction === 'analyze' && videoAnalysisOptions) {
             // Analyze video for specific aspects
@@ -462,19 +670,25 @@ export function App() {
               );
 
               const frameDataURLs = processingResult.frames.map(f => f.dataURL);
-              const result = await videoService.analyzeVideo(
-                frameDataURLs,
-                processingResult.duration,
-                videoAnalysisOptions.analysisType
-              );
 
               const analysisMessage: Message = {
                 id: crypto.randomUUID(),
                 role: 'assistant',
-                content: `**${analysisTypeLabels[videoAnalysisOptions.analysisType]}:**\n\n${result.findings}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+                content: `**${analysisTypeLabels[videoAnalysisOptions.analysisType]}:**\n\n`,
                 timestamp: new Date(),
               };
               addMessage(currentConversationId, analysisMessage);
+
+              const result = await videoService.analyzeVideo(
+                frameDataURLs,
+                processingResult.duration,
+                videoAnalysisOptions.analysisType,
+                signal,
+                streamInto(analysisMessage.id, analysisMessage.content)
+              );
+              updateMessage(currentConversationId, analysisMessage.id, {
+                content: `${analysisMessage.content}${result.findings}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+              });
             }
           } else if (videoAction === 'summarize') {
             // Summarize video with key moments
@@ -496,15 +710,24 @@ export function App() {
               );
 
               const frameDataURLs = processingResult.frames.map(f => f.dataURL);
-              const result = await videoService.summarizeVideo(frameDataURLs, processingResult.duration);
 
               const summaryMessage: Message = {
                 id: crypto.randomUUID(),
                 role: 'assistant',
-                content: `**Video Summary:**\n\n${result.summary}\n\n**Key Moments:**\n${result.keyMoments.map((m, i) => `${i + 1}. ${m}`).join('\n')}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+                content: `**Video Summary:**\n\n`,
                 timestamp: new Date(),
               };
               addMessage(currentConversationId, summaryMessage);
+
+              const result = await videoService.summarizeVideo(
+                frameDataURLs,
+                processingResult.duration,
+                signal,
+                streamInto(summaryMessage.id, summaryMessage.content)
+              );
+              updateMessage(currentConversationId, summaryMessage.id, {
+                content: `${summaryMessage.content}${result.summary}\n\n**Key Moments:**\n${result.keyMoments.map((m, i) => `${i + 1}. ${m}`).join('\n')}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+              });
             }
           } else if (videoAction === 'qa' && videoQAOptions) {
             // Answer question about video
@@ -526,19 +749,25 @@ export function App() {
               );
 
               const frameDataURLs = processingResult.frames.map(f => f.dataURL);
-              const result = await videoService.answerVideoQuestion(
-                frameDataURLs,
-                processingResult.duration,
-                videoQAOptions.question
-              );
 
               const qaMessage: Message = {
                 id: crypto.randomUUID(),
                 role: 'assistant',
-                content: `**Q:** ${result.question}\n\n**A:** ${result.answer}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+                content: `**Q:** ${videoQAOptions.question}\n\n**A:** `,
                 timestamp: new Date(),
               };
               addMessage(currentConversationId, qaMessage);
+
+              const result = await videoService.answerVideoQuestion(
+                frameDataURLs,
+                processingResult.duration,
+                videoQAOptions.question,
+                signal,
+                streamInto(qaMessage.id, qaMessage.content)
+              );
+              updateMessage(currentConversationId, qaMessage.id, {
+                content: `${qaMessage.content}${result.answer}\n\n*Analyzed ${result.frameCount} frames in ${result.duration.toFixed(2)}s*`,
+              });
             }
           } else {
             // Default: just attach the video frames
@@ -568,46 +797,56 @@ export function App() {
           }
         }
 
-        // Generate multimodal response with metadata
-        const result = await inferenceEngine.generateMultimodal(
+        // Stream multimodal response; metadata arrives with the final token
+        const assistantMessageId = crypto.randomUUID();
+        addMessage(currentConversationId, {
+          id: assistantMessageId,
+          role: 'assistant',
+          content: '',
+          timestamp: new Date(),
+        });
+        streamingMessageId = assistantMessageId;
+
+        let accumulatedText = '';
+
+        await llmBackend.generateMultimodalStreaming(
           multimodalInputs,
           {
-            maxTokens: 512,
-            temperature: 0.8,
-            topP: 0.9,
-            streamTokens: false,
+            ...resolveGenerationOptions(
+              settings,
+              useStore.getState().conversations[currentConversationId],
+              true
+            ),
+            signal,
           },
-          settings.imageResolution + 'x' + settings.imageResolution
-        );
+          (chunk: string, isDone: boolean, metadata?: MessageMetadata) => {
+            accumulatedText += chunk;
 
-        // Add assistant message with metadata
-        const assistantMessage: Message = {
-          id: crypto.randomUUID(),
-          role: 'assistant',
-          content: result.text,
-          timestamp: new Date(),
-          metadata: result.metadata,
-        };
+            updateMessage(currentConversationId, assistantMessageId, {
+              content: accumulatedText,
+              ...(isDone && metadata ? { metadata: { ...metadata, ...switchMetadata } } : {}),
+            });
 
-        addMessage(currentConversationId, assistantMessage);
+            // Track analytics when streaming is complete
+            if (isDone && metadata?.inputTokens && metadata?.totalTokens) {
+              analyticsService.trackTokenUsage(
+                currentConversationId,
+                answeringModel.id,
+                metadata.inputTokens,
+                metadata.totalTokens - metadata.inputTokens
+              );
 
-        // Track analytics
-        if (result.metadata?.inputTokens && result.metadata?.totalTokens) {
-          analyticsService.trackTokenUsage(
-            currentConversationId,
-            currentModelId,
-            result.metadata.inputTokens,
-            result.metadata.totalTokens - result.metadata.inputTokens
-          );
-
-          // Track gamification achievements
-          const outputTokens = result.metadata.totalTokens - result.metadata.inputTokens;
-          const achievements = gamificationService.trackTokens(currentModelId, outputTokens);
-          achievements.forEach(achievement => console.log('🏆', achievement));
-        }
+              // Track gamification achievements
+              const outputTokens = metadata.totalTokens - metadata.inputTokens;
+              const achievements = gamificationService.trackTokens(answeringModel.id, outputTokens);
+              achievements.forEach(achievement => console.log('🏆', achievement));
+            }
+          },
+          settings.imageResolution + 'x' + settings.imageResolution
+        );
       } else {
         // Text-only generation with streaming
-        const assistantMessageId = crypto.randomUUID();
+        let assistantMessageId = crypto.randomUUID();
 
         // Add empty assistant message that will be updated as tokens stream in
         const assistantMessage: Message = {
@@ -658,59 +897,134 @@ export function App() {
           }
         }
 
-        // Build conversation history for context (last 10 messages to avoid token overflow)
+        // Build conversation history that fits the model's context window
         const currentConv = useStore.getState().conversations[currentConversationId];
-        const recentMessages = currentConv.messages.slice(-10); // Last 10 messages
-        const conversationHistory = recentMessages
-          .map((msg: Message) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-          .join('\n\n');
-
-        // Append current user message to history
-        const fullPrompt = conversationHistory
-          ? `${conversationHistory}\n\nUser: ${processedText}`
-          : `User: ${processedText}`;
-
-        // Generate streaming response with verbosity control, system prompts, structured output, and safety
-        await inferenceEngine.generateStreaming(
-          fullPrompt,
-          {
-            maxTokens: 512,
-            temperature: 0.8,
-            topP: 0.9,
-            streamTokens: true,
-          },
-          (chunk: string, isDone: boolean, metadata?: any) => {
-            // Accumulate the chunk
-            accumulatedText += chunk;
+        const history = currentConv.messages.filter((msg: Message) => msg.id !== assistantMessageId);
+        // The current user message is appended separately below
+        if (history.length > 0 && history[history.length - 1].role === 'user') {
+          history.pop();
+        }
 
-            // Update message with accumulated text
-            updateMessage(currentConversationId, assistantMessageId, {
-              content: accumulatedText,
-              ...(isDone && metadata ? { metadata } : {}),
-            });
+        const generationOptions = { ...resolveGenerationOptions(settings, currentConv, true), signal };
+        // Count with the model's tokenizer so the budget is exact
+        // The system instruction (with the tool catalogue) counts against the budget too
+        const systemInstruction = toolCallingService.getSystemInstruction(settings);
+        await tokenizerService.prepare([
+          processedText,
+          systemInstruction,
+          currentConv.summary || '',
+          ...history.map((msg: Message) => msg.content),
+        ]);
+        const contextWindow = buildContextWindow(currentConv, history, {
+          contextWindow: answeringModel.contextWindow,
+          reservedTokens: generationOptions.maxTokens,
+          promptTokens: tokenizerService.countTokens(processedText) + tokenizerService.countTokens(systemInstruction),
+        });
+        setContextReport(contextWindow.report);
+
+        if (contextWindow.report.droppedMessageIds.length > 0) {
+          console.log(`✂️ Context window: dropped ${contextWindow.report.droppedMessageIds.length} older messages`);
+        }
 
-            // Track analytics when streaming is complete
-            if (isDone && metadata?.inputTokens && metadata?.totalTokens) {
-              analyticsService.trackTokenUsage(
-                currentConversationId,
-                currentModelId,
-                metadata.inputTokens,
-                metadata.totalTokens - metadata.inputTokens
-              );
+        // Earlier turns as user/assistant roles, ending with the current message
+        const turns: ChatTurn[] = [
+          ...(contextWindow.summary
+            ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${contextWindow.summary}` }]
+            : []),
+          ...contextWindow.messages.map((msg: Message): ChatTurn => ({ role: msg.role, content: msg.content })),
+          { role: 'user', content: processedText },
+        ];
+
+        // Generate streaming response; the model may call enabled functions before answering
+        try {
+          await toolCallingService.run(turns, generationOptions, settings, {
+            onToken: (chunk: string, isDone: boolean, metadata?: any) => {
+              // Accumulate the chunk
+              accumulatedText += chunk;
+
+              // Update message with accumulated text
+              updateMessage(currentConversationId, assistantMessageId, {
+                content: accumulatedText,
+                ...(isDone && metadata ? { metadata: { ...metadata, ...switchMetadata } } : {}),
+              });
+
+              // Track analytics when streaming is complete
+              if (isDone && metadata?.inputTokens && metadata?.totalTokens) {
+                analyticsService.trackTokenUsage(
+                  currentConversationId,
+                  answeringModel.id,
+                  metadata.inputTokens,
+                  metadata.totalTokens - metadata.inputTokens
+                );
+
+                // Track gamification achievements
+                const outputTokens = metadata.totalTokens - metadata.inputTokens;
+                const achievements = gamificationService.trackTokens(answeringModel.id, outputTokens);
+                achievements.forEach(achievement => console.log('🏆', achievement));
+              }
+            },
+            onToolCall: (call) => {
+              gamificationService.trackFeature('functionCalling');
+              updateMessage(currentConversationId, assistantMessageId, {
+                content: `🔧 Calling function: ${call.functionName}...`,
+              });
+            },
+            onToolResult: (call, result) => {
+              if (result.success) {
+                console.log('✅ Function executed successfully:', result);
+              } else {
+                console.error('❌ Function execution failed:', result.error);
+              }
 
-              // Track gamification achievements
-              const outputTokens = metadata.totalTokens - metadata.inputTokens;
-              const achievements = gamificationService.trackTokens(currentModelId, outputTokens);
-              achievements.forEach(achievement => console.log('🏆', achievement));
-            }
-          },
-          settings.responseStyle.verbosity, // Pass verbosity setting
-          settings.systemPrompt, // Pass system prompt settings
-          settings.structuredOutput, // Pass structured output settings
-          settings.safety // Pass safety settings
-        );
+              // The placeholder becomes the function result; the answer gets a new message
+              updateMessage(currentConversationId, assistantMessageId, {
+                content: result.success
+                  ? formatFunctionResult(call.functionName, result.result)
+                  : `❌ Function execution failed: ${result.error}`,
+              });
+
+              assistantMessageId = crypto.randomUUID();
+              addMessage(currentConversationId, {
+                id: assistantMessageId,
+                role: 'assistant',
+                content: '',
+                timestamp: new Date(),
+              });
+            },
+          }, {
+            contextWindow: answeringModel.contextWindow,
+            reservedTokens: generationOptions.maxTokens,
+          });
+        } catch (error) {
+          if (!isAbortError(error)) {
+            throw error;
+          }
+
+          // Stopped during a function call: keep the message as it is
+          markInterrupted(currentConversationId, assistantMessageId);
+        }
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('⏹️ Generation stopped by user');
+
+        // Keep streamed media output as it is
+        if (streamingMessageId) {
+          markInterrupted(currentConversationId, streamingMessageId);
+          return;
+        }
+
+        const stoppedMessage: Message = {
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: '⏹️ Stopped before a response was generated.',
+          timestamp: new Date(),
+          metadata: { interrupted: true },
+        };
+        addMessage(currentConversationId, stoppedMessage);
+        return;
+      }
+
       console.error('Generation error:', error);
 
       // Add error message
@@ -723,10 +1037,24 @@ export function App() {
 
       addMessage(currentConversationId, errorMessage);
     } finally {
-      setIsGenerating(false);
+      // A stopped request already released the input
+      if (generationAbortRef.current === abortController) {
+        generationAbortRef.current = null;
+        setIsGenerating(false);
+      }
     }
   };
 
+  /**
+   * Stop the current generation
+   * Partial output is kept and the input is re-enabled right away
+   */
+  const handleStopGeneration = () => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setIsGenerating(false);
+  };
+
   /**
    * Convert File to Data URL for MediaPipe
    */
@@ -739,6 +1067,10 @@ export function App() {
     });
   };
 
+  // Backend that will load the selected model (download controls only apply to the model store)
+  const currentBackend = llmBackend.getBackend(getModelBackend(getModelConfig(currentModelId)));
+  const hasDownloadControls = currentBackend.getCapabilities().resumableDownloads;
+
   return (
     <>
       {/* Particles Background - Global */}
@@ -760,7 +1092,15 @@ export function App() {
                 <ModelLoadProgress
                   progress={loadProgress}
                   modelName={getModelConfig(currentModelId).name}
+                  backendName={currentBackend.name}
+                  notice={loadNotice}
                   status={modelStatus as 'downloading' | 'loading'}
+                  {...(hasDownloadControls && {
+                    onPause: () => modelLoader.pauseDownload(),
+                    onResume: () => modelLoader.resumeDownload(),
+                    onRetry: () => modelLoader.retryDownload(),
+                    onCancel: () => modelLoader.cancelDownload(),
+                  })}
                 />
               )}
 
@@ -768,6 +1108,7 @@ export function App() {
               {showChat && modelStatus === 'loaded' && (
                 <ChatInterface
                   onSendMessage={handleSendMessage}
+                  onStopGeneration={handleStopGeneration}
                   onChangeModel={handleChangeModel}
                 />
               )}
@@ -7,7 +7,7 @@
 import { useState, useEffect } from 'react';
 import { analyticsService } from '../services/AnalyticsService';
 import type { OverallAnalytics, DailyUsage } from '../services/AnalyticsService';
-import { MODEL_CONFIG, type ModelId } from '../config/models';
+import { findModelConfig } from '../config/models';
 
 interface Props {
   onClose: () => void;
@@ -74,7 +74,7 @@ export function Analytics({ onClose }: Props) {
   };
 
   const getModelName = (modelId: string): string => {
-    const config = MODEL_CONFIG.models[modelId as ModelId];
+    const config = findModelConfig(modelId);
     return config?.name || modelId;
   };
 
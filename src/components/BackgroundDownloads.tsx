@@ -0,0 +1,148 @@
+/**
+ * Background Downloads Component
+ * Prefetch a model while chatting with another one, then switch to it when it's ready
+ * @author Dr. Ernesto Lee
+ */
+
+import { useEffect, useState } from 'react';
+import { formatBytes, type ModelConfig } from '../config/models';
+import { useStore } from '../store/useStore';
+import { modelStore } from '../services/ModelStore';
+import { prefetchService } from '../services/PrefetchService';
+import { resolveGenerationOptions } from '../utils/generationOptions';
+import type { PrefetchJob } from '../types';
+
+interface Props {
+  models: ModelConfig[];
+  currentModelId: string;
+  onSwitch: (modelId: string) => void;
+}
+
+const STATE_LABELS: Record<PrefetchJob['state'], string> = {
+  downloading: 'Downloading',
+  warming: 'Warming up',
+  ready: 'Ready',
+  failed: 'Failed',
+};
+
+export function BackgroundDownloads({ models, currentModelId, onSwitch }: Props) {
+  const { prefetchJobs, setPrefetchJob, settings } = useStore();
+  const [storedModelIds, setStoredModelIds] = useState<string[]>([]);
+  const [selectedModelId, setSelectedModelId] = useState('');
+
+  const modelIds = models.map((model) => model.id).join(',');
+
+  useEffect(() => {
+    Promise.all(
+      models.map(async (model) => (modelStore.isAvailable(model, await modelStore.getEntry(model.id)) ? model.id : null))
+    ).then((ids) => setStoredModelIds(ids.filter((id): id is string => id !== null)));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [modelIds, prefetchJobs]);
+
+  // Models that still need downloading (local-file models can't be fetched)
+  const candidates = models.filter(
+    (model) =>
+      model.id !== currentModelId &&
+      model.custom?.source !== 'file' &&
+      !storedModelIds.includes(model.id) &&
+      !prefetchJobs[model.id]
+  );
+  const jobs = Object.values(prefetchJobs);
+
+  const startPrefetch = () => {
+    const config = models.find((model) => model.id === selectedModelId);
+    if (!config) return;
+
+    setSelectedModelId('');
+    prefetchService.prefetch(
+      config,
+      settings.storage,
+      resolveGenerationOptions(settings, null, true),
+      (job) => setPrefetchJob(job.modelId, job)
+    );
+  };
+
+  const removeJob = (job: PrefetchJob) => {
+    if (job.state === 'downloading') {
+      prefetchService.cancel(job.modelId);
+    } else {
+      prefetchService.dismiss(job.modelId);
+    }
+    setPrefetchJob(job.modelId, null);
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-xl space-y-3">
+      <div>
+        <h4 className="font-medium text-gray-900 dark:text-white">Download in Background</h4>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Get another model ready while you keep chatting. Downloads continue when the tab is hidden, and
+          you'll be notified when the model is loaded and warmed up.
+        </p>
+      </div>
+
+      {candidates.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={selectedModelId}
+            onChange={(e) => setSelectedModelId(e.target.value)}
+            className="flex-1 px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+          >
+            <option value="">Choose a model…</option>
+            {candidates.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name} ({formatBytes(model.size)})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={startPrefetch}
+            disabled={!selectedModelId}
+            className="px-3 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Download
+          </button>
+        </div>
+      )}
+
+      {jobs.map((job) => (
+        <div key={job.modelId} className="p-3 bg-white dark:bg-gray-700 rounded-lg space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{job.modelName}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                {STATE_LABELS[job.state]}
+                {job.state === 'downloading' && job.progress && ` · ${job.progress.percentage.toFixed(0)}%`}
+                {job.state === 'ready' && (job.warmedUp ? ' · loaded, switching is instant' : ' · stored, loads when selected')}
+                {job.error && ` · ${job.error}`}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {job.state === 'ready' && job.modelId !== currentModelId && (
+                <button
+                  onClick={() => onSwitch(job.modelId)}
+                  className="px-3 py-1.5 text-xs font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                >
+                  Switch
+                </button>
+              )}
+              {job.state !== 'warming' && (
+                <button
+                  onClick={() => removeJob(job)}
+                  className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                >
+                  {job.state === 'downloading' ? 'Cancel' : 'Dismiss'}
+                </button>
+              )}
+            </div>
+          </div>
+          {job.state === 'downloading' && (
+            <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 rounded-full" style={{ width: `${job.progress?.percentage ?? 0}%` }} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -47,9 +47,10 @@ interface Props {
   placeholder?: string;
   supportMultimodal?: boolean;
   onNewChat?: () => void; // Callback for New Chat button
+  onStop?: () => void; // Shown instead of Send while a response is generating
 }
 
-export function ChatInput({ onSend, disabled = false, placeholder = 'Ask anything...', supportMultimodal = false, onNewChat }: Props) {
+export function ChatInput({ onSend, disabled = false, placeholder = 'Ask anything...', supportMultimodal = false, onNewChat, onStop }: Props) {
   const [input, setInput] = useState('');
   const [isFocused, setIsFocused] = useState(false);
   const [imageFiles, setImageFiles] = useState<File[]>([]);
@@ -1009,7 +1010,20 @@ export function ChatInput({ onSend, disabled = false, placeholder = 'Ask anythin
             </Tooltip>
           )}
 
-          {/* Send Button */}
+          {/* Stop Button */}
+          {onStop ? (
+          <Tooltip content="Stop generating" shortcut="Esc" position="top">
+            <button
+              onClick={onStop}
+              className="p-3 rounded-xl flex-shrink-0 bg-primary text-primary-foreground hover:bg-primary/90 transition-all duration-200"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+            </button>
+          </Tooltip>
+          ) : (
+          /* Send Button */
           <Tooltip content="Send message" shortcut="Enter" position="top">
             <NeonGlowButton
               onClick={handleSend}
@@ -1040,6 +1054,7 @@ export function ChatInput({ onSend, disabled = false, placeholder = 'Ask anythin
             </svg>
           </NeonGlowButton>
           </Tooltip>
+          )}
         </div>
       </motion.div>
 
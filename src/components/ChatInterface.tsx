@@ -5,7 +5,7 @@
  * @author Dr. Ernesto Lee
  */
 
-import { useEffect, useRef, useState, lazy, Suspense } from 'react';
+import { useEffect, useMemo, useRef, useState, lazy, Suspense } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useStore } from '../store/useStore';
 import { ChatMessage } from './ChatMessage';
@@ -24,6 +24,8 @@ import { MilestoneCelebration } from './MilestoneCelebration';
 const Settings = lazy(() => import('./Settings').then(m => ({ default: m.Settings })));
 import { getModelConfig } from '../config/models';
 import { exportService } from '../services/ExportService';
+import { functionService } from '../services/FunctionService';
+import { estimateTokenCount, tokenizerService } from '../services/TokenizerService';
 import { ModelDashboard } from './ModelDashboard';
 import { HelpGuide } from './HelpGuide';
 import { Tooltip } from './Tooltip';
@@ -31,13 +33,14 @@ import type { MultimodalInput } from './ChatInput';
 
 interface Props {
   onSendMessage: (input: MultimodalInput) => void;
+  onStopGeneration?: () => void;
   onChangeModel?: () => void;
 }
 
-export function ChatInterface({ onSendMessage }: Props) {
+export function ChatInterface({ onSendMessage, onStopGeneration }: Props) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { currentConversationId, conversations, isGenerating, currentModelId, settings, updateSettings, createConversation, addMessage, updateMessage, truncateMessagesAfter, setCurrentConversation, forkConversation, updateConversationSummary, togglePinMessage, toggleAnalytics } = useStore();
+  const { currentConversationId, conversations, isGenerating, currentModelId, settings, updateSettings, createConversation, addMessage, updateMessage, truncateMessagesAfter, setCurrentConversation, forkConversation, updateConversationSummary, togglePinMessage, toggleAnalytics, contextReport } = useStore();
   const [showSettings, setShowSettings] = useState(false);
   const [showModelDashboard, setShowModelDashboard] = useState(false);
   const [showHelpGuide, setShowHelpGuide] = useState(false);
@@ -48,6 +51,10 @@ export function ChatInterface({ onSendMessage }: Props) {
   const [showThemeNotification, setShowThemeNotification] = useState(false);
   const [themeNotificationText, setThemeNotificationText] = useState('');
   const [showMoreMenu, setShowMoreMenu] = useState(false);
+  const [tokenCountVersion, setTokenCountVersion] = useState(0);
+
+  // Recount context usage when exact counts from the model arrive
+  useEffect(() => tokenizerService.subscribe(() => setTokenCountVersion((version) => version + 1)), []);
 
   // Keyboard shortcuts
   useKeyboardShortcuts([
@@ -74,8 +81,11 @@ export function ChatInterface({ onSendMessage }: Props) {
     },
     {
       key: 'Escape',
-      description: 'Close settings or modals',
+      description: 'Close settings or modals, or stop generating',
       action: () => {
+        if (isGenerating && !showSettings && !showHelpGuide && !showModelDashboard) {
+          onStopGeneration?.();
+        }
         setShowSettings(false);
         setShowHelpGuide(false);
         setShowModelDashboard(false);
@@ -140,18 +150,22 @@ export function ChatInterface({ onSendMessage }: Props) {
 
   const currentModel = getModelConfig(currentModelId);
 
-  // Calculate token usage (rough estimate)
-  const estimateTokens = (text: string): number => {
-    // Simple estimation: ~1 token per 4 characters or 1 token per word (whichever is higher)
-    const words = text.split(/\s+/).filter(w => w.length > 0).length;
-    const chars = text.length;
-    return Math.round(Math.max(words, chars / 4));
-  };
-
-  const contextLimit = 32000; // GEMMA 3n context window
-  const tokensUsed = currentConversation
-    ? currentConversation.messages.reduce((total, msg) => total + estimateTokens(msg.content), 0)
-    : 0;
+  // Calculate token usage (exact once the model has counted each message); the
+  // message being generated is estimated until it's finished
+  const contextLimit = currentModel.contextWindow;
+  const tokensUsed = useMemo(() => {
+    const messages = currentConversation?.messages || [];
+    return messages.reduce((total, msg, index) => {
+      const streaming = isGenerating && index === messages.length - 1;
+      return total + (streaming ? estimateTokenCount(msg.content) : tokenizerService.countTokens(msg.content));
+    }, 0);
+  }, [currentConversation?.messages, isGenerating, tokenCountVersion]);
+
+  // Messages left out of the last prompt by the context window builder
+  const droppedMessages =
+    contextReport && contextReport.conversationId === currentConversationId
+      ? contextReport.droppedMessageIds.length
+      : 0;
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -275,10 +289,10 @@ export function ChatInterface({ onSendMessage }: Props) {
       const summaryPrompt = `Please provide a concise summary of the following conversation. Focus on key topics, decisions, and important information discussed:\n\n${conversationText}\n\nSummary:`;
 
       // Generate summary using inference engine
-      const { inferenceEngine } = await import('../services/InferenceEngine');
+      const { llmBackend } = await import('../services/BackendManager');
       let summary = '';
 
-      await inferenceEngine.generateStreaming(
+      await llmBackend.generateStreaming(
         summaryPrompt,
         {
           maxTokens: 256,
@@ -314,6 +328,19 @@ export function ChatInterface({ onSendMessage }: Props) {
     }
   };
 
+  // Handle conversation export
+  const handleExport = (exportConversation: () => void) => {
+    setShowExportMenu(false);
+    // Locked secrets aren't known, so only function results (redacted when they ran) are safe
+    if (
+      functionService.hasAnyLockedSecrets() &&
+      !confirm('🔒 The secret vault is locked, so API keys typed into messages can\'t be redacted. Unlock it in Settings → Functions first to redact them. Export anyway?')
+    ) {
+      return;
+    }
+    exportConversation();
+  };
+
   // Handle conversation import
   const handleImportClick = () => {
     fileInputRef.current?.click();
@@ -409,7 +436,7 @@ export function ChatInterface({ onSendMessage }: Props) {
           </Tooltip>
 
           {/* Context Indicator */}
-          <ContextIndicator tokensUsed={tokensUsed} contextLimit={contextLimit} />
+          <ContextIndicator tokensUsed={tokensUsed} contextLimit={contextLimit} droppedMessages={droppedMessages} />
 
           {/* Voice Input Toggle */}
           <Tooltip content={settings.voice.enableInput ? "Disable voice input" : "Enable voice input"} position="bottom">
@@ -594,8 +621,7 @@ export function ChatInterface({ onSendMessage }: Props) {
             <div className="absolute right-0 mt-2 w-48 bg-card border border-border rounded-lg shadow-lg z-50">
               <button
                 onClick={() => {
-                  exportService.exportAsJSON(currentConversation);
-                  setShowExportMenu(false);
+                  handleExport(() => exportService.exportAsJSON(currentConversation));
                 }}
                 className="w-full text-left px-4 py-2 text-sm hover:bg-muted transition-colors flex items-center gap-2 rounded-t-lg"
               >
@@ -604,8 +630,7 @@ export function ChatInterface({ onSendMessage }: Props) {
               </button>
               <button
                 onClick={() => {
-                  exportService.exportAsMarkdown(currentConversation);
-                  setShowExportMenu(false);
+                  handleExport(() => exportService.exportAsMarkdown(currentConversation));
                 }}
                 className="w-full text-left px-4 py-2 text-sm hover:bg-muted transition-colors flex items-center gap-2"
               >
@@ -614,8 +639,7 @@ export function ChatInterface({ onSendMessage }: Props) {
               </button>
               <button
                 onClick={() => {
-                  exportService.exportAsText(currentConversation);
-                  setShowExportMenu(false);
+                  handleExport(() => exportService.exportAsText(currentConversation));
                 }}
                 className="w-full text-left px-4 py-2 text-sm hover:bg-muted transition-colors flex items-center gap-2"
               >
@@ -624,8 +648,7 @@ export function ChatInterface({ onSendMessage }: Props) {
               </button>
               <button
                 onClick={() => {
-                  exportService.exportAsHTML(currentConversation);
-                  setShowExportMenu(false);
+                  handleExport(() => exportService.exportAsHTML(currentConversation));
                 }}
                 className="w-full text-left px-4 py-2 text-sm hover:bg-muted transition-colors flex items-center gap-2 rounded-b-lg"
               >
@@ -744,6 +767,7 @@ export function ChatInterface({ onSendMessage }: Props) {
           onSendMessage(input);
         }}
         disabled={isGenerating}
+        onStop={isGenerating ? onStopGeneration : undefined}
         supportMultimodal={currentModel.capabilities.length > 1}
         placeholder={
           isGenerating ? 'Please wait...' : 'Ask anything... (100% private)'
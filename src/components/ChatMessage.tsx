@@ -55,6 +55,18 @@ export function ChatMessage({ message, onFork, onTogglePin, onEdit, onRegenerate
     if (metadata.responseLatency) {
       perfItems.push({ key: '⏱️ First token', value: `${metadata.responseLatency.toFixed(0)}ms` });
     }
+    if (metadata.prefillTime !== undefined && metadata.decodeTime !== undefined) {
+      perfItems.push({
+        key: '🧮 Prefill / decode',
+        value: `${metadata.prefillTime.toFixed(0)}ms / ${(metadata.decodeTime / 1000).toFixed(2)}s`,
+      });
+    }
+    if (metadata.interTokenLatencyP50 !== undefined && metadata.interTokenLatencyP95 !== undefined) {
+      perfItems.push({
+        key: '📶 Per token',
+        value: `p50 ${metadata.interTokenLatencyP50.toFixed(0)}ms · p95 ${metadata.interTokenLatencyP95.toFixed(0)}ms`,
+      });
+    }
     if (metadata.totalGenerationTime) {
       perfItems.push({ key: '🕐 Total time', value: `${(metadata.totalGenerationTime / 1000).toFixed(2)}s` });
     }
@@ -69,12 +81,21 @@ export function ChatMessage({ message, onFork, onTogglePin, onEdit, onRegenerate
     if (metadata.modelName) {
       modelItems.push({ key: '🤖 Model', value: metadata.modelName });
     }
+    if (metadata.switchedFromModel) {
+      modelItems.push({ key: '🔀 Switched from', value: metadata.switchedFromModel });
+    }
     if (metadata.temperature !== undefined) {
       modelItems.push({ key: '🌡️ Temp', value: metadata.temperature.toFixed(2) });
     }
     if (metadata.topP !== undefined) {
       modelItems.push({ key: '🎯 Top-P', value: metadata.topP.toFixed(2) });
     }
+    if (metadata.topK !== undefined) {
+      modelItems.push({ key: '🔢 Top-K', value: `${metadata.topK}` });
+    }
+    if (metadata.seed !== undefined) {
+      modelItems.push({ key: '🎲 Seed', value: `${metadata.seed}` });
+    }
     if (modelItems.length > 0) {
       metadataSections.push({ label: 'Model', items: modelItems });
     }
@@ -83,11 +104,12 @@ export function ChatMessage({ message, onFork, onTogglePin, onEdit, onRegenerate
   // Token counts
   if (settings.metadata.showTokenCounts && !isUser) {
     const tokenItems: { key: string; value: string }[] = [];
+    const approx = metadata.tokenCountsEstimated ? '~' : '';
     if (metadata.inputTokens) {
-      tokenItems.push({ key: '📥 Input', value: `${metadata.inputTokens} tokens` });
+      tokenItems.push({ key: '📥 Input', value: `${approx}${metadata.inputTokens} tokens` });
     }
     if (metadata.totalTokens) {
-      tokenItems.push({ key: '📤 Output', value: `${metadata.totalTokens} tokens` });
+      tokenItems.push({ key: '📤 Output', value: `${approx}${metadata.totalTokens} tokens` });
     }
     if (tokenItems.length > 0) {
       metadataSections.push({ label: 'Tokens', items: tokenItems });
@@ -357,6 +379,9 @@ export function ChatMessage({ message, onFork, onTogglePin, onEdit, onRegenerate
                   >
                     {message.content}
                   </ReactMarkdown>
+                  {metadata.interrupted && (
+                    <p className="text-xs text-muted-foreground mt-1">(stopped)</p>
+                  )}
                 </div>
               )}
             </div>
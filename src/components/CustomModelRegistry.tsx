@@ -0,0 +1,343 @@
+/**
+ * Custom Model Registry Component
+ * Register .task / .litertlm models from a URL or a local file
+ * @author Dr. Ernesto Lee
+ */
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { useState } from 'react';
+import { formatBytes, type ModelCapability, type ModelConfig, type ModelFormat } from '../config/models';
+import {
+  createCustomModelConfig,
+  getCustomModels,
+  removeCustomModel,
+  saveCustomModel,
+  validateCustomModelInput,
+  type CustomModelInput,
+} from '../config/customModels';
+import { getChatTemplates, type ChatTemplateId } from '../utils/chatTemplates';
+import { modelLoader, type StoragePolicy } from '../services/ModelLoader';
+import { modelStore } from '../services/ModelStore';
+
+interface Props {
+  storagePolicy: StoragePolicy;
+  onModelsChange: (removedModelId?: string) => void;
+}
+
+const ATTACHMENT_CAPABILITIES: Array<{ id: ModelCapability; label: string }> = [
+  { id: 'vision', label: 'Vision (images, video frames)' },
+  { id: 'audio', label: 'Audio' },
+];
+
+/**
+ * Guess the format from a file name or URL
+ */
+function detectFormat(name: string): ModelFormat | null {
+  const path = name.split('?')[0].toLowerCase();
+  if (path.endsWith('.litertlm')) return 'litertlm';
+  if (path.endsWith('.task')) return 'task';
+  return null;
+}
+
+export function CustomModelRegistry({ storagePolicy, onModelsChange }: Props) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<'url' | 'file'>('url');
+  const [url, setUrl] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ModelFormat>('task');
+  const [capabilities, setCapabilities] = useState<ModelCapability[]>([]);
+  const [contextWindow, setContextWindow] = useState(8192);
+  const [chatTemplate, setChatTemplate] = useState<ChatTemplateId>('gemma');
+  const [sha256, setSha256] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
+
+  const customModels = getCustomModels();
+
+  const resetForm = () => {
+    setName('');
+    setUrl('');
+    setFile(null);
+    setFormat('task');
+    setCapabilities([]);
+    setContextWindow(8192);
+    setChatTemplate('gemma');
+    setSha256('');
+    setError(null);
+    setImportProgress(null);
+    setIsAdding(false);
+  };
+
+  const toggleCapability = (capability: ModelCapability) => {
+    setCapabilities((current) =>
+      current.includes(capability) ? current.filter((c) => c !== capability) : [...current, capability]
+    );
+  };
+
+  const handleUrlChange = (value: string) => {
+    setUrl(value);
+    const detected = detectFormat(value);
+    if (detected) setFormat(detected);
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    if (!selected) return;
+    const detected = detectFormat(selected.name);
+    if (detected) setFormat(detected);
+    if (!name) setName(selected.name.replace(/\.(task|litertlm)$/i, ''));
+  };
+
+  const handleSave = async () => {
+    const input: CustomModelInput = {
+      name,
+      source,
+      url: source === 'url' ? url.trim() : undefined,
+      fileName: source === 'file' ? file?.name : undefined,
+      size: source === 'file' ? file?.size || 0 : 0,
+      sha256: sha256 || undefined,
+      format,
+      capabilities,
+      contextWindow,
+      chatTemplate,
+    };
+
+    const validationError = validateCustomModelInput(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    let config: ModelConfig | null = null;
+
+    try {
+      if (source === 'url') {
+        input.size = (await modelLoader.probeSize(input.url!)) ?? 0;
+        config = createCustomModelConfig(input);
+      } else {
+        config = createCustomModelConfig(input);
+        await modelLoader.importFile(config, file!, (progress) => setImportProgress(progress.percentage), storagePolicy);
+      }
+
+      saveCustomModel(config);
+      console.log(`🧩 Custom model registered: ${config.name}`);
+      resetForm();
+      onModelsChange();
+    } catch (err) {
+      console.error('Failed to add custom model:', err);
+      if (config) {
+        await modelStore.deleteModel(config.id).catch(() => undefined);
+      }
+      setError(err instanceof Error ? err.message : 'Failed to add model');
+      setImportProgress(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (model: ModelConfig) => {
+    if (!confirm(`Remove ${model.name}? Its stored copy will be deleted too.`)) return;
+
+    removeCustomModel(model.id);
+    await modelStore.deleteModel(model.id).catch((err) => console.warn('Failed to delete stored model:', err));
+    onModelsChange(model.id);
+  };
+
+  return (
+    <div className="space-y-3">
+      {customModels.map((model) => (
+        <div
+          key={model.id}
+          className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-xl"
+        >
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              {model.icon} {model.name}
+            </p>
+            <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+              {model.custom?.source === 'file' ? model.custom.fileName : model.url}
+              {' · '}.{model.format}
+              {model.size > 0 && ` · ${formatBytes(model.size)}`}
+              {' · '}
+              {model.contextWindow.toLocaleString()} tokens
+            </p>
+          </div>
+          <button
+            onClick={() => handleRemove(model)}
+            className="ml-3 px-3 py-1.5 text-xs rounded-lg border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {!isAdding && (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="w-full p-3 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-400 hover:border-blue-500 hover:text-blue-600 transition-colors"
+        >
+          + Add Custom Model
+        </button>
+      )}
+
+      <AnimatePresence>
+        {isAdding && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="p-4 bg-gray-50 dark:bg-gray-800 rounded-xl space-y-4 overflow-hidden"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="My fine-tuned Gemma"
+                className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">Source</label>
+              <div className="flex gap-2 mb-2">
+                {(['url', 'file'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setSource(option)}
+                    className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                      source === option
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {option === 'url' ? 'URL' : 'Local file'}
+                  </button>
+                ))}
+              </div>
+              {source === 'url' ? (
+                <input
+                  type="url"
+                  value={url}
+                  onChange={(e) => handleUrlChange(e.target.value)}
+                  placeholder="https://example.com/gemma-finetune.task"
+                  className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                />
+              ) : (
+                <input
+                  type="file"
+                  accept=".task,.litertlm"
+                  onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                  className="w-full text-sm text-gray-700 dark:text-gray-300"
+                />
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {source === 'url'
+                  ? 'The server must allow cross-origin Range requests.'
+                  : 'The file is copied into browser storage so it can be loaded again later.'}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">Format</label>
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as ModelFormat)}
+                  className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                >
+                  <option value="task">.task</option>
+                  <option value="litertlm">.litertlm</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">Chat Template</label>
+                <select
+                  value={chatTemplate}
+                  onChange={(e) => setChatTemplate(e.target.value as ChatTemplateId)}
+                  className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                >
+                  {getChatTemplates().map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">Context Window</label>
+                <input
+                  type="number"
+                  min={256}
+                  step={256}
+                  value={contextWindow}
+                  onChange={(e) => setContextWindow(Number(e.target.value))}
+                  className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">
+                  SHA-256 <span className="font-normal text-gray-500">(optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={sha256}
+                  onChange={(e) => setSha256(e.target.value)}
+                  placeholder="64 hex characters"
+                  className="w-full px-3 py-2 text-sm font-mono bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 dark:text-white mb-1">Capabilities</label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Text generation is always enabled.</p>
+              <div className="flex flex-wrap gap-4">
+                {ATTACHMENT_CAPABILITIES.map((capability) => (
+                  <label key={capability.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={capabilities.includes(capability.id)}
+                      onChange={() => toggleCapability(capability.id)}
+                    />
+                    {capability.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {importProgress !== null && (
+              <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 rounded-full" style={{ width: `${importProgress}%` }} />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={resetForm}
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? (source === 'file' ? 'Importing…' : 'Adding…') : 'Add Model'}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -7,7 +7,25 @@
 
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { FunctionDefinition, FunctionParameter, FunctionParameterType } from '../types';
+import { functionService } from '../services/FunctionService';
+import { secretVault } from '../services/SecretVault';
+import { DEFAULT_SCRIPT_LIMITS, scriptSandbox } from '../services/ScriptSandbox';
+import { validateResponseMapping } from '../utils/jsonPath';
+import { jsonSchemaToParameters, parametersToJsonSchema } from '../utils/jsonSchema';
+import { ScriptEditor, SCRIPT_TEMPLATE } from './ScriptEditor';
+import { SchemaBuilder } from './SchemaBuilder';
+import type {
+  FunctionAuth,
+  FunctionDefinition,
+  FunctionParameter,
+  FunctionParameterLocation,
+  FunctionParameterType,
+  HttpMethod,
+  JsonSchema,
+  ScriptLimits,
+} from '../types';
+
+type AuthOption = 'bearer' | 'apiKeyHeader' | 'apiKeyQuery' | 'basic';
 
 interface FunctionEditorProps {
   functionToEdit?: FunctionDefinition;
@@ -16,16 +34,29 @@ interface FunctionEditorProps {
 }
 
 export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEditorProps) {
+  const [kind, setKind] = useState<'http' | 'script'>(functionToEdit?.script !== undefined ? 'script' : 'http');
   const [name, setName] = useState(functionToEdit?.name || '');
   const [description, setDescription] = useState(functionToEdit?.description || '');
   const [endpoint, setEndpoint] = useState(functionToEdit?.endpoint || '');
-  const [method, setMethod] = useState<'GET' | 'POST'>(functionToEdit?.method || 'GET');
+  const [method, setMethod] = useState<HttpMethod>(functionToEdit?.method || 'GET');
   const [apiKey, setApiKey] = useState(functionToEdit?.apiKey || '');
+  const [authOption, setAuthOption] = useState<AuthOption>(toAuthOption(functionToEdit?.auth));
+  const [apiKeyName, setApiKeyName] = useState(
+    functionToEdit?.auth?.type === 'apiKey' ? functionToEdit.auth.name : 'X-API-Key'
+  );
+  const [username, setUsername] = useState(functionToEdit?.auth?.type === 'basic' ? functionToEdit.auth.username : '');
+  const [responseMapping, setResponseMapping] = useState(functionToEdit?.responseMapping || '');
+  const [script, setScript] = useState(functionToEdit?.script ?? SCRIPT_TEMPLATE);
+  const [scriptLimits, setScriptLimits] = useState<ScriptLimits>(functionToEdit?.scriptLimits || DEFAULT_SCRIPT_LIMITS);
   const [headers, setHeaders] = useState<Record<string, string>>(functionToEdit?.headers || {});
   const [parameters, setParameters] = useState<FunctionParameter[]>(
     functionToEdit?.parameters || []
   );
   const [enabled, setEnabled] = useState(functionToEdit?.enabled ?? true);
+  const [schemaText, setSchemaText] = useState<string | null>(null); // Editing all parameters as JSON Schema
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+
+  const secretsLocked = !!functionToEdit && functionService.hasLockedSecrets(functionToEdit.id);
 
   // Header editing state
   const [headerKey, setHeaderKey] = useState('');
@@ -49,10 +80,35 @@ export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEdi
 
   const handleUpdateParameter = (index: number, field: keyof FunctionParameter, value: any) => {
     const updated = [...parameters];
-    updated[index] = { ...updated[index], [field]: value };
+    // An empty location means automatic
+    updated[index] = { ...updated[index], [field]: field === 'location' && value === '' ? undefined : value };
+    setParameters(updated);
+  };
+
+  // Constraints for one type don't carry over to another
+  const handleChangeParameterType = (index: number, type: FunctionParameterType) => {
+    const updated = [...parameters];
+    updated[index] = { ...updated[index], type, schema: undefined };
     setParameters(updated);
   };
 
+  const handleUpdateParameterSchema = (index: number, schema: JsonSchema) => {
+    // The type and description are edited in the parameter row
+    const { type, description: _description, ...rest } = schema;
+    const keywords = Array.isArray(type) ? { type, ...rest } : rest;
+    handleUpdateParameter(index, 'schema', Object.keys(keywords).length > 0 ? keywords : undefined);
+  };
+
+  const handleApplySchemaText = () => {
+    try {
+      setParameters(jsonSchemaToParameters(JSON.parse(schemaText || '{}'), parameters));
+      setSchemaText(null);
+      setSchemaError(null);
+    } catch (error) {
+      setSchemaError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   const handleAddHeader = () => {
     if (headerKey && headerValue) {
       setHeaders({ ...headers, [headerKey]: headerValue });
@@ -77,8 +133,8 @@ export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEdi
       alert('Function description is required');
       return;
     }
-    if (!endpoint.trim()) {
-      alert('API endpoint is required');
+    if (schemaText !== null) {
+      alert('Apply or cancel your JSON Schema changes first');
       return;
     }
 
@@ -88,17 +144,55 @@ export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEdi
       return;
     }
 
-    const func: FunctionDefinition = {
+    const base = {
       id: functionToEdit?.id || `custom_${Date.now()}`,
       name: name.trim(),
       description: description.trim(),
       parameters,
       enabled,
       builtIn: false,
+    };
+
+    if (kind === 'script') {
+      if (!script.trim()) {
+        alert('Function body is required');
+        return;
+      }
+      const syntaxError = scriptSandbox.checkSyntax(script);
+      if (syntaxError) {
+        alert(`Function body has a syntax error: ${syntaxError}`);
+        return;
+      }
+
+      onSave({ ...base, script, scriptLimits });
+      return;
+    }
+
+    if (!endpoint.trim()) {
+      alert('API endpoint is required');
+      return;
+    }
+
+    const mappingError = validateResponseMapping(responseMapping);
+    if (mappingError) {
+      alert(`Response mapping: ${mappingError}`);
+      return;
+    }
+
+    if (authOption.startsWith('apiKey') && !apiKeyName.trim()) {
+      alert('Enter the header or query parameter name for the API key');
+      return;
+    }
+
+    const func: FunctionDefinition = {
+      ...base,
       endpoint: endpoint.trim(),
       apiKey: apiKey.trim() || undefined,
+      auth: toAuth(authOption, apiKeyName.trim(), username.trim()),
       method,
       headers: Object.keys(headers).length > 0 ? headers : undefined,
+      responseMapping: responseMapping.trim() || undefined,
+      openApi: functionToEdit?.openApi,
     };
 
     onSave(func);
@@ -125,7 +219,7 @@ export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEdi
             {functionToEdit ? 'Edit Function' : 'Create Custom Function'}
           </h2>
           <p className="text-sm text-gray-600 mt-1">
-            Define a custom function that calls an external API
+            Define a custom function that calls an external API or runs JavaScript
           </p>
         </div>
 
@@ -161,6 +255,29 @@ export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEdi
                 />
               </div>
 
+              {!functionToEdit?.openApi && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Runs
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['http', 'script'] as const).map((option) => (
+                      <button
+                        key={option}
+                        onClick={() => setKind(option)}
+                        className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                          kind === option
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {option === 'http' ? 'HTTP Endpoint' : 'JavaScript (sandboxed)'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -176,200 +293,380 @@ export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEdi
             </div>
           </section>
 
-          {/* API Configuration */}
-          <section>
-            <h3 className="text-lg font-medium text-gray-900 mb-3">API Configuration</h3>
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Endpoint URL
-                </label>
-                <input
-                  type="url"
-                  value={endpoint}
-                  onChange={(e) => setEndpoint(e.target.value)}
-                  placeholder="https://api.example.com/endpoint"
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                />
-              </div>
+          {/* JavaScript */}
+          {kind === 'script' && (
+            <section>
+              <h3 className="text-lg font-medium text-gray-900 mb-3">JavaScript</h3>
+              <ScriptEditor
+                script={script}
+                limits={scriptLimits}
+                parameters={parameters}
+                onScriptChange={setScript}
+                onLimitsChange={setScriptLimits}
+              />
+            </section>
+          )}
 
-              <div className="grid grid-cols-2 gap-4">
+          {/* API Configuration */}
+          {kind === 'http' && (
+            <section>
+              <h3 className="text-lg font-medium text-gray-900 mb-3">API Configuration</h3>
+              <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    HTTP Method
+                    Endpoint URL
                   </label>
-                  <select
-                    value={method}
-                    onChange={(e) => setMethod(e.target.value as 'GET' | 'POST')}
+                  <input
+                    type="url"
+                    value={endpoint}
+                    onChange={(e) => setEndpoint(e.target.value)}
+                    placeholder="https://api.github.com/repos/{owner}/{repo}"
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                  >
-                    <option value="GET">GET</option>
-                    <option value="POST">POST</option>
-                  </select>
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {'{name}'} is replaced by the parameter of that name. Other parameters go in the query
+                    string for GET and DELETE, and in the JSON body otherwise.
+                  </p>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      HTTP Method
+                    </label>
+                    <select
+                      value={method}
+                      onChange={(e) => setMethod(e.target.value as HttpMethod)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    >
+                      <option value="GET">GET</option>
+                      <option value="POST">POST</option>
+                      <option value="PUT">PUT</option>
+                      <option value="PATCH">PATCH</option>
+                      <option value="DELETE">DELETE</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Authentication
+                    </label>
+                    <select
+                      value={authOption}
+                      onChange={(e) => setAuthOption(e.target.value as AuthOption)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    >
+                      <option value="bearer">Bearer token</option>
+                      <option value="apiKeyHeader">API key in a header</option>
+                      <option value="apiKeyQuery">API key in the query string</option>
+                      <option value="basic">Basic auth</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  {authOption.startsWith('apiKey') && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {authOption === 'apiKeyHeader' ? 'Header Name' : 'Query Parameter Name'}
+                      </label>
+                      <input
+                        type="text"
+                        value={apiKeyName}
+                        onChange={(e) => setApiKeyName(e.target.value)}
+                        placeholder={authOption === 'apiKeyHeader' ? 'X-API-Key' : 'api_key'}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      />
+                    </div>
+                  )}
+
+                  {authOption === 'basic' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Username
+                      </label>
+                      <input
+                        type="text"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        placeholder="Username"
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      />
+                    </div>
+                  )}
+
+                  <div className={authOption === 'bearer' ? 'col-span-2' : undefined}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {authOption === 'basic' ? 'Password' : 'API Key'} (optional)
+                    </label>
+                    <input
+                      type="password"
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                      placeholder={authOption === 'basic' ? 'Your password' : 'Your API key'}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
+                  </div>
+                </div>
+
+                {secretsLocked ? (
+                  <p className="text-sm text-amber-600">
+                    🔒 This function's API key and credential headers are in the locked secret vault. Unlock it in the
+                    Functions settings to see or change them; saving now keeps them as they are.
+                  </p>
+                ) : (
+                  !secretVault.isUnlocked() && (
+                    <p className="text-sm text-amber-600">
+                      🔒 The secret vault is locked, so an API key or credential headers entered here are kept for this
+                      session only. Unlock it in the Functions settings to save them encrypted.
+                    </p>
+                  )
+                )}
+
+                {/* Response Mapping */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    API Key (optional)
+                    Response Mapping (optional)
                   </label>
-                  <input
-                    type="password"
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    placeholder="Your API key"
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  <textarea
+                    value={responseMapping}
+                    onChange={(e) => setResponseMapping(e.target.value)}
+                    placeholder={'$.items[*].name\nstars: $.stargazers_count'}
+                    rows={3}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none font-mono text-sm"
                   />
+                  <p className="text-xs text-gray-500 mt-1">
+                    JSONPath per line, optionally named, to pass only these fields of the response to the AI.
+                    Leave empty to pass the whole response.
+                  </p>
                 </div>
-              </div>
 
-              {/* Custom Headers */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Custom Headers
-                </label>
-                <div className="space-y-2">
-                  {Object.entries(headers).map(([key, value]) => (
-                    <div key={key} className="flex items-center gap-2">
-                      <div className="flex-1 px-3 py-2 bg-gray-50 rounded-lg text-sm">
-                        <span className="font-medium">{key}:</span> {value}
+                {/* Custom Headers */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Custom Headers
+                  </label>
+                  <div className="space-y-2">
+                    {Object.entries(headers).map(([key, value]) => (
+                      <div key={key} className="flex items-center gap-2">
+                        <div className="flex-1 px-3 py-2 bg-gray-50 rounded-lg text-sm">
+                          <span className="font-medium">{key}:</span> {value}
+                        </div>
+                        <button
+                          onClick={() => handleRemoveHeader(key)}
+                          className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          Remove
+                        </button>
                       </div>
+                    ))}
+
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={headerKey}
+                        onChange={(e) => setHeaderKey(e.target.value)}
+                        placeholder="Header name"
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={headerValue}
+                        onChange={(e) => setHeaderValue(e.target.value)}
+                        placeholder="Header value"
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                      />
                       <button
-                        onClick={() => handleRemoveHeader(key)}
-                        className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        onClick={handleAddHeader}
+                        disabled={!headerKey || !headerValue}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-sm"
                       >
-                        Remove
+                        Add
                       </button>
                     </div>
-                  ))}
-
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      value={headerKey}
-                      onChange={(e) => setHeaderKey(e.target.value)}
-                      placeholder="Header name"
-                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
-                    />
-                    <input
-                      type="text"
-                      value={headerValue}
-                      onChange={(e) => setHeaderValue(e.target.value)}
-                      placeholder="Header value"
-                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
-                    />
-                    <button
-                      onClick={handleAddHeader}
-                      disabled={!headerKey || !headerValue}
-                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-sm"
-                    >
-                      Add
-                    </button>
                   </div>
                 </div>
               </div>
-            </div>
-          </section>
+            </section>
+          )}
 
           {/* Parameters */}
           <section>
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-lg font-medium text-gray-900">Parameters</h3>
-              <button
-                onClick={handleAddParameter}
-                className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Add Parameter
-              </button>
+              {schemaText === null && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setSchemaText(JSON.stringify(parametersToJsonSchema(parameters), null, 2))}
+                    className="px-3 py-1.5 text-gray-700 bg-white border border-gray-300 text-sm rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Edit as JSON Schema
+                  </button>
+                  <button
+                    onClick={handleAddParameter}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Add Parameter
+                  </button>
+                </div>
+              )}
             </div>
 
-            <div className="space-y-3">
-              <AnimatePresence>
-                {parameters.map((param, index) => (
-                  <motion.div
-                    key={index}
-                    initial={{ opacity: 0, height: 0 }}
-                    animate={{ opacity: 1, height: 'auto' }}
-                    exit={{ opacity: 0, height: 0 }}
-                    className="border border-gray-200 rounded-lg p-4 space-y-3"
+            {schemaText !== null && (
+              <div className="space-y-2">
+                <textarea
+                  value={schemaText}
+                  onChange={(e) => setSchemaText(e.target.value)}
+                  rows={14}
+                  spellCheck={false}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-y font-mono text-xs"
+                />
+                {schemaError && <p className="text-sm text-red-600">{schemaError}</p>}
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={() => {
+                      setSchemaText(null);
+                      setSchemaError(null);
+                    }}
+                    className="px-3 py-1.5 text-gray-700 bg-white border border-gray-300 text-sm rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleApplySchemaText}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
                   >
-                    <div className="grid grid-cols-2 gap-3">
+                    Apply
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {schemaText === null && (
+              <div className="space-y-3">
+                <AnimatePresence>
+                  {parameters.map((param, index) => (
+                    <motion.div
+                      key={index}
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="border border-gray-200 rounded-lg p-4 space-y-3"
+                    >
+                      <div className={`grid gap-3 ${kind === 'http' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">
+                            Parameter Name
+                          </label>
+                          <input
+                            type="text"
+                            value={param.name}
+                            onChange={(e) => handleUpdateParameter(index, 'name', e.target.value)}
+                            placeholder="paramName"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">
+                            Type
+                          </label>
+                          <select
+                            value={param.type}
+                            onChange={(e) => handleChangeParameterType(index, e.target.value as FunctionParameterType)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                          >
+                            <option value="string">String</option>
+                            <option value="number">Number</option>
+                            <option value="integer">Integer</option>
+                            <option value="boolean">Boolean</option>
+                            <option value="array">Array</option>
+                            <option value="object">Object</option>
+                          </select>
+                        </div>
+
+                        {kind === 'http' && (
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">
+                              Sent In
+                            </label>
+                            <select
+                              value={param.location || ''}
+                              onChange={(e) =>
+                                handleUpdateParameter(index, 'location', e.target.value as FunctionParameterLocation)
+                              }
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                            >
+                              <option value="">Automatic</option>
+                              <option value="body">Body</option>
+                              <option value="query">Query string</option>
+                              <option value="path">Path ({'{name}'} in URL)</option>
+                              <option value="header">Header</option>
+                            </select>
+                          </div>
+                        )}
+                      </div>
+
                       <div>
                         <label className="block text-xs font-medium text-gray-700 mb-1">
-                          Parameter Name
+                          Description
                         </label>
                         <input
                           type="text"
-                          value={param.name}
-                          onChange={(e) => handleUpdateParameter(index, 'name', e.target.value)}
-                          placeholder="paramName"
+                          value={param.description}
+                          onChange={(e) => handleUpdateParameter(index, 'description', e.target.value)}
+                          placeholder="What this parameter is for"
                           className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
                         />
                       </div>
 
-                      <div>
-                        <label className="block text-xs font-medium text-gray-700 mb-1">
-                          Type
-                        </label>
-                        <select
-                          value={param.type}
-                          onChange={(e) =>
-                            handleUpdateParameter(index, 'type', e.target.value as FunctionParameterType)
-                          }
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
-                        >
-                          <option value="string">String</option>
-                          <option value="number">Number</option>
-                          <option value="boolean">Boolean</option>
-                          <option value="array">Array</option>
-                          <option value="object">Object</option>
-                        </select>
-                      </div>
-                    </div>
+                      {param.type !== 'boolean' && (
+                        <details open={!!param.schema}>
+                          <summary className="text-xs font-medium text-gray-700 cursor-pointer select-none">
+                            Constraints{param.schema ? ` (${Object.keys(param.schema).join(', ')})` : ''}
+                          </summary>
+                          <div className="mt-3">
+                            <SchemaBuilder
+                              schema={{ type: param.type, ...param.schema }}
+                              onChange={(schema) => handleUpdateParameterSchema(index, schema)}
+                              showType={false}
+                            />
+                          </div>
+                        </details>
+                      )}
 
-                    <div>
-                      <label className="block text-xs font-medium text-gray-700 mb-1">
-                        Description
-                      </label>
-                      <input
-                        type="text"
-                        value={param.description}
-                        onChange={(e) => handleUpdateParameter(index, 'description', e.target.value)}
-                        placeholder="What this parameter is for"
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
-                      />
-                    </div>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            id={`required-${index}`}
+                            checked={param.required}
+                            onChange={(e) => handleUpdateParameter(index, 'required', e.target.checked)}
+                            className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                          />
+                          <label htmlFor={`required-${index}`} className="text-xs font-medium text-gray-700">
+                            Required
+                          </label>
+                        </div>
 
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <input
-                          type="checkbox"
-                          id={`required-${index}`}
-                          checked={param.required}
-                          onChange={(e) => handleUpdateParameter(index, 'required', e.target.checked)}
-                          className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
-                        />
-                        <label htmlFor={`required-${index}`} className="text-xs font-medium text-gray-700">
-                          Required
-                        </label>
+                        <button
+                          onClick={() => handleRemoveParameter(index)}
+                          className="px-3 py-1.5 text-red-600 text-sm hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          Remove
+                        </button>
                       </div>
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
 
-                      <button
-                        onClick={() => handleRemoveParameter(index)}
-                        className="px-3 py-1.5 text-red-600 text-sm hover:bg-red-50 rounded-lg transition-colors"
-                      >
-                        Remove
-                      </button>
-                    </div>
-                  </motion.div>
-                ))}
-              </AnimatePresence>
-
-              {parameters.length === 0 && (
-                <div className="text-center py-8 text-gray-500 text-sm">
-                  No parameters defined. Click "Add Parameter" to get started.
-                </div>
-              )}
-            </div>
+                {parameters.length === 0 && (
+                  <div className="text-center py-8 text-gray-500 text-sm">
+                    No parameters defined. Click "Add Parameter" to get started.
+                  </div>
+                )}
+              </div>
+            )}
           </section>
         </div>
 
@@ -392,3 +689,27 @@ export function FunctionEditor({ functionToEdit, onSave, onCancel }: FunctionEdi
     </motion.div>
   );
 }
+
+function toAuthOption(auth?: FunctionAuth): AuthOption {
+  switch (auth?.type) {
+    case 'apiKey':
+      return auth.in === 'query' ? 'apiKeyQuery' : 'apiKeyHeader';
+    case 'basic':
+      return 'basic';
+    default:
+      return 'bearer';
+  }
+}
+
+function toAuth(option: AuthOption, apiKeyName: string, username: string): FunctionAuth {
+  switch (option) {
+    case 'apiKeyHeader':
+      return { type: 'apiKey', in: 'header', name: apiKeyName };
+    case 'apiKeyQuery':
+      return { type: 'apiKey', in: 'query', name: apiKeyName };
+    case 'basic':
+      return { type: 'basic', username };
+    default:
+      return { type: 'bearer' };
+  }
+}
@@ -4,39 +4,42 @@
  */
 
 import { motion } from 'framer-motion';
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useStore } from '../store/useStore';
 import { TextShimmer } from './TextShimmer';
 import { getAvailableModels } from '../config/models';
 import type { ModelId } from '../config/models';
 import { easterEggService } from '../services/EasterEggService';
+import { llmBackend } from '../services/BackendManager';
+import { modelRecommendationService, type ModelRecommendation } from '../services/ModelRecommendationService';
 
 export function LandingPage({ onStartChat }: { onStartChat: () => void }) {
-  const { settings, currentModelId, setCurrentModel } = useStore();
-  const availableModels = getAvailableModels();
+  const { settings, currentModelId, setCurrentModel, systemInfo } = useStore();
+  const availableModels = getAvailableModels(settings.backend);
+  const currentModel = availableModels.find((m) => m.id === currentModelId);
+  const [recommendation, setRecommendation] = useState<ModelRecommendation | null>(null);
+  const hasPickedModel = useRef(false);
   const greeting = easterEggService.getTimeBasedGreeting();
 
-  // Detect mobile and auto-select CAESAR (smaller, works on all devices)
+  // Recommend the best model for this device and select it until the user picks one
   useEffect(() => {
-    const userAgent = navigator.userAgent;
-    const screenWidth = window.innerWidth;
-    const isMobile = /iPhone|iPad|iPod|Android/i.test(userAgent) || screenWidth < 768;
+    let cancelled = false;
 
-    console.log('🔍 Device Detection:');
-    console.log('   User Agent:', userAgent);
-    console.log('   Screen Width:', screenWidth);
-    console.log('   Is Mobile:', isMobile);
-    console.log('   Current Model:', currentModelId);
+    modelRecommendationService.recommend(settings.backend, systemInfo).then((result) => {
+      if (cancelled) return;
+      setRecommendation(result);
 
-    // Only auto-switch on first load
-    if (isMobile && currentModelId !== 'gemma270m') {
-      console.log('📱 Mobile device detected - auto-selecting CAESAR 270M');
-      setCurrentModel('gemma270m');
-    } else if (!isMobile) {
-      console.log('💻 Desktop device detected - MADDY E2B selected by default');
-    }
+      // Keep the user's choice once they picked or loaded a model
+      if (!hasPickedModel.current && !llmBackend.isLoaded()) {
+        setCurrentModel(result.model.id);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Run once on mount
+  }, [settings.backend]);
 
   return (
     <div className="min-h-screen w-full flex flex-col bg-white">
@@ -110,7 +113,10 @@ export function LandingPage({ onStartChat }: { onStartChat: () => void }) {
           {availableModels.map((model) => (
             <button
               key={model.id}
-              onClick={() => setCurrentModel(model.id as ModelId)}
+              onClick={() => {
+                hasPickedModel.current = true;
+                setCurrentModel(model.id as ModelId);
+              }}
               className={`
                 px-4 py-2 rounded-full text-sm font-medium transition-all duration-200
                 ${currentModelId === model.id
@@ -124,8 +130,17 @@ export function LandingPage({ onStartChat }: { onStartChat: () => void }) {
           ))}
         </div>
         <p className="text-xs text-gray-400">
-          {availableModels.find(m => m.id === currentModelId)?.description}
+          {currentModel?.description}
         </p>
+        {recommendation && currentModel && (
+          <p className="text-xs text-gray-500" title={recommendation.reason}>
+            {currentModel.recommended.minMemory > recommendation.profile.memoryBudget
+              ? `⚠️ ${currentModel.name} may need more memory than this device has`
+              : currentModel.id === recommendation.model.id
+                ? '✓ Recommended for this device'
+                : `Recommended for this device: ${recommendation.model.name}`}
+          </p>
+        )}
       </motion.div>
 
       {/* Start Button */}
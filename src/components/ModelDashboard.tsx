@@ -220,7 +220,7 @@ export function ModelDashboard({ onClose }: Props) {
                     </div>
 
                     <div className="bg-white dark:bg-gray-900 rounded-lg p-3">
-                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Avg Latency</p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Avg First Token</p>
                       <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">
                         {modelInfo.averageLatency}
                       </p>
@@ -244,6 +244,37 @@ export function ModelDashboard({ onClose }: Props) {
                     </div>
                   </div>
 
+                  {/* Latency Breakdown */}
+                  <div className="bg-white dark:bg-gray-900 rounded-lg p-3">
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">Latency Breakdown (ms, averaged)</p>
+                    <div className="grid grid-cols-4 gap-3">
+                      <div>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">Prefill</p>
+                        <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                          {modelInfo.averagePrefillTime}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">Decode</p>
+                        <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                          {modelInfo.averageDecodeTime}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">Per Token P50</p>
+                        <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                          {modelInfo.averageInterTokenP50}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">Per Token P95</p>
+                        <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                          {modelInfo.averageInterTokenP95}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
                   {/* Performance Breakdown */}
                   {perfBreakdown && (
                     <div className="bg-white dark:bg-gray-900 rounded-lg p-3">
@@ -12,10 +12,16 @@ import { formatBytes } from '../config/models';
 interface Props {
   progress: ProgressType | null;
   modelName: string;
+  backendName?: string; // Engine loading the model
+  notice?: string | null; // Why this model is loading (e.g. automatic fallback)
   status?: 'downloading' | 'loading';
+  onPause?: () => void;
+  onResume?: () => void;
+  onRetry?: () => void;
+  onCancel?: () => void;
 }
 
-export function ModelLoadProgress({ progress, modelName, status }: Props) {
+export function ModelLoadProgress({ progress, modelName, backendName = 'MediaPipe', notice, status, onPause, onResume, onRetry, onCancel }: Props) {
   const formatTime = (seconds: number): string => {
     if (seconds < 60) return `${Math.round(seconds)}s`;
     const minutes = Math.floor(seconds / 60);
@@ -28,6 +34,8 @@ export function ModelLoadProgress({ progress, modelName, status }: Props) {
   const isDownloading = progress && progress.percentage > 0 && progress.percentage < 100;
   const isDownloadComplete = progress && progress.percentage >= 100;
   const isMediaPipeLoading = status === 'loading';
+  const downloadState = !isMediaPipeLoading ? progress?.state : undefined;
+  const isStalled = downloadState === 'paused' || downloadState === 'offline' || downloadState === 'retrying' || downloadState === 'failed';
 
   return (
     <motion.div
@@ -55,6 +63,16 @@ export function ModelLoadProgress({ progress, modelName, status }: Props) {
           <h3 className="text-xl font-semibold text-foreground mb-2">
             {isDownloadComplete && isMediaPipeLoading ? (
               'Almost There!'
+            ) : downloadState === 'paused' ? (
+              'Paused'
+            ) : downloadState === 'offline' ? (
+              'Reconnecting'
+            ) : downloadState === 'retrying' ? (
+              'Retrying'
+            ) : downloadState === 'failed' ? (
+              "Couldn't Download"
+            ) : downloadState === 'verifying' ? (
+              'Verifying'
             ) : isMediaPipeLoading ? (
               'Initializing'
             ) : isDownloading ? (
@@ -70,17 +88,29 @@ export function ModelLoadProgress({ progress, modelName, status }: Props) {
             ) : isDownloadComplete && isMediaPipeLoading ? (
               'Model downloaded successfully! Now initializing AI engine...'
             ) : isMediaPipeLoading ? (
-              'MediaPipe is initializing the model...'
+              `${backendName} is initializing the model...`
+            ) : downloadState === 'verifying' ? (
+              'Checking the download against its SHA-256 digest...'
+            ) : progress.statusText ? (
+              progress.statusText
             ) : (
               <>
                 {formatBytes(progress.loaded)} / {formatBytes(progress.total)}
-                {' · '}
-                {formatBytes(progress.speed)}/s
+                {!isStalled && (
+                  <>
+                    {' · '}
+                    {formatBytes(progress.speed)}/s
+                  </>
+                )}
               </>
             )}
           </p>
         </div>
 
+        {notice && (
+          <p className="text-sm text-amber-600 text-center mb-4">{notice}</p>
+        )}
+
         {/* Progress Bar */}
         <div className="relative h-3 bg-muted rounded-full overflow-hidden mb-4">
           {/* Regular progress bar */}
@@ -108,10 +138,73 @@ export function ModelLoadProgress({ progress, modelName, status }: Props) {
             {isPreparingDownload ? '--' : `${progress.percentage.toFixed(1)}%`}
           </span>
           <span className="text-sm text-muted-foreground">
-            {isPreparingDownload ? 'Preparing...' : `ETA: ${formatTime(progress.eta)}`}
+            {isPreparingDownload ? 'Preparing...' : isStalled ? '--' : `ETA: ${formatTime(progress.eta)}`}
           </span>
         </div>
 
+        {/* Download state */}
+        {progress && !isMediaPipeLoading && (
+          <div className="mb-6 space-y-3">
+            {downloadState === 'offline' && (
+              <p className="text-sm text-amber-600 text-center">
+                You're offline. The download will continue when the connection is back.
+              </p>
+            )}
+            {downloadState === 'retrying' && (
+              <p className="text-sm text-amber-600 text-center">
+                {progress.error} · attempt {progress.retryAttempt}, retrying in {progress.retryIn}s
+              </p>
+            )}
+            {downloadState === 'failed' && (
+              <p className="text-sm text-red-600 text-center">
+                {progress.error}. Downloaded chunks are kept, so retrying picks up where it stopped.
+              </p>
+            )}
+            {!!progress.resumedBytes && downloadState !== 'verifying' && (
+              <p className="text-xs text-muted-foreground text-center">
+                Resumed from {formatBytes(progress.resumedBytes)} downloaded earlier
+              </p>
+            )}
+
+            {downloadState !== 'verifying' && (
+              <div className="flex justify-center gap-2">
+                {downloadState === 'paused' && onResume && (
+                  <button
+                    onClick={onResume}
+                    className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                  >
+                    Resume
+                  </button>
+                )}
+                {(downloadState === 'downloading' || downloadState === 'offline' || downloadState === 'retrying') && onPause && (
+                  <button
+                    onClick={onPause}
+                    className="px-4 py-2 text-sm rounded-lg border border-border text-foreground hover:bg-muted transition-colors"
+                  >
+                    Pause
+                  </button>
+                )}
+                {downloadState === 'failed' && onRetry && (
+                  <button
+                    onClick={onRetry}
+                    className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
+                {onCancel && (
+                  <button
+                    onClick={onCancel}
+                    className="px-4 py-2 text-sm rounded-lg border border-border text-muted-foreground hover:bg-muted transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Info */}
         <div className="text-center">
           {isDownloadComplete && isMediaPipeLoading ? (
@@ -131,6 +224,7 @@ export function ModelLoadProgress({ progress, modelName, status }: Props) {
           ) : (
             <p className="text-xs text-muted-foreground">
               This download only happens once. The model will be cached in your browser for future use.
+              If the connection drops or you close the tab, it resumes where it left off.
             </p>
           )}
         </div>
@@ -0,0 +1,209 @@
+/**
+ * Model Storage Manager Component
+ * Lists stored models with per-model verify/delete, storage usage and eviction settings
+ * @author Dr. Ernesto Lee
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { findModelConfig, formatBytes } from '../config/models';
+import { modelStore, type ModelStoreEntry } from '../services/ModelStore';
+import { modelLoader } from '../services/ModelLoader';
+
+interface Props {
+  evictLeastRecentlyUsed: boolean;
+  maxStoredModels: number;
+  onUpdate: (updates: { evictLeastRecentlyUsed?: boolean; maxStoredModels?: number }) => void;
+}
+
+const MAX_MODEL_OPTIONS = [0, 1, 2, 3, 5];
+
+export function ModelStorageManager({ evictLeastRecentlyUsed, maxStoredModels, onUpdate }: Props) {
+  const [models, setModels] = useState<ModelStoreEntry[]>([]);
+  const [usage, setUsage] = useState({ usage: 0, quota: 0 });
+  const [busyModelId, setBusyModelId] = useState<string | null>(null);
+  const [verifyMessages, setVerifyMessages] = useState<Record<string, string>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      const [entries, estimate] = await Promise.all([modelStore.getModels(), modelLoader.getStorageUsage()]);
+      setModels(entries);
+      setUsage(estimate);
+    } catch (error) {
+      console.error('Failed to read model storage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getConfig = (modelId: string) => findModelConfig(modelId);
+
+  const handleVerify = async (entry: ModelStoreEntry) => {
+    const config = getConfig(entry.modelId);
+    if (!config) return;
+
+    setBusyModelId(entry.modelId);
+    try {
+      const { matches } = await modelStore.verifyModel(config);
+      setVerifyMessages((messages) => ({
+        ...messages,
+        [entry.modelId]:
+          matches === null
+            ? 'Checksum computed (no published digest to compare)'
+            : matches
+              ? '✓ Matches the published digest'
+              : '✗ Does not match the published digest - delete and download again',
+      }));
+    } catch (error) {
+      setVerifyMessages((messages) => ({
+        ...messages,
+        [entry.modelId]: error instanceof Error ? error.message : 'Verification failed',
+      }));
+    } finally {
+      setBusyModelId(null);
+      refresh();
+    }
+  };
+
+  const handleDelete = async (entry: ModelStoreEntry) => {
+    const name = getConfig(entry.modelId)?.name || entry.modelId;
+    if (!confirm(`Delete ${name} (${formatBytes(entry.storedBytes)}) from this browser? It will be downloaded again next time you use it.`)) {
+      return;
+    }
+
+    setBusyModelId(entry.modelId);
+    try {
+      await modelStore.deleteModel(entry.modelId);
+    } finally {
+      setBusyModelId(null);
+      refresh();
+    }
+  };
+
+  const formatDate = (time: number | null) => (time ? new Date(time).toLocaleString() : '—');
+  const usagePercentage = usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Storage usage */}
+      <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium text-gray-900 dark:text-white">Storage Used</h4>
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {usage.quota > 0 ? `${formatBytes(usage.usage)} of ${formatBytes(usage.quota)}` : 'Unknown'}
+          </span>
+        </div>
+        <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 rounded-full" style={{ width: `${usagePercentage}%` }} />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Models are stored in {modelStore.usesOpfs ? 'the Origin Private File System' : 'IndexedDB'}
+        </p>
+      </div>
+
+      {/* Stored models */}
+      <div className="space-y-2">
+        {models.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400 p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+            No models stored yet.
+          </p>
+        ) : (
+          models.map((entry) => {
+            const config = getConfig(entry.modelId);
+            const isBusy = busyModelId === entry.modelId;
+            const isOutdated = !!config && (entry.version !== config.version || entry.url !== config.url);
+
+            return (
+              <div key={entry.modelId} className="p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h4 className="font-medium text-gray-900 dark:text-white">
+                      {config?.name || entry.modelId}
+                      {!entry.complete && (
+                        <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">
+                          Partial ({formatBytes(entry.storedBytes)} of {formatBytes(entry.size)})
+                        </span>
+                      )}
+                      {isOutdated && (
+                        <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">Outdated</span>
+                      )}
+                    </h4>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 text-xs text-gray-600 dark:text-gray-400">
+                      <span>Size: {formatBytes(entry.storedBytes)}</span>
+                      <span>Version: {entry.version}</span>
+                      <span>Downloaded: {formatDate(entry.downloadedAt)}</span>
+                      <span>Last used: {formatDate(entry.lastUsed)}</span>
+                      <span className="col-span-2 font-mono truncate" title={entry.checksum || undefined}>
+                        SHA-256: {entry.checksum ? `${entry.checksum.slice(0, 16)}…` : 'not computed'}
+                        {entry.verified && ' ✓'}
+                      </span>
+                    </div>
+                    {verifyMessages[entry.modelId] && (
+                      <p className="text-xs text-gray-700 dark:text-gray-300 mt-2">{verifyMessages[entry.modelId]}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleVerify(entry)}
+                      disabled={isBusy || !entry.complete || !config}
+                      className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                    >
+                      {isBusy ? 'Working…' : 'Verify'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 text-xs rounded-lg border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Eviction policy */}
+      <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+        <div>
+          <h4 className="font-medium text-gray-900 dark:text-white">Evict Least Recently Used</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            When a download doesn't fit, delete the models you used longest ago
+          </p>
+        </div>
+        <label className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            checked={evictLeastRecentlyUsed}
+            onChange={(e) => onUpdate({ evictLeastRecentlyUsed: e.target.checked })}
+            className="sr-only peer"
+          />
+          <div className="w-11 h-6 bg-gray-300 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+        <div>
+          <h4 className="font-medium text-gray-900 dark:text-white">Models to Keep</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Older models beyond this number are deleted after loading a model
+          </p>
+        </div>
+        <select
+          value={maxStoredModels}
+          onChange={(e) => onUpdate({ maxStoredModels: Number(e.target.value) })}
+          className="px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+        >
+          {MAX_MODEL_OPTIONS.map((count) => (
+            <option key={count} value={count}>
+              {count === 0 ? 'No limit' : count}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+/**
+ * OpenAPI Import Dialog
+ * Paste, upload or fetch an OpenAPI 3 spec, preview the functions it defines and
+ * choose which ones the AI may call. Re-syncing an imported spec shows what changed.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { functionService } from '../services/FunctionService';
+import type { OpenApiImportPreview, OpenApiOperationStatus, OpenApiSpecSource } from '../types';
+
+interface OpenApiImportDialogProps {
+  specToSync?: OpenApiSpecSource;
+  enabledFunctions: string[];
+  onImport: (preview: OpenApiImportPreview, selectedIds: string[]) => void;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<OpenApiOperationStatus, string> = {
+  new: 'bg-green-100 text-green-700',
+  changed: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+  removed: 'bg-red-100 text-red-700',
+};
+
+export function OpenApiImportDialog({ specToSync, enabledFunctions, onImport, onCancel }: OpenApiImportDialogProps) {
+  const [specText, setSpecText] = useState('');
+  const [url, setUrl] = useState(specToSync?.url || '');
+  const [preview, setPreview] = useState<OpenApiImportPreview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  const buildPreview = (text: string, sourceUrl?: string) => {
+    setSpecText(text);
+    try {
+      const result = functionService.previewOpenApiImport(text, {
+        url: sourceUrl || specToSync?.url,
+        specId: specToSync?.id,
+      });
+      setPreview(result);
+      setError(null);
+
+      // Keep the current choices when re-syncing; new operations start enabled
+      setSelectedIds(
+        result.operations
+          .filter(({ function: func, status }) =>
+            status === 'new' || (status !== 'removed' && (!specToSync || enabledFunctions.includes(func.id)))
+          )
+          .map(({ function: func }) => func.id)
+      );
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleFetch = async (sourceUrl: string) => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      const response = await fetch(sourceUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      buildPreview(await response.text(), sourceUrl);
+    } catch (err) {
+      setError(`Could not fetch the spec: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleFileUpload = async (file: File) => {
+    buildPreview(await file.text());
+  };
+
+  // Re-syncing a spec imported from a URL starts by fetching it again
+  useEffect(() => {
+    if (specToSync?.url) {
+      handleFetch(specToSync.url);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id]);
+  };
+
+  const importable = preview?.operations.filter(({ status }) => status !== 'removed') ?? [];
+  const hasChanges = preview?.operations.some(({ status }) => status !== 'unchanged') ?? false;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-2xl">
+          <h2 className="text-2xl font-semibold text-gray-900">
+            {specToSync ? `Re-sync ${specToSync.title}` : 'Import OpenAPI Spec'}
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Each operation in an OpenAPI 3 spec (JSON or YAML) becomes a function the AI can call
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <section className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://api.example.com/openapi.json"
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+              />
+              <button
+                onClick={() => handleFetch(url.trim())}
+                disabled={!url.trim() || isFetching}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-sm"
+              >
+                {isFetching ? 'Fetching...' : 'Fetch'}
+              </button>
+            </div>
+
+            <textarea
+              value={specText}
+              onChange={(e) => buildPreview(e.target.value)}
+              placeholder="Or paste the spec here..."
+              rows={6}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none font-mono text-xs"
+            />
+
+            <label className="inline-block px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer">
+              Upload File
+              <input
+                type="file"
+                accept=".json,.yaml,.yml"
+                onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])}
+                className="hidden"
+              />
+            </label>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </section>
+
+          {preview && (
+            <section>
+              <h3 className="text-lg font-medium text-gray-900">
+                {preview.spec.title}
+                {preview.spec.version && <span className="ml-2 text-sm text-gray-500">v{preview.spec.version}</span>}
+              </h3>
+              <p className="text-sm text-gray-600 mb-3">
+                {specToSync && !hasChanges ? 'The spec has not changed.' : 'Choose the operations the AI may call.'}
+              </p>
+
+              <div className="space-y-2">
+                {preview.operations.map(({ operationKey, function: func, status }) => (
+                  <label
+                    key={func.id}
+                    className={`flex items-start gap-3 p-3 border border-gray-200 rounded-lg ${
+                      status === 'removed' ? 'opacity-60' : 'cursor-pointer hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={status !== 'removed' && selectedIds.includes(func.id)}
+                      disabled={status === 'removed'}
+                      onChange={() => toggleSelected(func.id)}
+                      className="mt-1 w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">{func.name}</span>
+                        {specToSync && (
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`}>
+                            {status}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs font-mono text-gray-500">{operationKey}</p>
+                      <p className="text-xs text-gray-600 mt-1">
+                        {func.parameters.length > 0
+                          ? func.parameters.map((param) => `${param.name}${param.required ? '*' : ''} (${param.location})`).join(', ')
+                          : 'No parameters'}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 rounded-b-2xl flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-6 py-2.5 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => preview && onImport(preview, selectedIds)}
+            disabled={!preview}
+            className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {specToSync ? 'Apply Changes' : `Import ${importable.length} Functions`}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
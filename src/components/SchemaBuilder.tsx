@@ -0,0 +1,241 @@
+/**
+ * Schema Builder Component
+ * Edit the JSON Schema of a function parameter: allowed values, ranges, array
+ * items and nested object properties
+ * @author Dr. Ernesto Lee
+ */
+
+import type { JsonSchema, JsonSchemaType } from '../types';
+
+interface Props {
+  schema: JsonSchema;
+  onChange: (schema: JsonSchema) => void;
+  showType?: boolean; // Top-level parameters pick their type in the parameter row
+  depth?: number;
+}
+
+// Deeper nesting is still validated, but edited as JSON
+const MAX_DEPTH = 3;
+
+const TYPE_OPTIONS: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+const FORMAT_OPTIONS = ['', 'date', 'date-time', 'time', 'email', 'uri', 'uuid'];
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm';
+
+export function SchemaBuilder({ schema, onChange, showType = true, depth = 0 }: Props) {
+  const type = (Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type) || 'string';
+
+  const update = (changes: Partial<JsonSchema>) => {
+    const next: Record<string, any> = { ...schema, ...changes };
+    Object.keys(next).forEach((key) => next[key] === undefined && delete next[key]);
+    onChange(next);
+  };
+
+  // Constraints for one type don't carry over to another
+  const changeType = (nextType: JsonSchemaType) => {
+    onChange({ type: nextType, ...(schema.description ? { description: schema.description } : {}) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {showType && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+            <select value={type} onChange={(e) => changeType(e.target.value as JsonSchemaType)} className={inputClass}>
+              {TYPE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={schema.description || ''}
+              onChange={(e) => update({ description: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {type === 'string' && (
+        <>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Allowed Values (comma-separated)</label>
+            <input
+              key={(schema.enum || []).join(',')}
+              type="text"
+              defaultValue={(schema.enum || []).join(', ')}
+              onBlur={(e) => {
+                const values = e.target.value
+                  .split(',')
+                  .map((value) => value.trim())
+                  .filter(Boolean);
+                update({ enum: values.length > 0 ? values : undefined });
+              }}
+              placeholder="Any value"
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Pattern (regex)</label>
+              <input
+                type="text"
+                value={schema.pattern || ''}
+                onChange={(e) => update({ pattern: e.target.value || undefined })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <NumberField label="Min Length" value={schema.minLength} onChange={(minLength) => update({ minLength })} />
+            <NumberField label="Max Length" value={schema.maxLength} onChange={(maxLength) => update({ maxLength })} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Format</label>
+            <select
+              value={schema.format || ''}
+              onChange={(e) => update({ format: e.target.value || undefined })}
+              className={inputClass}
+            >
+              {FORMAT_OPTIONS.map((format) => (
+                <option key={format} value={format}>
+                  {format || 'Any'}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      {(type === 'number' || type === 'integer') && (
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField label="Minimum" value={schema.minimum} onChange={(minimum) => update({ minimum })} />
+          <NumberField label="Maximum" value={schema.maximum} onChange={(maximum) => update({ maximum })} />
+        </div>
+      )}
+
+      {type === 'array' && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField label="Min Items" value={schema.minItems} onChange={(minItems) => update({ minItems })} />
+            <NumberField label="Max Items" value={schema.maxItems} onChange={(maxItems) => update({ maxItems })} />
+          </div>
+          {depth < MAX_DEPTH && (
+            <div className="pl-3 border-l-2 border-gray-200">
+              <p className="text-xs font-medium text-gray-700 mb-2">Each Item</p>
+              <SchemaBuilder
+                schema={schema.items || { type: 'string' }}
+                onChange={(items) => update({ items })}
+                depth={depth + 1}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {type === 'object' && depth < MAX_DEPTH && (
+        <PropertiesEditor schema={schema} onChange={onChange} depth={depth} />
+      )}
+    </div>
+  );
+}
+
+function PropertiesEditor({ schema, onChange, depth }: { schema: JsonSchema; onChange: (schema: JsonSchema) => void; depth: number }) {
+  const properties = Object.entries(schema.properties || {});
+  const required = schema.required || [];
+
+  const setProperties = (entries: Array<[string, JsonSchema]>, nextRequired: string[] = required) => {
+    const names = entries.map(([name]) => name);
+    const filtered = nextRequired.filter((name) => names.includes(name));
+    onChange({
+      ...schema,
+      properties: entries.length > 0 ? Object.fromEntries(entries) : undefined,
+      required: filtered.length > 0 ? filtered : undefined,
+    });
+  };
+
+  const renameProperty = (index: number, name: string) => {
+    const previous = properties[index][0];
+    if (!name || name === previous || properties.some(([existing]) => existing === name)) return;
+    setProperties(
+      properties.map((entry, i) => (i === index ? [name, entry[1]] : entry)),
+      required.map((item) => (item === previous ? name : item))
+    );
+  };
+
+  const addProperty = () => {
+    let name = 'property';
+    for (let suffix = 2; properties.some(([existing]) => existing === name); suffix++) {
+      name = `property${suffix}`;
+    }
+    setProperties([...properties, [name, { type: 'string' }]]);
+  };
+
+  return (
+    <div className="pl-3 border-l-2 border-gray-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-700">Properties</p>
+        <button onClick={addProperty} className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
+          Add Property
+        </button>
+      </div>
+
+      {properties.map(([name, property], index) => (
+        <div key={`${index}-${name}`} className="border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex items-center gap-3">
+            <input
+              type="text"
+              defaultValue={name}
+              onBlur={(e) => renameProperty(index, e.target.value.trim())}
+              className={`${inputClass} flex-1`}
+            />
+            <label className="flex items-center gap-1 text-xs font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={required.includes(name)}
+                onChange={(e) =>
+                  setProperties(properties, e.target.checked ? [...required, name] : required.filter((item) => item !== name))
+                }
+                className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
+              />
+              Required
+            </label>
+            <button
+              onClick={() => setProperties(properties.filter((_, i) => i !== index))}
+              className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              Remove
+            </button>
+          </div>
+          <SchemaBuilder
+            schema={property}
+            onChange={(next) => setProperties(properties.map((entry, i) => (i === index ? [name, next] : entry)))}
+            depth={depth + 1}
+          />
+        </div>
+      ))}
+
+      {properties.length === 0 && <p className="text-xs text-gray-500">Any object. Add properties to describe it.</p>}
+    </div>
+  );
+}
+
+function NumberField({ label, value, onChange }: { label: string; value?: number; onChange: (value?: number) => void }) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className={inputClass}
+      />
+    </div>
+  );
+}
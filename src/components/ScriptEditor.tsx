@@ -0,0 +1,125 @@
+/**
+ * Script Editor Component
+ * Write the body of a JavaScript function, set its limits and try it out
+ * @author Dr. Ernesto Lee
+ */
+
+import { useState } from 'react';
+import { scriptSandbox } from '../services/ScriptSandbox';
+import type { FunctionParameter, ScriptLimits } from '../types';
+
+interface Props {
+  script: string;
+  limits: ScriptLimits;
+  parameters: FunctionParameter[];
+  onScriptChange: (script: string) => void;
+  onLimitsChange: (limits: ScriptLimits) => void;
+}
+
+export const SCRIPT_TEMPLATE = `// params: the validated arguments, e.g. params.text
+// context.conversation: the chat so far, as { role, content } messages
+// Return any JSON value. There is no network, storage or DOM access.
+const matches = params.text.match(/\\d+/g) || [];
+return { count: matches.length, matches };
+`;
+
+export function ScriptEditor({ script, limits, parameters, onScriptChange, onLimitsChange }: Props) {
+  const [testParams, setTestParams] = useState(() =>
+    JSON.stringify(Object.fromEntries(parameters.map((param) => [param.name, param.default ?? ''])), null, 2)
+  );
+  const [testOutput, setTestOutput] = useState<{ success: boolean; text: string } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const syntaxError = script.trim() ? scriptSandbox.checkSyntax(script) : null;
+
+  const handleTest = async () => {
+    let params: Record<string, any>;
+    try {
+      params = JSON.parse(testParams || '{}');
+    } catch {
+      setTestOutput({ success: false, text: 'Test arguments must be a JSON object' });
+      return;
+    }
+
+    setIsRunning(true);
+    const startTime = performance.now();
+    try {
+      const { result, logs } = await scriptSandbox.run(script, params, { conversation: [] }, limits);
+      const elapsed = Math.round(performance.now() - startTime);
+      const consoleOutput = logs.length > 0 ? `\n\nConsole:\n${logs.join('\n')}` : '';
+      setTestOutput({ success: true, text: `${JSON.stringify(result, null, 2)}${consoleOutput}\n\n(${elapsed} ms)` });
+    } catch (error) {
+      setTestOutput({ success: false, text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Function Body
+        </label>
+        <textarea
+          value={script}
+          onChange={(e) => onScriptChange(e.target.value)}
+          rows={10}
+          spellCheck={false}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-y font-mono text-sm"
+        />
+        {syntaxError && <p className="text-xs text-red-600 mt-1">Syntax error: {syntaxError}</p>}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Time Limit (seconds)
+        </label>
+        <input
+          type="number"
+          min={0.1}
+          max={30}
+          step={0.1}
+          value={limits.timeoutMs / 1000}
+          onChange={(e) =>
+            onLimitsChange({ ...limits, timeoutMs: Math.round(Math.min(30, Math.max(0.1, Number(e.target.value) || 0.1)) * 1000) })
+          }
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+      </div>
+
+      {/* Test Run */}
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-700">Test Arguments (JSON)</label>
+          <button
+            onClick={handleTest}
+            disabled={!script.trim() || !!syntaxError || isRunning}
+            className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {isRunning ? 'Running...' : 'Run Test'}
+          </button>
+        </div>
+        <textarea
+          value={testParams}
+          onChange={(e) => setTestParams(e.target.value)}
+          rows={3}
+          spellCheck={false}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none font-mono text-xs"
+        />
+        {testOutput && (
+          <pre
+            className={`px-3 py-2 rounded-lg text-xs whitespace-pre-wrap max-h-48 overflow-y-auto ${
+              testOutput.success ? 'bg-gray-50 text-gray-800' : 'bg-red-50 text-red-700'
+            }`}
+          >
+            {testOutput.text}
+          </pre>
+        )}
+        <p className="text-xs text-gray-500">
+          Test runs skip parameter validation and see an empty conversation.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Secret Vault Panel
+ * Set up, unlock and lock the passphrase-protected vault holding function API keys
+ * @author Dr. Ernesto Lee
+ */
+
+import { useState } from 'react';
+import { functionService } from '../services/FunctionService';
+import { secretVault } from '../services/SecretVault';
+
+interface Props {
+  onChange: () => void;
+}
+
+export function SecretVaultPanel({ onChange }: Props) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const exists = secretVault.exists();
+  const unlocked = secretVault.isUnlocked();
+
+  const handleUnlock = async () => {
+    if (!exists && passphrase !== confirmation) {
+      setError('The passphrases do not match');
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await functionService.unlockSecrets(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleLock = () => {
+    functionService.lockSecrets();
+    onChange();
+  };
+
+  const handleReset = () => {
+    if (confirm('Delete the vault and every API key and header stored in it? This cannot be undone.')) {
+      secretVault.reset();
+      functionService.lockSecrets();
+      setError(null);
+      onChange();
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-xl space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="font-medium text-gray-900 dark:text-white">
+            {unlocked ? '🔓' : '🔒'} Secret Vault
+          </h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {unlocked
+              ? 'API keys and headers are unlocked for this session.'
+              : exists
+                ? 'Unlock with your passphrase to use functions that need an API key.'
+                : 'Choose a passphrase to save API keys and headers encrypted on this device.'}
+          </p>
+        </div>
+        {unlocked && (
+          <button
+            onClick={handleLock}
+            className="px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors shrink-0"
+          >
+            Lock
+          </button>
+        )}
+      </div>
+
+      {!unlocked && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+          className="flex flex-wrap gap-2"
+        >
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            autoComplete={exists ? 'current-password' : 'new-password'}
+            className="flex-1 min-w-[10rem] px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+          />
+          {!exists && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Confirm passphrase"
+              autoComplete="new-password"
+              className="flex-1 min-w-[10rem] px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={!passphrase || isUnlocking}
+            className="px-3 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isUnlocking ? 'Unlocking...' : exists ? 'Unlock' : 'Create Vault'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {exists && !unlocked && (
+        <button onClick={handleReset} className="text-xs text-red-600 dark:text-red-400 hover:underline">
+          Forgot the passphrase? Reset the vault
+        </button>
+      )}
+    </div>
+  );
+}
@@ -7,17 +7,26 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import { useState, useEffect } from 'react';
 import { useStore } from '../store/useStore';
-import { getAvailableModels } from '../config/models';
+import { DEFAULT_MODEL_ID, getAvailableModels } from '../config/models';
 import { getAllLanguages, AUDIO_TRANSCRIPTION_LANGUAGES } from '../config/languages';
 import { voiceService } from '../services/VoiceService';
 import { functionService } from '../services/FunctionService';
-import type { FunctionDefinition } from '../types';
+import { llmBackend } from '../services/BackendManager';
+import { modelRecommendationService } from '../services/ModelRecommendationService';
+import { WebLLMInferenceEngine } from '../services/WebLLMEngine';
+import type { BackendId, FunctionDefinition, OpenApiImportPreview, OpenApiSpecSource } from '../types';
 import { FunctionEditor } from './FunctionEditor';
+import { OpenApiImportDialog } from './OpenApiImportDialog';
+import { SecretVaultPanel } from './SecretVaultPanel';
 import { SystemPromptEditor } from './SystemPromptEditor';
 import { StructuredOutputEditor } from './StructuredOutputEditor';
 import { SafetySettingsEditor } from './SafetySettingsEditor';
+import { ModelStorageManager } from './ModelStorageManager';
+import { CustomModelRegistry } from './CustomModelRegistry';
+import { BackgroundDownloads } from './BackgroundDownloads';
 import { languageDetectionService } from '../services/LanguageDetectionService';
 import { SystemInfoService } from '../services/SystemInfoService';
+import { resolveGenerationOptions } from '../utils/generationOptions';
 
 interface Props {
   onClose: () => void;
@@ -79,16 +88,26 @@ const TABS: Tab[] = [
   },
 ];
 
+const BACKEND_OPTIONS: Array<{ id: BackendId; name: string; description: string }> = [
+  { id: 'mediapipe', name: 'MediaPipe', description: 'Gemma models with vision and audio, resumable downloads and custom models' },
+  { id: 'webllm', name: 'WebLLM', description: 'MLC builds of Llama, Phi and Gemma 2 for text chat' },
+];
+
 export function Settings({ onClose }: Props) {
   const [activeTab, setActiveTab] = useState<TabId>('model');
-  const { currentModelId, setCurrentModel, settings, updateSettings, systemInfo } = useStore();
-  const models = getAvailableModels();
+  const { currentModelId, setCurrentModel, settings, updateSettings, systemInfo, conversations, currentConversationId, setConversationOverrides } = useStore();
+  const currentConversation = currentConversationId ? conversations[currentConversationId] : null;
+  const [, setRegistryVersion] = useState(0);
+  const models = getAvailableModels(settings.backend);
   const currentModel = models.find(m => m.id === currentModelId);
   const languages = getAllLanguages();
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [functions, setFunctions] = useState<FunctionDefinition[]>([]);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [functionToEdit, setFunctionToEdit] = useState<FunctionDefinition | undefined>();
+  const [openApiSpecs, setOpenApiSpecs] = useState<OpenApiSpecSource[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [specToSync, setSpecToSync] = useState<OpenApiSpecSource | undefined>();
 
   // Load available TTS voices
   useEffect(() => {
@@ -106,6 +125,7 @@ export function Settings({ onClose }: Props) {
   // Load available functions
   useEffect(() => {
     setFunctions(functionService.getFunctions());
+    setOpenApiSpecs(functionService.getOpenApiSpecs());
   }, []);
 
   // Function editor handlers
@@ -133,6 +153,50 @@ export function Settings({ onClose }: Props) {
     }
   };
 
+  // OpenAPI import handlers
+  const handleOpenImport = (spec?: OpenApiSpecSource) => {
+    setSpecToSync(spec);
+    setIsImportOpen(true);
+  };
+
+  const handleImportSpec = (preview: OpenApiImportPreview, selectedIds: string[]) => {
+    const removedIds = functionService.applyOpenApiImport(preview);
+    const specFunctionIds = preview.operations.map(({ function: func }) => func.id);
+    specFunctionIds
+      .filter((id) => !removedIds.includes(id))
+      .forEach((id) => functionService.toggleFunction(id, selectedIds.includes(id)));
+
+    // Enable the chosen operations; unchosen and removed ones are turned off
+    updateSettings({
+      functions: {
+        ...settings.functions,
+        availableFunctions: [
+          ...settings.functions.availableFunctions.filter((id) => !specFunctionIds.includes(id)),
+          ...selectedIds.filter((id) => !removedIds.includes(id)),
+        ],
+      },
+    });
+
+    setFunctions(functionService.getFunctions());
+    setOpenApiSpecs(functionService.getOpenApiSpecs());
+    setIsImportOpen(false);
+    setSpecToSync(undefined);
+  };
+
+  const handleRemoveSpec = (spec: OpenApiSpecSource) => {
+    if (confirm(`Remove ${spec.title} and all of its functions?`)) {
+      const removedIds = functionService.removeOpenApiSpec(spec.id);
+      updateSettings({
+        functions: {
+          ...settings.functions,
+          availableFunctions: settings.functions.availableFunctions.filter((id) => !removedIds.includes(id)),
+        },
+      });
+      setFunctions(functionService.getFunctions());
+      setOpenApiSpecs(functionService.getOpenApiSpecs());
+    }
+  };
+
   return (
     <>
       <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -216,6 +280,14 @@ export function Settings({ onClose }: Props) {
                     setCurrentModel={setCurrentModel}
                     settings={settings}
                     updateSettings={updateSettings}
+                    conversation={currentConversation}
+                    setConversationOverrides={setConversationOverrides}
+                    onModelsChange={(removedModelId?: string) => {
+                      if (removedModelId === currentModelId) {
+                        setCurrentModel(DEFAULT_MODEL_ID);
+                      }
+                      setRegistryVersion((version) => version + 1);
+                    }}
                   />
                 )}
 
@@ -240,6 +312,10 @@ export function Settings({ onClose }: Props) {
                     onCreateNew={handleCreateNew}
                     onEditFunction={handleEditFunction}
                     onDeleteFunction={handleDeleteFunction}
+                    openApiSpecs={openApiSpecs}
+                    onImportSpec={handleOpenImport}
+                    onRemoveSpec={handleRemoveSpec}
+                    onSecretsChange={() => setFunctions(functionService.getFunctions())}
                   />
                 )}
 
@@ -265,15 +341,104 @@ export function Settings({ onClose }: Props) {
           />
         )}
       </AnimatePresence>
+
+      {/* OpenAPI Import Modal */}
+      <AnimatePresence>
+        {isImportOpen && (
+          <OpenApiImportDialog
+            specToSync={specToSync}
+            enabledFunctions={settings.functions.availableFunctions}
+            onImport={handleImportSpec}
+            onCancel={() => {
+              setIsImportOpen(false);
+              setSpecToSync(undefined);
+            }}
+          />
+        )}
+      </AnimatePresence>
     </>
   );
 }
 
 // Model Tab Component
-function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSettings }: any) {
+function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSettings, conversation, setConversationOverrides, onModelsChange }: any) {
+  const [scope, setScope] = useState<'global' | 'conversation'>(
+    conversation?.generationOverrides ? 'conversation' : 'global'
+  );
+  const isConversationScope = scope === 'conversation' && conversation;
+  const params = resolveGenerationOptions(settings, isConversationScope ? conversation : null, false);
+  const [webllmAvailable, setWebllmAvailable] = useState<boolean | null>(null);
+
+  const [residentModelIds, setResidentModelIds] = useState<string[]>(() => llmBackend.getResidentModelIds());
+
+  useEffect(() => {
+    WebLLMInferenceEngine.isAvailable().then(setWebllmAvailable);
+  }, []);
+
+  const unloadResidentModel = async (modelId: string) => {
+    await llmBackend.unloadModel(modelId);
+    setResidentModelIds(llmBackend.getResidentModelIds());
+  };
+
+  // Write a sampling parameter to the global settings or to this conversation's overrides
+  const updateParam = (key: 'temperature' | 'topP' | 'topK' | 'maxTokens' | 'seed', value: number) => {
+    if (isConversationScope) {
+      setConversationOverrides(conversation.id, { ...conversation.generationOverrides, [key]: value });
+    } else {
+      updateSettings({ [key]: value });
+    }
+  };
+
+  // Switching backend selects its recommended model; the new model loads on the next start
+  const selectBackend = async (backend: BackendId) => {
+    if (backend === settings.backend) return;
+    updateSettings({ backend });
+    if (!getAvailableModels(backend).some((model) => model.id === currentModelId)) {
+      const { model } = await modelRecommendationService.recommend(backend);
+      setCurrentModel(model.id);
+    }
+  };
+
   return (
     <div className="space-y-6">
+      {/* Inference Backend */}
       <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Inference Backend</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          The engine that runs the model. Both run entirely in your browser on WebGPU.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          {BACKEND_OPTIONS.map((option) => {
+            const capabilities = llmBackend.getBackend(option.id).getCapabilities();
+            const isUnavailable = option.id === 'webllm' && webllmAvailable === false;
+            return (
+              <button
+                key={option.id}
+                onClick={() => selectBackend(option.id)}
+                disabled={isUnavailable}
+                className={`
+                  p-4 rounded-xl border-2 text-left transition-all disabled:opacity-50 disabled:cursor-not-allowed
+                  ${
+                    settings.backend === option.id
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                  }
+                `}
+              >
+                <h4 className="font-semibold text-gray-900 dark:text-white mb-1">{option.name}</h4>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {isUnavailable ? 'Requires WebGPU, which this browser does not provide' : option.description}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-500 mt-2">
+                  {capabilities.multimodal ? 'Text, images & audio' : 'Text only'} · Sampling: {capabilities.sampling.join(', ')}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="pt-6 border-t border-gray-200 dark:border-gray-800">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">AI Model</h3>
         <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
           Choose the model that best fits your needs. Multimodal models support images and audio.
@@ -284,11 +449,9 @@ function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSet
             <button
               key={model.id}
               onClick={() => {
+                // The chat hot-swaps to the selected model (instantly if it's still loaded)
                 if (model.id !== currentModelId) {
-                  if (confirm(`Switch to ${model.name}? This will reload the page.`)) {
-                    setCurrentModel(model.id);
-                    window.location.reload();
-                  }
+                  setCurrentModel(model.id);
                 }
               }}
               className={`
@@ -310,6 +473,11 @@ function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSet
                         Active
                       </span>
                     )}
+                    {currentModelId !== model.id && residentModelIds.includes(model.id) && (
+                      <span className="px-2 py-0.5 bg-green-500 text-white text-xs font-medium rounded-full">
+                        Loaded
+                      </span>
+                    )}
                   </div>
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{model.description}</p>
                   <div className="flex flex-wrap gap-2">
@@ -332,23 +500,137 @@ function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSet
         </div>
       </div>
 
+      {/* Resident models (MediaPipe only) */}
+      {settings.backend === 'mediapipe' && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-xl space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">Models Kept Loaded</h4>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Recently used models stay in memory for instant switching, as far as this device's memory allows
+              </p>
+            </div>
+            <select
+              value={settings.residentModels}
+              onChange={(e) => updateSettings({ residentModels: parseInt(e.target.value) })}
+              className="px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+            >
+              <option value={1}>1 (active only)</option>
+              <option value={2}>2</option>
+              <option value={3}>3</option>
+              <option value={4}>4</option>
+            </select>
+          </div>
+          {residentModelIds
+            .filter((modelId) => modelId !== currentModelId)
+            .map((modelId) => (
+              <div key={modelId} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {models.find((model: any) => model.id === modelId)?.name || modelId}
+                </span>
+                <button
+                  onClick={() => unloadResidentModel(modelId)}
+                  className="px-3 py-1 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+                >
+                  Unload
+                </button>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* Background downloads (MediaPipe only) */}
+      {settings.backend === 'mediapipe' && (
+        <BackgroundDownloads models={models} currentModelId={currentModelId} onSwitch={setCurrentModel} />
+      )}
+
+      {/* Attachments on text-only models */}
+      <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+        <div>
+          <h4 className="font-medium text-gray-900 dark:text-white">Switch Models for Attachments</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            When an image or audio clip needs a model the current one can't run, load a capable model
+          </p>
+        </div>
+        <select
+          value={settings.modelSwitching}
+          onChange={(e) => updateSettings({ modelSwitching: e.target.value })}
+          className="px-3 py-2 text-sm bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+        >
+          <option value="ask">Ask first</option>
+          <option value="auto">Automatically</option>
+          <option value="off">Never</option>
+        </select>
+      </div>
+
+      {/* Custom Models (MediaPipe only) */}
+      {settings.backend === 'mediapipe' && (
+        <div className="pt-6 border-t border-gray-200 dark:border-gray-800">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Custom Models</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Add your own .task or .litertlm builds (for example a fine-tuned Gemma) from a URL or a local file.
+          </p>
+          <CustomModelRegistry storagePolicy={settings.storage} onModelsChange={onModelsChange} />
+        </div>
+      )}
+
       {/* Generation Parameters */}
       <div className="pt-6 border-t border-gray-200 dark:border-gray-800">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Generation Parameters</h3>
 
+        {/* Scope: global defaults or this conversation only */}
+        <div className="mb-6">
+          <div className="grid grid-cols-2 gap-2">
+            {(['global', 'conversation'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                disabled={option === 'conversation' && !conversation}
+                className={`
+                  py-2 px-3 rounded-lg text-sm font-medium transition-all disabled:opacity-50
+                  ${
+                    scope === option
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }
+                `}
+              >
+                {option === 'global' ? 'All Conversations' : 'This Conversation'}
+              </button>
+            ))}
+          </div>
+          {isConversationScope && (
+            <div className="flex items-center justify-between mt-2">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {conversation.generationOverrides
+                  ? 'This conversation uses its own parameters'
+                  : 'Changes here apply to this conversation only'}
+              </p>
+              {conversation.generationOverrides && (
+                <button
+                  onClick={() => setConversationOverrides(conversation.id, undefined)}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  Reset to defaults
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
         <div className="space-y-6">
           {/* Temperature */}
           <div>
             <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
-              Temperature: {settings.temperature.toFixed(2)}
+              Temperature: {params.temperature.toFixed(2)}
             </label>
             <input
               type="range"
               min="0"
               max="2"
               step="0.1"
-              value={settings.temperature}
-              onChange={(e) => updateSettings({ temperature: parseFloat(e.target.value) })}
+              value={params.temperature}
+              onChange={(e) => updateParam('temperature', parseFloat(e.target.value))}
               className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
             />
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
@@ -359,15 +641,15 @@ function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSet
           {/* Top-P */}
           <div>
             <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
-              Top-P: {settings.topP.toFixed(2)}
+              Top-P: {params.topP.toFixed(2)}
             </label>
             <input
               type="range"
               min="0"
               max="1"
               step="0.05"
-              value={settings.topP}
-              onChange={(e) => updateSettings({ topP: parseFloat(e.target.value) })}
+              value={params.topP}
+              onChange={(e) => updateParam('topP', parseFloat(e.target.value))}
               className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
             />
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
@@ -375,18 +657,37 @@ function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSet
             </p>
           </div>
 
+          {/* Top-K */}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
+              Top-K: {params.topK}
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="100"
+              step="1"
+              value={params.topK}
+              onChange={(e) => updateParam('topK', parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Number of candidate tokens considered at each step (1 = always pick the most likely)
+            </p>
+          </div>
+
           {/* Max Tokens */}
           <div>
             <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
-              Max Tokens: {settings.maxTokens}
+              Max Tokens: {params.maxTokens}
             </label>
             <input
               type="range"
               min="100"
               max="2000"
               step="100"
-              value={settings.maxTokens}
-              onChange={(e) => updateSettings({ maxTokens: parseInt(e.target.value) })}
+              value={params.maxTokens}
+              onChange={(e) => updateParam('maxTokens', parseInt(e.target.value))}
               className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
             />
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
@@ -394,6 +695,27 @@ function ModelTab({ models, currentModelId, setCurrentModel, settings, updateSet
             </p>
           </div>
 
+          {/* Seed */}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
+              Random Seed
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={params.seed}
+              onChange={(e) => {
+                const seed = parseInt(e.target.value);
+                if (!isNaN(seed) && seed >= 0) updateParam('seed', seed);
+              }}
+              className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Same seed + same prompt = reproducible responses
+            </p>
+          </div>
+
           {/* Response Style */}
           <div>
             <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
@@ -1430,13 +1752,19 @@ function LanguageTab({ languages, availableVoices, settings, updateSettings }: a
 }
 
 // Functions Tab Component
-function FunctionsTab({ functions, settings, updateSettings, onCreateNew, onEditFunction, onDeleteFunction }: any) {
+function FunctionsTab({ functions, settings, updateSettings, onCreateNew, onEditFunction, onDeleteFunction, openApiSpecs, onImportSpec, onRemoveSpec, onSecretsChange }: any) {
   const enabledFunctions = settings.functions.availableFunctions || [];
 
   const toggleFunction = (functionId: string) => {
-    const newEnabledFunctions = enabledFunctions.includes(functionId)
-      ? enabledFunctions.filter((id: string) => id !== functionId)
-      : [...enabledFunctions, functionId];
+    const enabling = !enabledFunctions.includes(functionId);
+    const newEnabledFunctions = enabling
+      ? [...enabledFunctions, functionId]
+      : enabledFunctions.filter((id: string) => id !== functionId);
+
+    // Saved custom functions remember this across reloads
+    if (!functionService.getFunction(functionId)?.builtIn) {
+      functionService.toggleFunction(functionId, enabling);
+    }
 
     updateSettings({
       functions: { ...settings.functions, availableFunctions: newEnabledFunctions },
@@ -1468,18 +1796,63 @@ function FunctionsTab({ functions, settings, updateSettings, onCreateNew, onEdit
 
         {settings.functions.enableFunctionCalling && (
           <>
-            <div className="mb-4">
+            <div className="mb-4 flex gap-3">
               <button
                 onClick={onCreateNew}
-                className="w-full py-3 px-4 bg-blue-500 hover:bg-blue-600 text-white font-medium rounded-xl transition-colors flex items-center justify-center gap-2"
+                className="flex-1 py-3 px-4 bg-blue-500 hover:bg-blue-600 text-white font-medium rounded-xl transition-colors flex items-center justify-center gap-2"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                 </svg>
                 Create Custom Function
               </button>
+              <button
+                onClick={() => onImportSpec()}
+                className="flex-1 py-3 px-4 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-900 dark:text-white font-medium rounded-xl transition-colors"
+              >
+                Import OpenAPI Spec
+              </button>
             </div>
 
+            <div className="mb-4">
+              <SecretVaultPanel onChange={onSecretsChange} />
+            </div>
+
+            {openApiSpecs.length > 0 && (
+              <div className="mb-4 space-y-2">
+                {openApiSpecs.map((spec: OpenApiSpecSource) => (
+                  <div
+                    key={spec.id}
+                    className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-xl"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {spec.title} {spec.version && <span className="text-gray-500">v{spec.version}</span>}
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                        {functions.filter((func: FunctionDefinition) => func.openApi?.specId === spec.id).length} operations
+                        {' · '}imported {new Date(spec.importedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => onImportSpec(spec)}
+                        className="px-3 py-1.5 text-xs font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                      >
+                        Re-sync
+                      </button>
+                      <button
+                        onClick={() => onRemoveSpec(spec)}
+                        className="px-3 py-1.5 text-xs rounded-lg bg-red-100 dark:bg-red-900/30 hover:bg-red-200 dark:hover:bg-red-900/50 text-red-700 dark:text-red-300 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-3">
               {functions.map((func: FunctionDefinition) => (
                 <div
@@ -1492,7 +1865,7 @@ function FunctionsTab({ functions, settings, updateSettings, onCreateNew, onEdit
                         <h4 className="font-semibold text-gray-900 dark:text-white">{func.name}</h4>
                         {!func.builtIn && (
                           <span className="px-2 py-0.5 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 text-xs font-medium rounded-full">
-                            Custom
+                            {func.openApi ? 'OpenAPI' : func.script !== undefined ? 'JavaScript' : 'Custom'}
                           </span>
                         )}
                       </div>
@@ -1571,7 +1944,7 @@ function AdvancedTab({ settings, updateSettings, systemInfo }: any) {
       <div className="pt-6 border-t border-gray-200 dark:border-gray-800">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Storage</h3>
         <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-          Manage model caching and storage preferences
+          Manage stored models, caching and storage preferences
         </p>
 
         <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
@@ -1594,6 +1967,14 @@ function AdvancedTab({ settings, updateSettings, systemInfo }: any) {
             <div className="w-11 h-6 bg-gray-300 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
           </label>
         </div>
+
+        <div className="mt-4">
+          <ModelStorageManager
+            evictLeastRecentlyUsed={settings.storage.evictLeastRecentlyUsed}
+            maxStoredModels={settings.storage.maxStoredModels}
+            onUpdate={(updates) => updateSettings({ storage: { ...settings.storage, ...updates } })}
+          />
+        </div>
       </div>
 
       <div className="pt-6 border-t border-gray-200 dark:border-gray-800">
@@ -11,9 +11,10 @@ import { useStore } from '../../store/useStore';
 interface Props {
   tokensUsed: number;
   contextLimit: number;
+  droppedMessages?: number; // Older messages not sent with the last prompt
 }
 
-export function ContextIndicator({ tokensUsed, contextLimit }: Props) {
+export function ContextIndicator({ tokensUsed, contextLimit, droppedMessages = 0 }: Props) {
   const { settings } = useStore();
   const tokenPercentage = (tokensUsed / contextLimit) * 100;
   const [displayValue, setDisplayValue] = useState((tokensUsed / 1000).toFixed(1));
@@ -61,6 +62,11 @@ export function ContextIndicator({ tokensUsed, contextLimit }: Props) {
         <div className="font-semibold mb-1">Conversation Context</div>
         <div className="font-mono text-center">{tokensUsed.toLocaleString()} / {contextLimit.toLocaleString()} tokens</div>
         <div className="text-gray-400 mt-1">{tokenPercentage.toFixed(1)}% of context used</div>
+        {droppedMessages > 0 && (
+          <div className="text-orange-300 mt-1">
+            {droppedMessages} older {droppedMessages === 1 ? 'message' : 'messages'} left out of the last prompt
+          </div>
+        )}
         <div className="text-gray-500 text-[10px] mt-2 max-w-[200px]">
           Context tracks how much of the conversation history is being used. Color changes from green to red as you approach the limit.
         </div>
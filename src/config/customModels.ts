@@ -0,0 +1,137 @@
+/**
+ * Custom model registry
+ * User-supplied .task / .litertlm models, persisted next to the built-in MODEL_CONFIG
+ *
+ * URL models download like the built-ins; file models are copied into the model
+ * store when they are added and load from there.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelCapability, ModelConfig, ModelFormat } from './models';
+import type { ChatTemplateId } from '../utils/chatTemplates';
+
+const STORAGE_KEY = 'browsergpt_custom_models';
+
+export interface CustomModelInput {
+  name: string;
+  source: 'url' | 'file';
+  url?: string; // For URL models
+  fileName?: string; // For file models
+  size: number; // Bytes (0 if unknown)
+  sha256?: string;
+  format: ModelFormat;
+  capabilities: ModelCapability[];
+  contextWindow: number;
+  chatTemplate: ChatTemplateId;
+}
+
+let customModels: ModelConfig[] | null = null;
+
+/**
+ * Get all registered custom models
+ */
+export function getCustomModels(): ModelConfig[] {
+  if (!customModels) {
+    customModels = loadCustomModels();
+  }
+  return customModels;
+}
+
+/**
+ * Check a registration, returning an error message if it can't be used
+ */
+export function validateCustomModelInput(input: CustomModelInput): string | null {
+  if (!input.name.trim()) return 'Give the model a name';
+
+  if (input.source === 'url') {
+    try {
+      const url = new URL(input.url || '');
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'The model URL must use http or https';
+    } catch {
+      return 'Enter a valid model URL';
+    }
+  } else if (!input.fileName) {
+    return 'Choose a model file';
+  }
+
+  if (!Number.isFinite(input.contextWindow) || input.contextWindow < 256) {
+    return 'Context window must be at least 256 tokens';
+  }
+  if (input.sha256 && !/^[0-9a-f]{64}$/i.test(input.sha256.trim())) {
+    return 'SHA-256 digest must be 64 hex characters';
+  }
+  return null;
+}
+
+/**
+ * Build a model config from a registration
+ */
+export function createCustomModelConfig(input: CustomModelInput): ModelConfig {
+  // Every model generates text; attachments come on top
+  const capabilities: ModelCapability[] = ['text', ...input.capabilities.filter((capability) => capability !== 'text')];
+  const origin = input.source === 'url' ? new URL(input.url!).hostname : input.fileName;
+
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    url: input.source === 'url' ? input.url!.trim() : `local-file:${input.fileName}`,
+    name: input.name.trim(),
+    description: `Custom ${input.format} model from ${origin}`,
+    type: capabilities.length > 1 ? 'multimodal' : 'text-generation',
+    format: input.format,
+    size: input.size,
+    version: '1',
+    sha256: input.sha256?.trim().toLowerCase() || null,
+    capabilities,
+    contextWindow: input.contextWindow,
+    chatTemplate: input.chatTemplate,
+    icon: '🧩',
+    recommended: {
+      device: 'webgpu',
+      fallback: 'wasm',
+      minMemory: Math.round(input.size * 1.3), // Weights plus runtime overhead
+    },
+    custom: {
+      source: input.source,
+      fileName: input.fileName,
+      addedAt: Date.now(),
+    },
+  };
+}
+
+/**
+ * Add or update a custom model
+ */
+export function saveCustomModel(config: ModelConfig): void {
+  const models = getCustomModels().filter((model) => model.id !== config.id);
+  customModels = [...models, config];
+  persistCustomModels();
+}
+
+/**
+ * Remove a custom model from the registry
+ */
+export function removeCustomModel(modelId: string): void {
+  customModels = getCustomModels().filter((model) => model.id !== modelId);
+  persistCustomModels();
+}
+
+function loadCustomModels(): ModelConfig[] {
+  // Workers have no localStorage; they receive configs from the main thread
+  if (typeof localStorage === 'undefined') return [];
+
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to parse custom models:', e);
+    return [];
+  }
+}
+
+function persistCustomModels(): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(customModels || []));
+}
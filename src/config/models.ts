@@ -5,6 +5,50 @@
  * @author Dr. Ernesto Lee
  */
 
+import type { BackendId } from '../types';
+import type { ChatTemplateId } from '../utils/chatTemplates';
+import { getCustomModels } from './customModels';
+import { WEBLLM_MODELS } from './webllmModels';
+
+export type ModelCapability = 'text' | 'vision' | 'audio';
+
+export type ModelFormat = 'task' | 'litertlm' | 'mlc';
+
+/**
+ * A model that can be downloaded and run by one of the inference backends
+ */
+export interface ModelConfig {
+  id: string;
+  url: string;
+  name: string;
+  description: string;
+  type: 'text-generation' | 'multimodal';
+  format: ModelFormat;
+  quantization?: string;
+  size: number; // Bytes (0 if unknown until downloaded)
+  version: string;
+  sha256: string | null;
+  capabilities: readonly ModelCapability[];
+  contextWindow: number;
+  chatTemplate: ChatTemplateId;
+  parameters?: number;
+  totalParameters?: number;
+  icon: string;
+  features?: readonly string[];
+  backend?: BackendId; // Defaults to 'mediapipe'
+  mlcModelId?: string; // WebLLM prebuilt model ID
+  recommended: {
+    device: 'webgpu';
+    fallback: 'wasm';
+    minMemory: number;
+  };
+  custom?: {
+    source: 'url' | 'file'; // File models exist only in the model store
+    fileName?: string;
+    addedAt: number;
+  };
+}
+
 export const MODEL_CONFIG = {
   // CloudFlare R2 Base URL
   R2_BASE_URL: 'https://pub-8f8063a5b7fd42c1bf158b9ba33997d5.r2.dev',
@@ -21,8 +65,11 @@ export const MODEL_CONFIG = {
       format: 'task' as const,
       quantization: 'q8' as const,
       size: 297 * 1024 * 1024, // 297 MB
+      version: '1', // Bump when the published file changes; stored copies of other versions are replaced
+      sha256: null as string | null, // Hex digest of the published file; null skips verification
       capabilities: ['text'] as const,
       contextWindow: 8000,
+      chatTemplate: 'gemma' as const,
       parameters: 270_000_000,
       icon: '⚡',
       recommended: {
@@ -42,8 +89,11 @@ export const MODEL_CONFIG = {
       format: 'litertlm' as const,
       quantization: 'int4' as const,
       size: 1.9 * 1024 * 1024 * 1024, // 1.9 GB
+      version: '1',
+      sha256: null as string | null,
       capabilities: ['text', 'vision', 'audio'] as const,
       contextWindow: 32000,
+      chatTemplate: 'gemma' as const,
       parameters: 1_910_000_000, // Effective
       totalParameters: 5_100_000_000,
       icon: '●',
@@ -65,8 +115,11 @@ export const MODEL_CONFIG = {
       format: 'litertlm' as const,
       quantization: 'int4' as const,
       size: 2.1 * 1024 * 1024 * 1024, // 2.1 GB estimated
+      version: '1',
+      sha256: null as string | null,
       capabilities: ['text', 'vision', 'audio'] as const,
       contextWindow: 32000,
+      chatTemplate: 'gemma' as const,
       parameters: 2_100_000_000, // Effective
       totalParameters: 5_500_000_000,
       icon: '◆',
@@ -80,36 +133,66 @@ export const MODEL_CONFIG = {
   },
 } as const;
 
-export type ModelId = keyof typeof MODEL_CONFIG.models;
-export type ModelConfig = typeof MODEL_CONFIG.models[ModelId];
+export type BuiltInModelId = keyof typeof MODEL_CONFIG.models;
+export type ModelId = string; // Built-in or custom model ID
+
+export const DEFAULT_MODEL_ID: BuiltInModelId = 'gemma3nE2B';
+
+/**
+ * Find a built-in, WebLLM or custom model by ID
+ */
+export function findModelConfig(modelId: ModelId): ModelConfig | undefined {
+  return (
+    MODEL_CONFIG.models[modelId as BuiltInModelId] ||
+    WEBLLM_MODELS[modelId] ||
+    getCustomModels().find((model) => model.id === modelId)
+  );
+}
+
+/**
+ * Backend that runs a model
+ */
+export function getModelBackend(config: ModelConfig): BackendId {
+  return config.backend ?? 'mediapipe';
+}
 
 /**
  * Get model configuration by ID
+ * Falls back to the default model if a custom model was removed
  */
 export function getModelConfig(modelId: ModelId): ModelConfig {
-  return MODEL_CONFIG.models[modelId];
+  return findModelConfig(modelId) || MODEL_CONFIG.models[DEFAULT_MODEL_ID];
 }
 
 /**
- * Get all available models
+ * Get all models a backend can run (MediaPipe: built-in first, then custom)
  */
-export function getAvailableModels() {
-  return Object.values(MODEL_CONFIG.models);
+export function getAvailableModels(backend: BackendId = 'mediapipe'): ModelConfig[] {
+  if (backend === 'webllm') {
+    return Object.values(WEBLLM_MODELS);
+  }
+  return [...Object.values(MODEL_CONFIG.models), ...getCustomModels()];
 }
 
 /**
- * Select best model based on required capabilities
+ * Select the most capable model with the required capabilities that fits in
+ * memoryBudget (bytes, compared with recommended.minMemory)
+ * If none fits, the smallest model with the capabilities is returned.
  */
 export function selectModelByCapability(
-  capabilities: Array<'text' | 'vision' | 'audio'>
+  capabilities: ModelCapability[],
+  memoryBudget = Infinity,
+  candidates: ModelConfig[] = getAvailableModels()
 ): ModelConfig {
-  // If only text is needed, prefer smaller model
-  if (capabilities.length === 1 && capabilities[0] === 'text') {
-    return MODEL_CONFIG.models.gemma270m;
+  const supporting = candidates
+    .filter((model) => capabilities.every((capability) => model.capabilities.includes(capability)))
+    .sort((a, b) => b.recommended.minMemory - a.recommended.minMemory);
+
+  if (supporting.length === 0) {
+    return MODEL_CONFIG.models[DEFAULT_MODEL_ID];
   }
 
-  // For multimodal, prefer E4B (most advanced) or fall back to E2B
-  return MODEL_CONFIG.models.gemma3nE4B;
+  return supporting.find((model) => model.recommended.minMemory <= memoryBudget) || supporting[supporting.length - 1];
 }
 
 /**
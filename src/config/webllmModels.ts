@@ -0,0 +1,88 @@
+/**
+ * WebLLM model configuration
+ * Prebuilt MLC models served by the WebLLM backend
+ *
+ * WebLLM downloads and caches these itself, so they never go through the
+ * model store; url points at the published weights for reference.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelConfig } from './models';
+
+const MLC_BASE_URL = 'https://huggingface.co/mlc-ai';
+
+export const WEBLLM_MODELS: Record<string, ModelConfig> = {
+  llama31_8b: {
+    id: 'llama31_8b',
+    url: `${MLC_BASE_URL}/Llama-3.1-8B-Instruct-q4f32_1-MLC`,
+    name: 'Llama 3.1 8B',
+    description: 'Meta Llama 3.1 - large general-purpose text model',
+    type: 'text-generation',
+    format: 'mlc',
+    quantization: 'q4f32_1',
+    size: 4.8 * 1024 * 1024 * 1024, // 4.8 GB
+    version: '1',
+    sha256: null,
+    capabilities: ['text'],
+    contextWindow: 4096,
+    chatTemplate: 'llama3',
+    parameters: 8_000_000_000,
+    icon: '▲',
+    backend: 'webllm',
+    mlcModelId: 'Llama-3.1-8B-Instruct-q4f32_1-MLC',
+    recommended: {
+      device: 'webgpu',
+      fallback: 'wasm',
+      minMemory: 6.0 * 1024 * 1024 * 1024, // 6.0 GB VRAM
+    },
+  },
+  phi3_mini: {
+    id: 'phi3_mini',
+    url: `${MLC_BASE_URL}/Phi-3-mini-4k-instruct-q4f16_1-MLC`,
+    name: 'Phi-3 Mini',
+    description: 'Microsoft Phi-3 Mini - strong reasoning for its size',
+    type: 'text-generation',
+    format: 'mlc',
+    quantization: 'q4f16_1',
+    size: 2.3 * 1024 * 1024 * 1024, // 2.3 GB
+    version: '1',
+    sha256: null,
+    capabilities: ['text'],
+    contextWindow: 4096,
+    chatTemplate: 'phi3',
+    parameters: 3_800_000_000,
+    icon: '■',
+    backend: 'webllm',
+    mlcModelId: 'Phi-3-mini-4k-instruct-q4f16_1-MLC',
+    recommended: {
+      device: 'webgpu',
+      fallback: 'wasm',
+      minMemory: 3.6 * 1024 * 1024 * 1024, // 3.6 GB VRAM
+    },
+  },
+  gemma2_2b: {
+    id: 'gemma2_2b',
+    url: `${MLC_BASE_URL}/gemma-2-2b-it-q4f16_1-MLC`,
+    name: 'Gemma 2 2B',
+    description: 'Google Gemma 2 2B - compact text model',
+    type: 'text-generation',
+    format: 'mlc',
+    quantization: 'q4f16_1',
+    size: 1.5 * 1024 * 1024 * 1024, // 1.5 GB
+    version: '1',
+    sha256: null,
+    capabilities: ['text'],
+    contextWindow: 4096,
+    chatTemplate: 'gemma',
+    parameters: 2_600_000_000,
+    icon: '◇',
+    backend: 'webllm',
+    mlcModelId: 'gemma-2-2b-it-q4f16_1-MLC',
+    recommended: {
+      device: 'webgpu',
+      fallback: 'wasm',
+      minMemory: 1.9 * 1024 * 1024 * 1024, // 1.9 GB VRAM
+    },
+  },
+};
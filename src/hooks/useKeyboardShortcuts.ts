@@ -59,6 +59,6 @@ export const getShortcutsDocumentation = () => [
   { keys: 'Ctrl + Enter', description: 'Send message' },
   { keys: 'Ctrl + K', description: 'Clear conversation' },
   { keys: 'Ctrl + /', description: 'Toggle settings' },
-  { keys: 'Esc', description: 'Close modal/settings' },
+  { keys: 'Esc', description: 'Close modal/settings or stop generating' },
   { keys: 'Shift + Enter', description: 'New line in message' },
 ];
@@ -4,7 +4,9 @@
  * @author Dr. Ernesto Lee
  */
 
-import type { InferenceEngine } from './InferenceEngine';
+import type { InferenceEngineAPI } from './InferenceEngine';
+import { isAbortError } from '../utils/abort';
+import { streamMultimodal, type StreamProgressCallback } from '../utils/streamMultimodal';
 
 export interface TranscriptionResult {
   text: string;
@@ -29,22 +31,27 @@ export interface AnalysisResult {
 }
 
 export class AudioService {
-  private inferenceEngine: InferenceEngine;
+  private inferenceEngine: InferenceEngineAPI;
 
-  constructor(inferenceEngine: InferenceEngine) {
+  constructor(inferenceEngine: InferenceEngineAPI) {
     this.inferenceEngine = inferenceEngine;
   }
 
   /**
    * Transcribe audio using Gemma 3n native ASR
    */
-  async transcribeWithGemma(audioSource: string): Promise<TranscriptionResult> {
+  async transcribeWithGemma(
+    audioSource: string,
+    signal?: AbortSignal,
+    onProgress?: StreamProgressCallback
+  ): Promise<TranscriptionResult> {
     console.log('🎤 Transcribing audio with Gemma 3n...');
 
     const startTime = Date.now();
 
     try {
-      const result = await this.inferenceEngine.generateMultimodal(
+      const result = await streamMultimodal(
+        this.inferenceEngine,
         [
           { text: 'Please transcribe the speech in this audio file. Provide only the transcription text, nothing else.' },
           { audioSource },
@@ -53,8 +60,10 @@ export class AudioService {
           maxTokens: 512,
           temperature: 0.3, // Lower temperature for more accurate transcription
           topP: 0.9,
-          streamTokens: false,
-        }
+          streamTokens: true,
+          signal,
+        },
+        onProgress
       );
 
       const duration = (Date.now() - startTime) / 1000;
@@ -64,6 +73,9 @@ export class AudioService {
         duration,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Gemma transcription failed:', error);
       throw new Error(`Transcription failed: ${error}`);
     }
@@ -72,11 +84,14 @@ export class AudioService {
   /**
    * Translate audio between languages using Gemma 3n
    * Supports: English ↔ Spanish, French, Italian, Portuguese
+   * onProgress reports the transcription as it streams
    */
   async translateAudio(
     audioSource: string,
     sourceLanguage: string,
-    targetLanguage: string
+    targetLanguage: string,
+    signal?: AbortSignal,
+    onProgress?: StreamProgressCallback
   ): Promise<TranslationResult> {
     console.log(`🌐 Translating audio from ${sourceLanguage} to ${targetLanguage}...`);
 
@@ -95,7 +110,8 @@ export class AudioService {
 
     try {
       // First, get the transcription in original language
-      const transcriptionResult = await this.inferenceEngine.generateMultimodal(
+      const transcriptionResult = await streamMultimodal(
+        this.inferenceEngine,
         [
           {
             text: `Transcribe the speech in this ${sourceLang} audio file. Provide only the transcription, nothing else.`,
@@ -106,8 +122,10 @@ export class AudioService {
           maxTokens: 512,
           temperature: 0.3,
           topP: 0.9,
-          streamTokens: false,
-        }
+          streamTokens: true,
+          signal,
+        },
+        onProgress
       );
 
       const originalText = transcriptionResult.text.trim();
@@ -120,6 +138,7 @@ export class AudioService {
           temperature: 0.3,
           topP: 0.9,
           streamTokens: false,
+          signal,
         }
       );
 
@@ -133,6 +152,9 @@ export class AudioService {
         duration,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Audio translation failed:', error);
       throw new Error(`Translation failed: ${error}`);
     }
@@ -144,7 +166,9 @@ export class AudioService {
    */
   async analyzeAudio(
     audioSource: string,
-    analysisType: 'speech' | 'sounds' | 'emotion' | 'scene'
+    analysisType: 'speech' | 'sounds' | 'emotion' | 'scene',
+    signal?: AbortSignal,
+    onProgress?: StreamProgressCallback
   ): Promise<AnalysisResult> {
     console.log(`🔍 Analyzing audio (${analysisType})...`);
 
@@ -161,14 +185,17 @@ export class AudioService {
     };
 
     try {
-      const result = await this.inferenceEngine.generateMultimodal(
+      const result = await streamMultimodal(
+        this.inferenceEngine,
         [{ text: prompts[analysisType] }, { audioSource }],
         {
           maxTokens: 512,
           temperature: 0.7,
           topP: 0.9,
-          streamTokens: false,
-        }
+          streamTokens: true,
+          signal,
+        },
+        onProgress
       );
 
       const duration = (Date.now() - startTime) / 1000;
@@ -183,6 +210,9 @@ export class AudioService {
         duration,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Audio analysis failed:', error);
       throw new Error(`Analysis failed: ${error}`);
     }
@@ -0,0 +1,176 @@
+/**
+ * Backend Manager
+ * Routes inference to the backend that runs the loaded model (MediaPipe or WebLLM)
+ * behind one LLMBackend, so the app and services don't care which is active
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import { getModelBackend, type ModelConfig } from '../config/models';
+import type { BackendId, GenerationOptions, ModelLoadProgress } from '../types';
+import type { GenerationResult, InferenceEngineAPI, MultimodalInput } from './InferenceEngine';
+import type { BackendCapabilities, LLMBackend, TokenCallback } from './LLMBackend';
+import type { ResidencyPolicy } from './EnginePool';
+import { inferenceEngine } from './InferenceEngineProxy';
+import { ModelLoader } from './ModelLoader';
+import { webllmEngine } from './WebLLMEngine';
+import { tokenizerService } from './TokenizerService';
+
+export class BackendManager implements InferenceEngineAPI, LLMBackend {
+  private backends: Record<BackendId, LLMBackend> = {
+    mediapipe: inferenceEngine,
+    webllm: webllmEngine,
+  };
+  private activeId: BackendId = 'mediapipe';
+
+  constructor() {
+    // Loaded models' files must not be evicted
+    ModelLoader.addInUseModels(() => this.getResidentModelIds());
+  }
+
+  get id(): BackendId {
+    return this.activeId;
+  }
+
+  get name(): string {
+    return this.active.name;
+  }
+
+  /**
+   * Backend by ID (e.g. to show its capabilities before switching)
+   */
+  getBackend(id: BackendId): LLMBackend {
+    return this.backends[id];
+  }
+
+  private get active(): LLMBackend {
+    return this.backends[this.activeId];
+  }
+
+  /**
+   * Load a model on the backend that runs it
+   * The other backend is unloaded first so only one model holds GPU memory.
+   */
+  async initialize(
+    config: ModelConfig,
+    options?: GenerationOptions,
+    onProgress?: (progress: ModelLoadProgress) => void
+  ): Promise<void> {
+    const backendId = getModelBackend(config);
+
+    if (backendId !== this.activeId && this.active.isLoaded()) {
+      console.log(`🔀 Switching backend: ${this.active.name} → ${this.backends[backendId].name}`);
+      await this.active.unload();
+    }
+
+    this.activeId = backendId;
+    tokenizerService.setCounter(null);
+    await this.active.initialize(config, options, onProgress);
+
+    // MediaPipe can count tokens with the loaded model; WebLLM counts are estimated
+    if (backendId === 'mediapipe') {
+      tokenizerService.setCounter((texts) => inferenceEngine.countTokens(texts));
+    }
+  }
+
+  generate(...args: Parameters<LLMBackend['generate']>): Promise<GenerationResult> {
+    return this.active.generate(...args);
+  }
+
+  generateStreaming(...args: Parameters<LLMBackend['generateStreaming']>): Promise<void> {
+    return this.active.generateStreaming(...args);
+  }
+
+  async generateMultimodal(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    imageResolution?: string
+  ): Promise<GenerationResult> {
+    this.assertMultimodal();
+    return inferenceEngine.generateMultimodal(inputs, options, imageResolution);
+  }
+
+  async generateMultimodalStreaming(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    onToken: TokenCallback,
+    imageResolution?: string
+  ): Promise<void> {
+    this.assertMultimodal();
+    return inferenceEngine.generateMultimodalStreaming(inputs, options, onToken, imageResolution);
+  }
+
+  unload(): Promise<void> {
+    tokenizerService.setCounter(null);
+    return this.active.unload();
+  }
+
+  /**
+   * Load and warm up a MediaPipe model in the background, keeping it resident
+   * for an instant switch if the residency policy allows
+   * @returns Whether the model is now resident
+   */
+  async preload(config: ModelConfig, options?: GenerationOptions): Promise<boolean> {
+    if (getModelBackend(config) !== 'mediapipe') return false;
+    if (this.activeId !== 'mediapipe' && this.active.isLoaded()) return false;
+    return inferenceEngine.preload(config, options);
+  }
+
+  /**
+   * Set how many MediaPipe models stay loaded for instant switching
+   * (WebLLM keeps one model at a time)
+   */
+  setResidencyPolicy(policy: ResidencyPolicy): Promise<void> {
+    return inferenceEngine.setPolicy(policy);
+  }
+
+  /**
+   * IDs of the loaded models, most recently used first
+   */
+  getResidentModelIds(): string[] {
+    if (this.activeId === 'mediapipe') {
+      return inferenceEngine.getResidentModelIds();
+    }
+    const config = this.active.getConfig();
+    return config ? [config.id] : [];
+  }
+
+  /**
+   * Whether a model is loaded and can be switched to instantly
+   */
+  isResident(modelId: string): boolean {
+    return this.getResidentModelIds().includes(modelId);
+  }
+
+  /**
+   * Unload a resident model other than the active one
+   */
+  unloadModel(modelId: string): Promise<void> {
+    return this.activeId === 'mediapipe' ? inferenceEngine.unloadModel(modelId) : Promise.resolve();
+  }
+
+  isLoaded(): boolean {
+    return this.active.isLoaded();
+  }
+
+  isMultimodal(): boolean {
+    return this.activeId === 'mediapipe' && inferenceEngine.isMultimodal();
+  }
+
+  getConfig(): ModelConfig | null {
+    return this.active.getConfig();
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return this.active.getCapabilities();
+  }
+
+  private assertMultimodal(): void {
+    if (!this.active.getCapabilities().multimodal) {
+      throw new Error(`${this.active.name} models can't read images, audio or video. Switch to a MediaPipe model to attach media.`);
+    }
+  }
+}
+
+// Singleton instance
+export const llmBackend = new BackendManager();
@@ -0,0 +1,239 @@
+/**
+ * Conversation Storage Service
+ * Persists conversations (messages, versions, variations, pins, summaries) to IndexedDB
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import { openDB, type IDBPDatabase } from 'idb';
+import type { Conversation, Message } from '../types';
+
+const DB_NAME = 'browsergpt-conversations';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const META_STORE = 'meta';
+
+/**
+ * Schema version of the stored conversation records.
+ * Bump this and add an entry to CONVERSATION_MIGRATIONS whenever
+ * the shape of `Conversation` or `Message` changes.
+ */
+export const CONVERSATION_SCHEMA_VERSION = 1;
+
+export interface StoredConversation {
+  id: string;
+  schemaVersion: number;
+  conversation: Conversation;
+}
+
+/**
+ * Migration hooks keyed by the schema version they upgrade TO.
+ * Each hook receives a record at version (key - 1) and must return it at version (key).
+ */
+export const CONVERSATION_MIGRATIONS: Record<number, (conversation: any) => any> = {};
+
+/**
+ * Upgrade a stored record to the current schema version
+ * Returns null if the record was written by a newer app version
+ */
+export function migrateStoredConversation(record: StoredConversation): StoredConversation | null {
+  if (record.schemaVersion > CONVERSATION_SCHEMA_VERSION) {
+    return null;
+  }
+
+  let conversation = record.conversation;
+  for (let version = record.schemaVersion + 1; version <= CONVERSATION_SCHEMA_VERSION; version++) {
+    const migrate = CONVERSATION_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Missing conversation migration to schema version ${version}`);
+    }
+    conversation = migrate(conversation);
+  }
+
+  return {
+    id: record.id,
+    schemaVersion: CONVERSATION_SCHEMA_VERSION,
+    conversation: reviveConversation(conversation),
+  };
+}
+
+/**
+ * Restore Date fields (records imported from JSON carry ISO strings)
+ */
+function reviveConversation(conversation: Conversation): Conversation {
+  return {
+    ...conversation,
+    createdAt: new Date(conversation.createdAt),
+    updatedAt: new Date(conversation.updatedAt),
+    messages: conversation.messages.map((msg: Message) => ({
+      ...msg,
+      timestamp: new Date(msg.timestamp),
+    })),
+  };
+}
+
+export class ConversationStorage {
+  private db: IDBPDatabase | null = null;
+  private opening: Promise<void> | null = null;
+  private pendingWrites: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private pendingConversations: Map<string, Conversation> = new Map();
+  private readonly WRITE_DELAY = 500; // ms - coalesces streaming token updates
+
+  /**
+   * Open the database (once: concurrent callers share the connection)
+   */
+  initialize(): Promise<void> {
+    this.opening ??= openDB(DB_NAME, DB_VERSION, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      },
+    }).then(
+      (db) => {
+        this.db = db;
+      },
+      (error) => {
+        this.opening = null; // Let the next call try again
+        throw error;
+      }
+    );
+    return this.opening;
+  }
+
+  /**
+   * Load all conversations, migrating older records in place
+   */
+  async loadAll(): Promise<Record<string, Conversation>> {
+    if (!this.db) await this.initialize();
+
+    const records: StoredConversation[] = await this.db!.getAll(CONVERSATIONS_STORE);
+    const conversations: Record<string, Conversation> = {};
+
+    for (const record of records) {
+      try {
+        const migrated = migrateStoredConversation(record);
+        if (!migrated) {
+          console.warn(`Skipping conversation ${record.id}: written by a newer schema (v${record.schemaVersion})`);
+          continue;
+        }
+
+        if (migrated.schemaVersion !== record.schemaVersion) {
+          await this.db!.put(CONVERSATIONS_STORE, migrated);
+          console.log(`🔄 Migrated conversation ${record.id} to schema v${migrated.schemaVersion}`);
+        }
+
+        conversations[migrated.id] = migrated.conversation;
+      } catch (error) {
+        // Leave the original record untouched so no data is lost
+        console.error(`Failed to load conversation ${record.id}:`, error);
+      }
+    }
+
+    return conversations;
+  }
+
+  /**
+   * Save a conversation immediately (never rejects: write errors are logged)
+   */
+  async save(conversation: Conversation): Promise<void> {
+    const record: StoredConversation = {
+      id: conversation.id,
+      schemaVersion: CONVERSATION_SCHEMA_VERSION,
+      conversation,
+    };
+
+    try {
+      if (!this.db) await this.initialize();
+      await this.db!.put(CONVERSATIONS_STORE, record);
+    } catch (error) {
+      console.error('Conversation write error:', error);
+    }
+  }
+
+  /**
+   * Save a conversation after a short delay, coalescing rapid updates
+   */
+  scheduleSave(conversation: Conversation): void {
+    this.pendingConversations.set(conversation.id, conversation);
+
+    const existing = this.pendingWrites.get(conversation.id);
+    if (existing) clearTimeout(existing);
+
+    this.pendingWrites.set(
+      conversation.id,
+      setTimeout(() => {
+        this.pendingWrites.delete(conversation.id);
+        const latest = this.pendingConversations.get(conversation.id);
+        this.pendingConversations.delete(conversation.id);
+        if (latest) this.save(latest);
+      }, this.WRITE_DELAY)
+    );
+  }
+
+  /**
+   * Write all scheduled saves now (e.g. when the page is hidden)
+   */
+  async flush(): Promise<void> {
+    const conversations = Array.from(this.pendingConversations.values());
+    this.pendingWrites.forEach((timer) => clearTimeout(timer));
+    this.pendingWrites.clear();
+    this.pendingConversations.clear();
+    await Promise.all(conversations.map((conversation) => this.save(conversation)));
+  }
+
+  /**
+   * Delete a conversation
+   */
+  async delete(id: string): Promise<void> {
+    const timer = this.pendingWrites.get(id);
+    if (timer) clearTimeout(timer);
+    this.pendingWrites.delete(id);
+    this.pendingConversations.delete(id);
+
+    try {
+      if (!this.db) await this.initialize();
+      await this.db!.delete(CONVERSATIONS_STORE, id);
+    } catch (error) {
+      console.error('Conversation delete error:', error);
+    }
+  }
+
+  /**
+   * Get the last active conversation ID
+   */
+  async getCurrentConversationId(): Promise<string | null> {
+    if (!this.db) await this.initialize();
+    return (await this.db!.get(META_STORE, 'currentConversationId')) ?? null;
+  }
+
+  /**
+   * Remember the active conversation ID across reloads
+   */
+  async setCurrentConversationId(id: string | null): Promise<void> {
+    try {
+      if (!this.db) await this.initialize();
+      await this.db!.put(META_STORE, id, 'currentConversationId');
+    } catch (error) {
+      console.error('Conversation meta write error:', error);
+    }
+  }
+
+  /**
+   * Clear all stored conversations
+   */
+  async clear(): Promise<void> {
+    if (!this.db) await this.initialize();
+    const tx = this.db!.transaction([CONVERSATIONS_STORE, META_STORE], 'readwrite');
+    await tx.objectStore(CONVERSATIONS_STORE).clear();
+    await tx.objectStore(META_STORE).clear();
+    await tx.done;
+    console.log('🗑️ Conversation history cleared');
+  }
+}
+
+// Singleton instance
+export const conversationStorage = new ConversationStorage();
@@ -5,7 +5,7 @@
  * @author Dr. Ernesto Lee
  */
 
-import type { ModelId } from '../config/models';
+import { findModelConfig, type BuiltInModelId, type ModelId } from '../config/models';
 
 export class EasterEggService {
   private devModeCounter = 0;
@@ -29,7 +29,7 @@ export class EasterEggService {
    * Get model personality response
    */
   getModelPersonality(modelId: ModelId): string {
-    const personalities: Record<ModelId, string> = {
+    const personalities: Record<BuiltInModelId, string> = {
       gemma270m: `⚡ **CAESAR 270M** here!
 
 I'm the speedster of the family - lightning-fast, efficient, and perfect for quick conversations. Think of me as your rapid-response assistant.
@@ -98,7 +98,22 @@ I represent the pinnacle of what's possible in-browser. Advanced reasoning, enha
 Ready for some serious AI collaboration? Let's dive deep!`
     };
 
-    return personalities[modelId] || personalities['gemma3nE2B'];
+    if (modelId in personalities) {
+      return personalities[modelId as BuiltInModelId];
+    }
+
+    // Custom models describe themselves from their registration
+    const config = findModelConfig(modelId);
+    if (!config) return personalities['gemma3nE2B'];
+
+    return `${config.icon} **${config.name}** here!
+
+I'm a custom model running entirely in your browser.
+
+**My Stats:**
+• ${config.format === 'task' ? 'MediaPipe .task' : 'LiteRT-LM'} model
+• Capabilities: ${config.capabilities.join(', ')}
+• ${config.contextWindow.toLocaleString()} token context window`;
   }
 
   /**
@@ -0,0 +1,248 @@
+/**
+ * Engine Pool
+ * Keeps several MediaPipe models resident, each in its own InferenceEngine, so
+ * switching between them is instant. Models are evicted least recently used
+ * first when the residency policy's memory budget or model limit is exceeded.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelConfig } from '../config/models';
+import type { GenerationOptions } from '../types';
+import {
+  InferenceEngine,
+  MEDIAPIPE_CAPABILITIES,
+  type GenerationResult,
+  type InferenceEngineAPI,
+  type InferenceEngineOptions,
+  type MultimodalInput,
+} from './InferenceEngine';
+import type { BackendCapabilities, LLMBackend, TokenCallback } from './LLMBackend';
+
+/**
+ * How many models may stay loaded at once
+ */
+export interface ResidencyPolicy {
+  maxModels: number; // 1 = only the active model
+  memoryBudget: number; // Bytes; resident models' recommended.minMemory must fit
+}
+
+interface ResidentEngine {
+  config: ModelConfig;
+  engine: InferenceEngine;
+  lastUsed: number;
+}
+
+const DEFAULT_POLICY: ResidencyPolicy = {
+  maxModels: 1,
+  memoryBudget: Infinity,
+};
+
+export class EnginePool implements InferenceEngineAPI, LLMBackend {
+  readonly id = 'mediapipe';
+  readonly name = 'MediaPipe';
+  private engines = new Map<string, ResidentEngine>();
+  private activeModelId: string | null = null;
+  private policy: ResidencyPolicy = DEFAULT_POLICY;
+  private engineOptions: InferenceEngineOptions;
+
+  constructor(options: InferenceEngineOptions = {}) {
+    this.engineOptions = options;
+  }
+
+  /**
+   * Change the residency policy; models over the new limits are evicted
+   */
+  async setPolicy(policy: ResidencyPolicy): Promise<void> {
+    this.policy = { maxModels: Math.max(1, policy.maxModels), memoryBudget: policy.memoryBudget };
+    await this.evictFor(0, this.activeModelId);
+  }
+
+  /**
+   * Activate a model, loading it unless it is already resident
+   * If loading fails with other models resident, they are evicted and the load retried once.
+   */
+  async initialize(config: ModelConfig, options?: GenerationOptions): Promise<void> {
+    const resident = this.engines.get(config.id);
+    if (resident && resident.config.version === config.version) {
+      console.log(`⚡ ${config.name} is resident, switching instantly`);
+      resident.lastUsed = Date.now();
+      this.activeModelId = config.id;
+      return;
+    }
+    if (resident) {
+      await this.unloadModel(config.id);
+    }
+
+    await this.evictFor(config.recommended.minMemory, null);
+
+    try {
+      await this.load(config, options);
+    } catch (error) {
+      if (this.engines.size === 0) {
+        throw error;
+      }
+      console.warn(`⚠️ Loading ${config.name} failed with other models resident, evicting them and retrying`);
+      await this.unload();
+      await this.load(config, options);
+    }
+    this.activeModelId = config.id;
+  }
+
+  /**
+   * Load a model next to the active one and warm it up, so switching to it is instant
+   * @returns false if it doesn't fit the policy without evicting the active model
+   */
+  async preload(config: ModelConfig, options?: GenerationOptions): Promise<boolean> {
+    let resident = this.engines.get(config.id);
+    if (resident && resident.config.version !== config.version) {
+      await this.unloadModel(config.id);
+      resident = undefined;
+    }
+
+    if (!resident) {
+      await this.evictFor(config.recommended.minMemory, this.activeModelId);
+      if (!this.fits(config.recommended.minMemory)) {
+        console.log(`⏭️ Not preloading ${config.name}: it doesn't fit next to the active model`);
+        return false;
+      }
+      resident = await this.load(config, options);
+    }
+
+    await resident.engine.warmUp();
+    return true;
+  }
+
+  private async load(config: ModelConfig, options?: GenerationOptions): Promise<ResidentEngine> {
+    const engine = new InferenceEngine(this.engineOptions);
+    await engine.initialize(config, options);
+    const resident: ResidentEngine = { config, engine, lastUsed: Date.now() };
+    this.engines.set(config.id, resident);
+    console.log(`🧠 Resident models: ${this.getResidentModelIds().join(', ')}`);
+    return resident;
+  }
+
+  /**
+   * Evict least recently used models until `bytes` more fit the policy
+   * @param keepId - Model that must stay (the active one when tightening the policy)
+   */
+  private async evictFor(bytes: number, keepId: string | null): Promise<void> {
+    const candidates = [...this.engines.values()]
+      .filter((resident) => resident.config.id !== keepId)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    for (const resident of candidates) {
+      if (this.fits(bytes)) break;
+
+      console.log(`🗑️ Evicting ${resident.config.name} (least recently used)`);
+      await this.unloadModel(resident.config.id);
+    }
+  }
+
+  /**
+   * Whether a model needing `bytes` (0 = none) fits next to the resident ones
+   */
+  private fits(bytes: number): boolean {
+    const slotsNeeded = bytes > 0 ? 1 : 0;
+    return (
+      this.engines.size + slotsNeeded <= this.policy.maxModels &&
+      this.residentMemory() + bytes <= this.policy.memoryBudget
+    );
+  }
+
+  private residentMemory(): number {
+    let total = 0;
+    this.engines.forEach((resident) => {
+      total += resident.config.recommended.minMemory;
+    });
+    return total;
+  }
+
+  private get active(): InferenceEngine {
+    const resident = this.activeModelId ? this.engines.get(this.activeModelId) : undefined;
+    if (!resident) {
+      throw new Error('Model not initialized');
+    }
+    resident.lastUsed = Date.now();
+    return resident.engine;
+  }
+
+  generate(...args: Parameters<InferenceEngine['generate']>): Promise<GenerationResult> {
+    return this.active.generate(...args);
+  }
+
+  generateStreaming(...args: Parameters<InferenceEngine['generateStreaming']>): Promise<void> {
+    return this.active.generateStreaming(...args);
+  }
+
+  generateMultimodal(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    imageResolution?: string
+  ): Promise<GenerationResult> {
+    return this.active.generateMultimodal(inputs, options, imageResolution);
+  }
+
+  generateMultimodalStreaming(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    onToken: TokenCallback,
+    imageResolution?: string
+  ): Promise<void> {
+    return this.active.generateMultimodalStreaming(inputs, options, onToken, imageResolution);
+  }
+
+  /**
+   * Exact token counts from the active model's tokenizer
+   */
+  async countTokens(texts: string[]): Promise<Array<number | null>> {
+    const resident = this.activeModelId ? this.engines.get(this.activeModelId) : undefined;
+    return resident ? resident.engine.countTokens(texts) : texts.map(() => null);
+  }
+
+  /**
+   * Unload one resident model
+   */
+  async unloadModel(modelId: string): Promise<void> {
+    const resident = this.engines.get(modelId);
+    if (!resident) return;
+
+    this.engines.delete(modelId);
+    if (this.activeModelId === modelId) {
+      this.activeModelId = null;
+    }
+    await resident.engine.unload();
+  }
+
+  /**
+   * Unload every resident model
+   */
+  async unload(): Promise<void> {
+    for (const modelId of [...this.engines.keys()]) {
+      await this.unloadModel(modelId);
+    }
+  }
+
+  /**
+   * IDs of the loaded models, most recently used first
+   */
+  getResidentModelIds(): string[] {
+    return [...this.engines.values()].sort((a, b) => b.lastUsed - a.lastUsed).map((resident) => resident.config.id);
+  }
+
+  isLoaded(): boolean {
+    return this.activeModelId !== null;
+  }
+
+  isMultimodal(): boolean {
+    return (this.getConfig()?.capabilities.length ?? 0) > 1;
+  }
+
+  getConfig(): ModelConfig | null {
+    return (this.activeModelId && this.engines.get(this.activeModelId)?.config) || null;
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return { ...MEDIAPIPE_CAPABILITIES, offMainThread: typeof window === 'undefined' };
+  }
+}
@@ -7,6 +7,7 @@
 
 import type { Conversation } from '../types';
 import { getModelConfig, type ModelId } from '../config/models';
+import { functionService } from './FunctionService';
 
 export class ExportService {
   /**
@@ -29,8 +30,7 @@ export class ExportService {
       })),
     };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    this.downloadFile(blob, `conversation-${conversation.id}.json`);
+    this.downloadFile(JSON.stringify(data, null, 2), 'application/json', `conversation-${conversation.id}.json`);
   }
 
   /**
@@ -64,8 +64,7 @@ export class ExportService {
       }
     });
 
-    const blob = new Blob([markdown], { type: 'text/markdown' });
-    this.downloadFile(blob, `conversation-${conversation.id}.md`);
+    this.downloadFile(markdown, 'text/markdown', `conversation-${conversation.id}.md`);
   }
 
   /**
@@ -93,8 +92,7 @@ export class ExportService {
       }
     });
 
-    const blob = new Blob([text], { type: 'text/plain' });
-    this.downloadFile(blob, `conversation-${conversation.id}.txt`);
+    this.downloadFile(text, 'text/plain', `conversation-${conversation.id}.txt`);
   }
 
   /**
@@ -262,14 +260,15 @@ export class ExportService {
 </body>
 </html>`;
 
-    const blob = new Blob([html], { type: 'text/html' });
-    this.downloadFile(blob, `conversation-${conversation.id}.html`);
+    this.downloadFile(html, 'text/html', `conversation-${conversation.id}.html`);
   }
 
   /**
    * Download file
+   * Function API keys and header values are redacted, should a tool result echo one.
    */
-  private downloadFile(blob: Blob, filename: string): void {
+  private downloadFile(content: string, type: string, filename: string): void {
+    const blob = new Blob([functionService.redactSecrets(content)], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
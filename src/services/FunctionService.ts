@@ -1,11 +1,44 @@
 /**
  * Function Calling Service
  * Manages AI function calling capabilities
+ * Custom functions are saved in localStorage; their API keys and auth-bearing
+ * headers (see isSecretHeader) are kept in the encrypted secret vault instead.
  *
  * @author Dr. Ernesto Lee
  */
 
-import type { FunctionDefinition, FunctionCall, FunctionResult } from '../types';
+import type {
+  FunctionDefinition,
+  FunctionCall,
+  FunctionExecutionContext,
+  FunctionResult,
+  OpenApiImportPreview,
+  OpenApiSpecSource,
+  ParameterValidationResult,
+} from '../types';
+import { isAbortError, raceWithSignal } from '../utils/abort';
+import { operationsToFunctions, parseOpenApiDocument, slugify } from '../utils/openApi';
+import { applyResponseMapping } from '../utils/jsonPath';
+import { getParameterSchema, validateJsonSchema } from '../utils/jsonSchema';
+import { secretVault, type FunctionSecrets } from './SecretVault';
+import { scriptSandbox } from './ScriptSandbox';
+
+const STORAGE_KEY = 'browsergpt-custom-functions';
+
+// Shorter values could match ordinary text when redacting exports
+const MIN_REDACTED_LENGTH = 4;
+
+// Headers that carry credentials; others (Accept, Content-Type, ...) are plain settings
+const SECRET_HEADER_NAMES = ['authorization', 'proxy-authorization', 'cookie'];
+const SECRET_HEADER_PATTERN = /auth|token|key|secret|session|passw|signature|credential/i;
+
+/**
+ * Custom functions and imported specs as saved (without secrets)
+ */
+interface StoredFunctions {
+  functions: FunctionDefinition[];
+  openApiSpecs: OpenApiSpecSource[];
+}
 
 /**
  * Get current weather using OpenMeteo API
@@ -641,12 +674,15 @@ export const BUILT_IN_FUNCTIONS: FunctionDefinition[] = [
 
 export class FunctionService {
   private functions: Map<string, FunctionDefinition> = new Map();
+  private openApiSpecs: Map<string, OpenApiSpecSource> = new Map();
 
   constructor() {
     // Load built-in functions
     BUILT_IN_FUNCTIONS.forEach((func) => {
       this.functions.set(func.id, func);
     });
+
+    this.loadCustomFunctions();
   }
 
   /**
@@ -675,6 +711,10 @@ export class FunctionService {
    */
   setFunction(func: FunctionDefinition): void {
     this.functions.set(func.id, func);
+    if (!func.builtIn) {
+      this.persist();
+      this.saveSecrets(func);
+    }
   }
 
   /**
@@ -684,6 +724,8 @@ export class FunctionService {
     const func = this.functions.get(id);
     if (func && !func.builtIn) {
       this.functions.delete(id);
+      secretVault.removeSecrets(id);
+      this.persist();
       return true;
     }
     return false;
@@ -697,13 +739,279 @@ export class FunctionService {
     if (func) {
       func.enabled = enabled;
       this.functions.set(id, func);
+      if (!func.builtIn) {
+        this.persist();
+      }
+    }
+  }
+
+  /**
+   * Unlock the secret vault and restore the functions' API keys and headers
+   * Secrets entered while it was locked are merged into the stored ones.
+   */
+  async unlockSecrets(passphrase: string): Promise<void> {
+    await secretVault.unlock(passphrase);
+
+    const secrets = secretVault.getSecrets();
+    for (const func of this.getFunctions()) {
+      if (func.builtIn) continue;
+
+      const stored = secrets.get(func.id);
+      const entered = this.hasSecrets(func);
+      if (!stored && !entered) continue;
+
+      const merged: FunctionDefinition = {
+        ...func,
+        apiKey: func.apiKey || stored?.apiKey,
+        headers: func.headers || stored?.headers ? { ...stored?.headers, ...func.headers } : undefined,
+      };
+      if (entered) {
+        await secretVault.setSecrets(func.id, this.getSecrets(merged));
+      }
+      this.functions.set(func.id, merged);
+    }
+  }
+
+  /**
+   * Lock the secret vault and drop the secrets held in memory
+   */
+  lockSecrets(): void {
+    secretVault.lock();
+    this.getFunctions()
+      .filter((func) => !func.builtIn)
+      .forEach((func) => this.functions.set(func.id, this.withoutSecrets(func)));
+  }
+
+  /**
+   * Whether a function's secrets are in the vault but it is locked
+   */
+  hasLockedSecrets(id: string): boolean {
+    return !secretVault.isUnlocked() && secretVault.hasSecrets(id);
+  }
+
+  /**
+   * Whether any function's secrets are locked away (and so can't be redacted)
+   */
+  hasAnyLockedSecrets(): boolean {
+    return this.getFunctions().some((func) => !func.builtIn && this.hasLockedSecrets(func.id));
+  }
+
+  /**
+   * Replace API keys and header values in text (e.g. conversation exports)
+   * Secrets locked in the vault aren't known here; function results are
+   * redacted when the function runs, so they never hold its secrets.
+   */
+  redactSecrets(text: string): string {
+    return redactValues(text, this.getFunctions().flatMap((func) => this.getSecretValues(func)));
+  }
+
+  /**
+   * Every form a function's secrets are sent in
+   */
+  private getSecretValues(func: FunctionDefinition): string[] {
+    const values = [func.apiKey, ...Object.values(this.getSecrets(func).headers || {})];
+    if (func.auth?.type === 'basic' && func.apiKey) {
+      values.push(toBase64(`${func.auth.username}:${func.apiKey}`));
+    }
+    return values.filter((value): value is string => !!value && value.length >= MIN_REDACTED_LENGTH);
+  }
+
+  /**
+   * Redact secrets from every string in a function result
+   */
+  private redactResult(value: any, secrets: string[]): any {
+    if (typeof value === 'string') return redactValues(value, secrets);
+    if (Array.isArray(value)) return value.map((item) => this.redactResult(item, secrets));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactResult(item, secrets)])
+      );
+    }
+    return value;
+  }
+
+  private saveSecrets(func: FunctionDefinition): void {
+    if (!secretVault.isUnlocked()) {
+      if (this.hasSecrets(func)) {
+        console.warn(`⚠️ Secret vault is locked, secrets for ${func.name} are kept for this session only`);
+      }
+      return;
     }
+
+    secretVault.setSecrets(func.id, this.getSecrets(func)).catch((error) => {
+      console.error(`❌ Failed to save secrets for ${func.name}:`, error);
+    });
+  }
+
+  private getSecrets(func: FunctionDefinition): FunctionSecrets {
+    const headers = Object.entries(func.headers || {}).filter(([name]) => isSecretHeader(name, func));
+    return { apiKey: func.apiKey, headers: headers.length > 0 ? Object.fromEntries(headers) : undefined };
+  }
+
+  private hasSecrets(func: FunctionDefinition): boolean {
+    const secrets = this.getSecrets(func);
+    return !!secrets.apiKey || !!secrets.headers;
+  }
+
+  private withoutSecrets(func: FunctionDefinition): FunctionDefinition {
+    const { apiKey: _apiKey, headers: _headers, ...rest } = func;
+    const headers = Object.entries(func.headers || {}).filter(([name]) => !isSecretHeader(name, func));
+    return headers.length > 0 ? { ...rest, headers: Object.fromEntries(headers) } : rest;
+  }
+
+  private loadCustomFunctions(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return;
+
+    try {
+      const parsed = JSON.parse(saved) as StoredFunctions;
+      (parsed.functions || []).forEach((func) => this.functions.set(func.id, { ...func, builtIn: false }));
+      (parsed.openApiSpecs || []).forEach((spec) => this.openApiSpecs.set(spec.id, spec));
+    } catch (e) {
+      console.error('Failed to parse custom functions:', e);
+    }
+  }
+
+  private persist(): void {
+    const stored: StoredFunctions = {
+      functions: this.getFunctions()
+        .filter((func) => !func.builtIn)
+        .map((func) => this.withoutSecrets(func)),
+      openApiSpecs: this.getOpenApiSpecs(),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  /**
+   * Imported OpenAPI specs
+   */
+  getOpenApiSpecs(): OpenApiSpecSource[] {
+    return Array.from(this.openApiSpecs.values());
+  }
+
+  /**
+   * Work out the functions an OpenAPI spec defines, compared with those already
+   * imported from it (when re-syncing)
+   * @param specId - Spec being re-synced; a new spec gets an ID from its title
+   */
+  previewOpenApiImport(text: string, options: { url?: string; specId?: string } = {}): OpenApiImportPreview {
+    const document = parseOpenApiDocument(text);
+    const title = document.info?.title || 'Imported API';
+    const specId = options.specId || this.createSpecId(title);
+
+    const spec: OpenApiSpecSource = {
+      id: specId,
+      title,
+      version: document.info?.version || '',
+      url: options.url,
+      importedAt: Date.now(),
+    };
+
+    const existing = this.getSpecFunctions(specId);
+    const imported = operationsToFunctions(document, specId, options.url);
+
+    const operations: OpenApiImportPreview['operations'] = imported.map((func) => {
+      const previous = existing.find((candidate) => candidate.id === func.id);
+      const status = !previous ? 'new' : this.sameOperation(previous, func) ? 'unchanged' : 'changed';
+      return { operationKey: func.openApi!.operationKey, function: func, status };
+    });
+
+    existing
+      .filter((func) => !imported.some((candidate) => candidate.id === func.id))
+      .forEach((func) => operations.push({ operationKey: func.openApi!.operationKey, function: func, status: 'removed' }));
+
+    return { spec, operations };
+  }
+
+  /**
+   * Apply a previewed import: add new and changed operations, drop removed ones
+   * API keys, headers, Basic auth usernames and response mappings entered for
+   * earlier imports are kept.
+   * @returns IDs of the removed functions
+   */
+  applyOpenApiImport(preview: OpenApiImportPreview): string[] {
+    const removed: string[] = [];
+
+    preview.operations.forEach(({ function: func, status }) => {
+      if (status === 'removed') {
+        this.functions.delete(func.id);
+        removed.push(func.id);
+        return;
+      }
+
+      const previous = this.functions.get(func.id);
+      this.functions.set(func.id, {
+        ...func,
+        apiKey: previous?.apiKey,
+        headers: previous?.headers,
+        auth: previous?.auth?.type === 'basic' && func.auth?.type === 'basic' ? previous.auth : func.auth,
+        responseMapping: previous?.responseMapping,
+      });
+    });
+
+    removed.forEach((id) => secretVault.removeSecrets(id));
+    this.openApiSpecs.set(preview.spec.id, preview.spec);
+    this.persist();
+    console.log(`📥 Imported ${preview.spec.title}: ${preview.operations.length - removed.length} operations`);
+    return removed;
+  }
+
+  /**
+   * Remove an imported spec and its functions
+   * @returns IDs of the removed functions
+   */
+  removeOpenApiSpec(specId: string): string[] {
+    const removed = this.getSpecFunctions(specId).map((func) => func.id);
+    removed.forEach((id) => {
+      this.functions.delete(id);
+      secretVault.removeSecrets(id);
+    });
+    this.openApiSpecs.delete(specId);
+    this.persist();
+    return removed;
+  }
+
+  private getSpecFunctions(specId: string): FunctionDefinition[] {
+    return this.getFunctions().filter((func) => func.openApi?.specId === specId);
+  }
+
+  private createSpecId(title: string): string {
+    const base = slugify(title);
+    let specId = base;
+    for (let suffix = 2; this.openApiSpecs.has(specId); suffix++) {
+      specId = `${base}_${suffix}`;
+    }
+    return specId;
+  }
+
+  // The Basic auth username is entered by the user, not part of the spec
+  private authScheme(func: FunctionDefinition): string {
+    return func.auth?.type === 'basic' ? 'basic' : JSON.stringify(func.auth ?? null);
+  }
+
+  private sameOperation(a: FunctionDefinition, b: FunctionDefinition): boolean {
+    return (
+      a.name === b.name &&
+      a.description === b.description &&
+      a.endpoint === b.endpoint &&
+      a.method === b.method &&
+      this.authScheme(a) === this.authScheme(b) &&
+      JSON.stringify(a.parameters) === JSON.stringify(b.parameters)
+    );
   }
 
   /**
    * Execute a function call
+   * Aborting the signal rejects with an AbortError instead of returning a result
+   * @param context - The conversation so far, for JavaScript functions
    */
-  async executeFunction(call: FunctionCall): Promise<FunctionResult> {
+  async executeFunction(
+    call: FunctionCall,
+    signal?: AbortSignal,
+    context: FunctionExecutionContext = { conversation: [] }
+  ): Promise<FunctionResult> {
     const func = this.functions.get(call.functionId);
 
     if (!func) {
@@ -726,328 +1034,251 @@ export class FunctionService {
       };
     }
 
+    if (this.hasLockedSecrets(func.id) && !this.hasSecrets(func)) {
+      return {
+        functionId: call.functionId,
+        functionName: call.functionName,
+        success: false,
+        error: `The API key for ${call.functionName} is locked. Unlock the secret vault in Settings → Functions.`,
+        timestamp: new Date(),
+      };
+    }
+
     try {
       let result: any;
 
       if (func.handler) {
         // Built-in function with handler
-        result = await func.handler(call.parameters);
+        result = await raceWithSignal(func.handler(call.parameters), signal);
       } else if (func.endpoint) {
         // Custom function with HTTP endpoint
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json',
-          ...func.headers,
-        };
-
-        if (func.apiKey) {
-          headers['Authorization'] = `Bearer ${func.apiKey}`;
-        }
-
-        const response = await fetch(func.endpoint, {
+        const request = this.buildHttpRequest(func, call.parameters);
+        const response = await fetch(request.url, {
           method: func.method || 'POST',
-          headers,
-          body: func.method === 'GET' ? undefined : JSON.stringify(call.parameters),
+          headers: request.headers,
+          body: request.body,
+          signal,
         });
 
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
-        result = await response.json();
+        result = await this.readHttpResponse(func, response);
+      } else if (func.script) {
+        // JavaScript function, run in a sandboxed frame and worker
+        ({ result } = await scriptSandbox.run(func.script, call.parameters, context, func.scriptLimits, signal));
       } else {
-        throw new Error('Function has no handler or endpoint configured');
+        throw new Error('Function has no handler, endpoint or script configured');
       }
 
+      // Results are kept in the conversation; an echoed API key must not be
       return {
         functionId: call.functionId,
         functionName: call.functionName,
         success: true,
-        result,
+        result: this.redactResult(result, this.getSecretValues(func)),
         timestamp: new Date(),
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       return {
         functionId: call.functionId,
         functionName: call.functionName,
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: redactValues(error instanceof Error ? error.message : 'Unknown error', this.getSecretValues(func)),
         timestamp: new Date(),
       };
     }
   }
 
   /**
-   * Detect if user message might need a function call
-   * Returns the function to call if detected
-   *
-   * IMPROVED: Now detects all 7 built-in functions with smart pattern matching
+   * Fill the endpoint template and place each parameter where its location says:
+   * path placeholders ("{owner}"), query string, headers or the JSON body.
+   * Parameters without a location fill a matching placeholder, or go in the query
+   * string for GET/DELETE and the body otherwise. A header parameter named like the
+   * auth header is rejected rather than silently overwritten by the API key.
    */
-  detectFunctionCall(userMessage: string): FunctionCall | null {
-    const message = userMessage.toLowerCase();
-
-    // 1. WEATHER DETECTION
-    if (
-      (message.includes('weather') || message.includes('temperature') || message.includes('forecast') ||
-       message.includes('hot') || message.includes('cold') || message.includes('rain')) &&
-      this.functions.get('weather_openmeteo')?.enabled
-    ) {
-      const location = this.extractLocation(userMessage);
-      return {
-        functionId: 'weather_openmeteo',
-        functionName: 'Get Weather',
-        parameters: { location: location || 'New York' },
-        timestamp: new Date(),
-      };
-    }
+  private buildHttpRequest(
+    func: FunctionDefinition,
+    params: Record<string, any>
+  ): { url: string; headers: Record<string, string>; body?: string } {
+    const method = func.method || 'POST';
+    const sendsBody = method !== 'GET' && method !== 'DELETE';
+    const headers: Record<string, string> = { ...func.headers };
+    const authHeader = this.getAuthHeaderName(func)?.toLowerCase();
+    const locations = new Map(func.parameters.map((param) => [param.name, param.location]));
+    const query = new URLSearchParams();
+    const body: Record<string, any> = {};
+    let url = func.endpoint!;
+
+    Object.entries(params).forEach(([name, value]) => {
+      const location =
+        locations.get(name) || (url.includes(`{${name}}`) ? 'path' : sendsBody ? 'body' : 'query');
+
+      switch (location) {
+        case 'path':
+          url = url.split(`{${name}}`).join(encodeURIComponent(String(value)));
+          break;
+        case 'query':
+          (Array.isArray(value) ? value : [value]).forEach((item) =>
+            query.append(name, typeof item === 'object' ? JSON.stringify(item) : String(item))
+          );
+          break;
+        case 'header':
+          if (name.toLowerCase() === authHeader) {
+            throw new Error(
+              `The "${name}" header parameter conflicts with the function's ${func.auth?.type || 'bearer'} auth header`
+            );
+          }
+          headers[name] = String(value);
+          break;
+        default:
+          body[name] = value;
+      }
+    });
 
-    // 2. CURRENCY CONVERSION DETECTION
-    const currencyMatch = message.match(/convert\s+(\d+\.?\d*)\s*([a-z]{3})\s+(?:to|in|into)\s+([a-z]{3})/i) ||
-                         message.match(/(\d+\.?\d*)\s*([a-z]{3})\s+(?:to|in|into)\s+([a-z]{3})/i) ||
-                         message.match(/how\s+much\s+is\s+(\d+\.?\d*)\s*([a-z]{3})\s+in\s+([a-z]{3})/i);
-    if (currencyMatch && this.functions.get('currency_conversion')?.enabled) {
-      return {
-        functionId: 'currency_conversion',
-        functionName: 'Convert Currency',
-        parameters: {
-          amount: parseFloat(currencyMatch[1]),
-          from: currencyMatch[2].toUpperCase(),
-          to: currencyMatch[3].toUpperCase(),
-        },
-        timestamp: new Date(),
-      };
+    const unfilled = url.match(/\{([^}]+)\}/);
+    if (unfilled) {
+      throw new Error(`Missing value for the "${unfilled[1]}" path parameter`);
     }
 
-    // 3. COUNTRY INFO DETECTION
-    const countryPatterns = [
-      /(?:tell me about|info(?:rmation)? about|details? (?:on|about|for))\s+([a-z\s]+?)(?:\?|$)/i,
-      /(?:what|where) is\s+([a-z\s]+?)(?:\?|$)/i,
-      /(?:capital|population|language) of\s+([a-z\s]+?)(?:\?|$)/i,
-    ];
-    for (const pattern of countryPatterns) {
-      const countryMatch = message.match(pattern);
-      if (countryMatch && this.functions.get('country_info')?.enabled) {
-        const potentialCountry = countryMatch[1].trim();
-        // Common countries to detect
-        const countries = ['france', 'japan', 'brazil', 'germany', 'canada', 'mexico', 'italy', 'spain', 'australia', 'india', 'china', 'usa', 'uk', 'russia'];
-        if (countries.some(c => potentialCountry.includes(c))) {
-          return {
-            functionId: 'country_info',
-            functionName: 'Get Country Information',
-            parameters: { country: potentialCountry },
-            timestamp: new Date(),
-          };
-        }
-      }
-    }
+    this.applyAuth(func, headers, query);
 
-    // 4. CRYPTO PRICES DETECTION
-    const cryptoKeywords = ['bitcoin', 'ethereum', 'btc', 'eth', 'crypto', 'cryptocurrency', 'cardano', 'ada', 'dogecoin', 'doge'];
-    if (
-      (cryptoKeywords.some(k => message.includes(k)) &&
-       (message.includes('price') || message.includes('cost') || message.includes('worth') || message.includes('value'))) &&
-      this.functions.get('crypto_prices')?.enabled
-    ) {
-      // Extract coin names
-      const coins = cryptoKeywords.filter(k => message.includes(k)).join(',');
-      return {
-        functionId: 'crypto_prices',
-        functionName: 'Get Cryptocurrency Prices',
-        parameters: { coins: coins || 'bitcoin,ethereum', currency: 'usd' },
-        timestamp: new Date(),
-      };
+    const queryString = query.toString();
+    if (queryString) {
+      url += `${url.includes('?') ? '&' : '?'}${queryString}`;
     }
 
-    // 5. JOKE DETECTION
-    if (
-      (message.includes('joke') || message.includes('funny') || message.includes('humor') ||
-       message.includes('laugh') || message.includes('make me laugh')) &&
-      this.functions.get('random_joke')?.enabled
-    ) {
-      const category = message.includes('programming') ? 'Programming' : 'Any';
-      return {
-        functionId: 'random_joke',
-        functionName: 'Get Random Joke',
-        parameters: { category, type: 'single' },
-        timestamp: new Date(),
-      };
+    if (!sendsBody) {
+      return { url, headers };
     }
+    return { url, headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) };
+  }
 
-    // 6. HACKER NEWS DETECTION
-    if (
-      ((message.includes('hacker news') || message.includes('hn')) ||
-       (message.includes('tech') && (message.includes('news') || message.includes('stories')))) &&
-      this.functions.get('hacker_news')?.enabled
-    ) {
-      const limit = this.extractNumber(message) || 10;
-      return {
-        functionId: 'hacker_news',
-        functionName: 'Get Hacker News Stories',
-        parameters: { limit, type: 'top' },
-        timestamp: new Date(),
-      };
-    }
+  /**
+   * The header applyAuth writes the API key to, if it sends one in a header
+   */
+  private getAuthHeaderName(func: FunctionDefinition): string | undefined {
+    if (!func.apiKey) return undefined;
 
-    // 7. REDDIT NEWS DETECTION
-    const redditMatch = message.match(/(?:reddit|r\/|subreddit)\s*([a-z]+)/i);
-    if (
-      (message.includes('reddit') || redditMatch ||
-       (message.includes('news') && !message.includes('hacker'))) &&
-      this.functions.get('reddit_news')?.enabled
-    ) {
-      const subreddit = redditMatch ? redditMatch[1] : 'worldnews';
-      const limit = this.extractNumber(message) || 10;
-      return {
-        functionId: 'reddit_news',
-        functionName: 'Get Reddit News',
-        parameters: { subreddit, limit },
-        timestamp: new Date(),
-      };
+    const auth = func.auth || { type: 'bearer' };
+    if (auth.type === 'apiKey') {
+      return auth.in === 'query' ? undefined : auth.name;
     }
+    return 'Authorization';
+  }
 
-    // 8. WIKIPEDIA SEARCH DETECTION - Only trigger on explicit Wikipedia requests or encyclopedic queries
-    const lowerMessage = message.toLowerCase();
-    const explicitWikiRequest = lowerMessage.includes('wikipedia') || lowerMessage.includes('wiki');
-    const searchArticleRequest = lowerMessage.includes('search') && lowerMessage.includes('article');
-
-    // Avoid triggering on technical/code questions
-    const isTechnicalQuestion =
-      lowerMessage.includes('test') || lowerMessage.includes('code') || lowerMessage.includes('function') ||
-      lowerMessage.includes('component') || lowerMessage.includes('error') || lowerMessage.includes('build') ||
-      lowerMessage.includes('camera') || lowerMessage.includes('voice') || lowerMessage.includes('capabilities') ||
-      lowerMessage.includes('how do i') || lowerMessage.includes('how to');
-
-    if (
-      (explicitWikiRequest || searchArticleRequest) &&
-      !isTechnicalQuestion &&
-      this.functions.get('wikipedia_search')?.enabled
-    ) {
-      // Extract query after common patterns
-      const patterns = [
-        /(?:wikipedia|wiki|search)\s+(?:for\s+)?(.+?)(?:\?|$)/i,
-        /(?:what|who)\s+is\s+(.+?)(?:\?|$)/i,
-        /tell me about\s+(.+?)(?:\?|$)/i,
-      ];
-      for (const pattern of patterns) {
-        const match = message.match(pattern);
-        if (match) {
-          return {
-            functionId: 'wikipedia_search',
-            functionName: 'Search Wikipedia',
-            parameters: { query: match[1].trim(), limit: 3 },
-            timestamp: new Date(),
-          };
+  /**
+   * Send the API key the way the function's auth scheme says (Bearer by default)
+   */
+  private applyAuth(func: FunctionDefinition, headers: Record<string, string>, query: URLSearchParams): void {
+    if (!func.apiKey) return;
+
+    const auth = func.auth || { type: 'bearer' };
+    switch (auth.type) {
+      case 'apiKey':
+        if (auth.in === 'query') {
+          query.set(auth.name, func.apiKey);
+        } else {
+          headers[auth.name] = func.apiKey;
         }
-      }
+        break;
+      case 'basic':
+        headers['Authorization'] = `Basic ${toBase64(`${auth.username}:${func.apiKey}`)}`;
+        break;
+      default:
+        headers['Authorization'] = `Bearer ${func.apiKey}`;
     }
+  }
 
-    // 9. IP GEOLOCATION DETECTION
-    if (
-      (message.includes('my location') || message.includes('my ip') ||
-       message.includes('where am i') || message.includes('geolocation') ||
-       message.includes('ip address')) &&
-      this.functions.get('ip_geolocation')?.enabled
-    ) {
-      // Try to extract IP address if provided
-      const ipMatch = message.match(/\b(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})\b/);
-      return {
-        functionId: 'ip_geolocation',
-        functionName: 'Get IP Geolocation',
-        parameters: { ip: ipMatch ? ipMatch[1] : '' },
-        timestamp: new Date(),
-      };
+  /**
+   * Parse the response (JSON, or text for other content types) and keep only the
+   * mapped fields
+   */
+  private async readHttpResponse(func: FunctionDefinition, response: Response): Promise<any> {
+    const isJson = /\bjson\b/i.test(response.headers.get('Content-Type') || '');
+    if (!isJson) {
+      return response.text();
     }
 
-    // 10. GITHUB REPO DETECTION
-    const githubMatch = message.match(/github\.com\/([a-z0-9_-]+\/[a-z0-9_-]+)/i) ||
-                        message.match(/(?:repo|repository)\s+([a-z0-9_-]+\/[a-z0-9_-]+)/i);
-    if (
-      ((message.includes('github') && (message.includes('repo') || message.includes('repository'))) ||
-       githubMatch) &&
-      this.functions.get('github_repo')?.enabled
-    ) {
-      const repo = githubMatch ? githubMatch[1] : null;
-      if (repo) {
-        return {
-          functionId: 'github_repo',
-          functionName: 'Get GitHub Repository Info',
-          parameters: { repo },
-          timestamp: new Date(),
-        };
+    const data = await response.json();
+    return func.responseMapping ? applyResponseMapping(data, func.responseMapping) : data;
+  }
+
+  /**
+   * Validate call parameters against the function definition
+   * Checks required parameters and each value against its JSON Schema, fills
+   * defaults, and coerces strings into the declared types (small models often
+   * quote every value)
+   */
+  validateParameters(
+    func: FunctionDefinition,
+    params: Record<string, any>
+  ): ParameterValidationResult {
+    const errors: string[] = [];
+    const parameters: Record<string, any> = {};
+    const known = new Set(func.parameters.map((p) => p.name));
+
+    for (const name of Object.keys(params)) {
+      if (!known.has(name)) {
+        errors.push(`Unknown parameter: ${name}`);
       }
     }
 
-    // 11. WORD DEFINITION DETECTION
-    if (
-      ((message.includes('define') || message.includes('definition') ||
-        message.includes('what does') || message.includes('meaning of')) &&
-       !message.includes('function')) &&
-      this.functions.get('word_definition')?.enabled
-    ) {
-      const patterns = [
-        /define\s+(?:the\s+word\s+)?(.+?)(?:\?|$)/i,
-        /definition\s+of\s+(.+?)(?:\?|$)/i,
-        /what\s+does\s+(.+?)\s+mean/i,
-        /meaning\s+of\s+(.+?)(?:\?|$)/i,
-      ];
-      for (const pattern of patterns) {
-        const match = message.match(pattern);
-        if (match) {
-          const word = match[1].trim().replace(/['"]/g, '');
-          return {
-            functionId: 'word_definition',
-            functionName: 'Get Word Definition',
-            parameters: { word },
-            timestamp: new Date(),
-          };
+    for (const param of func.parameters) {
+      const value = params[param.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (param.default !== undefined) {
+          parameters[param.name] = param.default;
+        } else if (param.required) {
+          errors.push(`Missing required parameter: ${param.name}`);
         }
+        continue;
+      }
+
+      const checked = validateJsonSchema(value, getParameterSchema(param), param.name);
+      if (checked.errors.length > 0) {
+        errors.push(...checked.errors);
+        continue;
       }
+
+      parameters[param.name] = checked.value;
     }
 
-    return null;
+    return { valid: errors.length === 0, errors, parameters };
   }
+}
 
-  /**
-   * Extract a number from message (for limits)
-   */
-  private extractNumber(message: string): number | null {
-    const match = message.match(/\b(\d+)\b/);
-    return match ? parseInt(match[1]) : null;
+/**
+ * Whether a header carries credentials (vaulted and redacted) rather than a plain setting
+ */
+function isSecretHeader(name: string, func: FunctionDefinition): boolean {
+  if (func.auth?.type === 'apiKey' && func.auth.in === 'header' && func.auth.name.toLowerCase() === name.toLowerCase()) {
+    return true;
   }
+  return SECRET_HEADER_NAMES.includes(name.toLowerCase()) || SECRET_HEADER_PATTERN.test(name);
+}
 
-  /**
-   * Extract location from user message
-   */
-  private extractLocation(message: string): string | null {
-    // Improved location extraction with better patterns
-    const patterns = [
-      // "weather in <location>" or "weather for <location>"
-      /weather\s+(?:in|for|at)\s+([a-zA-Z\s,]+?)(?:\?|\.|\s*$)/i,
-      // "in <location>" or "for <location>" (after weather keywords)
-      /(?:weather|temperature|forecast).*?(?:in|for|at)\s+([a-zA-Z\s,]+?)(?:\?|\.|\s*$)/i,
-      // "<location> weather"
-      /^([a-zA-Z\s,]+?)\s+weather/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = message.match(pattern);
-      if (match && match[1]) {
-        const location = match[1].trim();
-        // Filter out common words that aren't locations
-        const excludeWords = ['the', 'a', 'is', 'like', 'what', 'how', 'today', 'now', 'there'];
-        const cleanLocation = location
-          .split(/\s+/)
-          .filter(word => !excludeWords.includes(word.toLowerCase()))
-          .join(' ')
-          .trim();
-
-        if (cleanLocation) {
-          return cleanLocation;
-        }
-      }
-    }
+/**
+ * Base64 for Basic auth credentials (btoa only takes Latin-1)
+ */
+function toBase64(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
 
-    return null;
-  }
+/**
+ * Replace each secret value in text with a placeholder
+ */
+function redactValues(text: string, secrets: string[]): string {
+  return secrets.reduce((redacted, secret) => redacted.split(secret).join('[redacted]'), text);
 }
 
 // Singleton instance
@@ -7,13 +7,38 @@
 
 import { FilesetResolver, LlmInference } from '@mediapipe/tasks-genai';
 import type { ModelConfig } from '../config/models';
-import type { GenerationOptions, MessageMetadata } from '../types';
+import type { ChatTurn, GenerationOptions, MessageMetadata } from '../types';
 import { modelInfoService } from './ModelInfoService';
+import { estimateTokenCount } from './TokenizerService';
+import { modelStore } from './ModelStore';
+import type { BackendCapabilities, LLMBackend } from './LLMBackend';
+import { createAbortError, isAbortError, raceWithSignal } from '../utils/abort';
+import { escapeControlTokens, getChatTemplate, renderChatPrompt, type ChatTemplate } from '../utils/chatTemplates';
+import { summarizeTokenTimings, type TokenChunkSample, type TokenTimingMetadata } from '../utils/tokenTimings';
+import {
+  buildSystemInstruction,
+  type SafetySettings,
+  type StructuredOutputSettings,
+  type SystemPromptSettings,
+  type Verbosity,
+} from '../utils/systemInstruction';
 
+/**
+ * Audio decoded to mono samples, the form MediaPipe reads audio in
+ */
+export interface DecodedAudio {
+  audioSamples: Float32Array;
+  audioSampleRateHz: number;
+}
+
+/**
+ * Sources are URLs (data:, blob: or http) on the main thread; the worker proxy
+ * decodes them first because MediaPipe loads URLs with Image and AudioContext
+ */
 export interface MultimodalInput {
   text?: string;
-  imageSource?: string;
-  audioSource?: string;
+  imageSource?: string | ImageBitmap;
+  audioSource?: string | DecodedAudio;
   videoSource?: string;
 }
 
@@ -22,15 +47,89 @@ export interface GenerationResult {
   metadata: MessageMetadata;
 }
 
-export class InferenceEngine {
+/**
+ * Outcome of one MediaPipe generation run through its progress listener
+ */
+interface StreamedResponse {
+  text: string;
+  lastChunk: string; // Final chunk, not yet passed to onChunk
+  interrupted: boolean; // Stopped via the abort signal
+  timings: TokenTimingMetadata;
+}
+
+/**
+ * Sampling options applied to the MediaPipe session
+ */
+interface SessionOptions {
+  maxTokens: number; // Combined prompt + response tokens
+  topK: number;
+  temperature: number;
+  randomSeed: number;
+}
+
+const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  maxTokens: 2000,
+  topK: 40,
+  temperature: 0.8,
+  randomSeed: 101,
+};
+
+// Session token budget grows in steps so small prompt changes don't reconfigure MediaPipe
+const SESSION_TOKEN_STEP = 512;
+
+// Asks for a one-word reply so warming up takes only a few tokens
+const WARM_UP_PROMPT = 'Reply with one word: ready';
+
+// Approximate prompt cost of one image or audio clip for Gemma 3n
+const MEDIA_TOKENS = 256;
+
+export const MEDIAPIPE_CAPABILITIES: Omit<BackendCapabilities, 'offMainThread'> = {
+  multimodal: true,
+  resumableDownloads: true,
+  formats: ['task', 'litertlm'],
+  sampling: ['temperature', 'topK', 'seed', 'maxTokens'], // No top-p sampler
+};
+
+/**
+ * Public surface shared by the in-thread engine and the worker proxy
+ */
+export type InferenceEngineAPI = Pick<
+  InferenceEngine,
+  | 'initialize'
+  | 'generate'
+  | 'generateStreaming'
+  | 'generateMultimodal'
+  | 'generateMultimodalStreaming'
+  | 'unload'
+  | 'isLoaded'
+  | 'isMultimodal'
+  | 'getConfig'
+  | 'getCapabilities'
+>;
+
+export interface InferenceEngineOptions {
+  recordStats?: boolean; // Record dashboard statistics (off inside the worker)
+}
+
+export class InferenceEngine implements LLMBackend {
+  readonly id = 'mediapipe';
+  readonly name = 'MediaPipe';
   private llmInference: any = null;
   private modelConfig: ModelConfig | null = null;
   private genAi: any = null;
+  private sessionOptions: SessionOptions | null = null;
+  private pendingGeneration: Promise<void> | null = null;
+  private recordStats: boolean;
+
+  constructor(options: InferenceEngineOptions = {}) {
+    this.recordStats = options.recordStats ?? true;
+  }
 
   /**
-   * Initialize MediaPipe GEMMA model from CloudFlare R2
+   * Initialize MediaPipe GEMMA model from the copy in the model store
+   * The model must already be downloaded (modelLoader.loadModel); nothing is fetched again.
    */
-  async initialize(config: ModelConfig): Promise<void> {
+  async initialize(config: ModelConfig, options?: GenerationOptions): Promise<void> {
     console.log(`🚀 Initializing MediaPipe model: ${config.name}`);
 
     // Check WebGPU availability FIRST
@@ -69,23 +168,24 @@ export class InferenceEngine {
       // Check if model supports multimodal
       const isMultimodal = config.capabilities.length > 1;
 
-      // Create LLM Inference instance
+      this.sessionOptions = null;
+      const sessionOptions: SessionOptions = options
+        ? this.toSessionOptions(options, 0, config.contextWindow)
+        : { ...DEFAULT_SESSION_OPTIONS };
+
+      // Create LLM Inference instance, streaming the stored model into MediaPipe
       this.llmInference = await LlmInference.createFromOptions(this.genAi, {
         baseOptions: {
-          modelAssetPath: config.url,
+          modelAssetBuffer: await modelStore.openReader(config),
         },
-        maxTokens: 2000,
-        topK: 40,
-        temperature: 0.8,
-        randomSeed: 101,
-        // Enable multimodal if supported
-        ...(isMultimodal && {
-          maxNumImages: 5,
-          supportAudio: true,
-        }),
+        ...sessionOptions,
+        // Enable the attachment types the model supports
+        ...(config.capabilities.includes('vision') && { maxNumImages: 5 }),
+        ...(config.capabilities.includes('audio') && { supportAudio: true }),
       });
 
       this.modelConfig = config;
+      this.sessionOptions = sessionOptions;
       console.log(`✅ MediaPipe model initialized: ${config.name}`);
       console.log(`   Multimodal: ${isMultimodal ? 'Enabled' : 'Disabled'}`);
     } catch (error) {
@@ -95,183 +195,303 @@ export class InferenceEngine {
   }
 
   /**
-   * Get system instruction based on verbosity setting
+   * Map request options to MediaPipe session options
+   * MediaPipe's maxTokens covers prompt + response, so the prompt size is added to the response limit
    */
-  private getVerbosityInstruction(verbosity: 'concise' | 'balanced' | 'detailed'): string {
-    const instructions = {
-      concise: 'Provide direct, informative answers. Answer questions fully with essential facts and information. Be brief but complete - avoid unnecessary fluff or repetition.',
-      balanced: 'Provide clear explanations with moderate detail. Balance thoroughness with brevity.',
-      detailed: 'Provide comprehensive and thorough explanations with examples when helpful. Be detailed in your responses.'
+  private toSessionOptions(options: GenerationOptions, promptTokens: number, contextWindow: number): SessionOptions {
+    const needed = Math.ceil((promptTokens + options.maxTokens) / SESSION_TOKEN_STEP) * SESSION_TOKEN_STEP;
+    const current = this.sessionOptions?.maxTokens ?? DEFAULT_SESSION_OPTIONS.maxTokens;
+
+    return {
+      maxTokens: Math.min(contextWindow, Math.max(current, needed)),
+      topK: options.topK ?? DEFAULT_SESSION_OPTIONS.topK,
+      temperature: options.temperature,
+      randomSeed: options.seed ?? DEFAULT_SESSION_OPTIONS.randomSeed,
     };
-    return instructions[verbosity];
   }
 
   /**
-   * Build complete system instruction including custom prompts, verbosity, structured output, and safety
+   * Reconfigure the MediaPipe session when sampling parameters change
    */
-  private buildSystemInstruction(
-    verbosity: 'concise' | 'balanced' | 'detailed',
-    systemPromptSettings?: {
-      enabled: boolean;
-      customPrompt: string;
-      selectedPreset: string | null;
-    },
-    structuredOutputSettings?: {
-      enabled: boolean;
-      format: string;
-      jsonSchema?: string;
-      xmlRootElement?: string;
-      csvIncludeHeaders?: boolean;
-      csvDelimiter?: string;
-    },
-    safetySettings?: {
-      enabled: boolean;
-      level: 'off' | 'moderate' | 'strict';
-      blockProfanity: boolean;
-      blockViolence: boolean;
-      blockSexual: boolean;
-      blockHate: boolean;
-      customFilters: string[];
+  private async applyGenerationOptions(options: GenerationOptions, promptTokens: number): Promise<void> {
+    if (!this.llmInference || !this.modelConfig) return;
+
+    const next = this.toSessionOptions(options, promptTokens, this.modelConfig.contextWindow);
+    const previous = this.sessionOptions;
+    const changed: Partial<SessionOptions> = {};
+
+    (Object.keys(next) as Array<keyof SessionOptions>).forEach((key) => {
+      if (!previous || previous[key] !== next[key]) {
+        changed[key] = next[key];
+      }
+    });
+
+    if (Object.keys(changed).length === 0) return;
+
+    console.log('⚙️ Updating sampling options:', changed);
+    await this.llmInference.setOptions(changed);
+    this.sessionOptions = next;
+  }
+
+  /**
+   * Record inference for dashboard statistics
+   * The worker proxy records on the main thread instead, where the dashboard lives
+   */
+  private recordInference(metadata: MessageMetadata): void {
+    if (this.recordStats) {
+      modelInfoService.recordInference(
+        metadata.tokensPerSecond || 0,
+        metadata.responseLatency || 0,
+        metadata.totalTokens || 0,
+        metadata
+      );
     }
-  ): string {
-    const instructions: string[] = [];
-
-    // Add safety instructions first
-    if (safetySettings?.enabled && safetySettings.level !== 'off') {
-      const { contentFilterService } = require('./ContentFilterService');
-      const safetyPrompt = contentFilterService.generateSafetyPrompt(safetySettings);
-      if (safetyPrompt) {
-        instructions.push(safetyPrompt);
+  }
+
+  /**
+   * MediaPipe has no cancel API, so a stopped generation keeps running in the
+   * background. Track it so the next request waits instead of failing as busy.
+   */
+  private trackGeneration<T>(generation: Promise<T>): Promise<T> {
+    const settled = generation.then(() => undefined, () => undefined);
+    this.pendingGeneration = settled;
+    settled.then(() => {
+      if (this.pendingGeneration === settled) {
+        this.pendingGeneration = null;
       }
+    });
+    return generation;
+  }
+
+  /**
+   * Wait for a stopped generation to drain before starting a new one
+   */
+  private async waitForPendingGeneration(signal?: AbortSignal): Promise<void> {
+    if (this.pendingGeneration) {
+      console.log('⏳ Waiting for the stopped generation to finish...');
+      await raceWithSignal(this.pendingGeneration, signal);
     }
+  }
 
-    // Add structured output instructions
-    if (structuredOutputSettings?.enabled) {
-      const { structuredOutputService } = require('./StructuredOutputService');
-      const formatPrompt = structuredOutputService.generateStructuredPrompt('', {
-        format: structuredOutputSettings.format as any,
-        schema: structuredOutputSettings.jsonSchema ? JSON.parse(structuredOutputSettings.jsonSchema) : undefined,
-        rootElement: structuredOutputSettings.xmlRootElement,
-        includeHeaders: structuredOutputSettings.csvIncludeHeaders,
-        delimiter: structuredOutputSettings.csvDelimiter,
-      });
-      // Extract just the instruction part (without "User request:")
-      const instructionPart = formatPrompt.split('User request:')[0].trim();
-      instructions.push(instructionPart);
+  /**
+   * Run a generation through MediaPipe's progress listener, timing every chunk
+   * Non-final chunks go to onChunk. Aborting the signal ends the run early as
+   * interrupted; MediaPipe keeps going in the background (see trackGeneration).
+   */
+  private streamResponse(
+    prompt: string | any[],
+    requestStart: number,
+    signal?: AbortSignal,
+    onChunk?: (chunk: string) => void
+  ): Promise<StreamedResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
     }
 
-    // Add custom system prompt if enabled
-    if (systemPromptSettings?.enabled) {
-      if (systemPromptSettings.customPrompt) {
-        // User has a custom prompt
-        instructions.push(systemPromptSettings.customPrompt);
-      } else if (systemPromptSettings.selectedPreset) {
-        // User has selected a preset
-        const { getPersonaById } = require('../config/personas');
-        const persona = getPersonaById(systemPromptSettings.selectedPreset);
-        if (persona) {
-          instructions.push(persona.systemPrompt);
+    return new Promise<StreamedResponse>((resolve, reject) => {
+      const submitTime = Date.now();
+      const samples: TokenChunkSample[] = [];
+      let text = '';
+      let totalTokens = 0;
+      let finished = false;
+
+      const finish = (lastChunk: string, interrupted: boolean) => {
+        finished = true;
+        signal?.removeEventListener('abort', onAbort);
+        resolve({
+          text,
+          lastChunk,
+          interrupted,
+          timings: summarizeTokenTimings(requestStart, submitTime, samples, Date.now(), totalTokens),
+        });
+      };
+
+      // Keep what was streamed so far and stop forwarding chunks
+      const onAbort = () => {
+        if (!finished) {
+          finish('', true);
         }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.trackGeneration(
+        this.llmInference.generateResponse(prompt, (partialResult: string, done: boolean) => {
+          if (finished) {
+            return;
+          }
+
+          // Partial results are incremental chunks, normally one decode step each;
+          // only the new chunk is estimated (the tokenizer is busy while generating)
+          // and the whole response is counted exactly afterwards (countResponseTokens)
+          text += partialResult;
+          if (partialResult.length > 0) {
+            const tokens = Math.max(1, estimateTokenCount(partialResult));
+            samples.push({ time: Date.now(), tokens });
+            totalTokens += tokens;
+          }
+
+          if (!done) {
+            onChunk?.(partialResult);
+          } else {
+            finish(partialResult, false);
+          }
+        })
+      ).catch((error: unknown) => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Sampling values in effect for a request, recorded in message metadata
+   * (MediaPipe has no top-p sampler; topP is recorded as requested)
+   */
+  private samplingMetadata(options: GenerationOptions): MessageMetadata {
+    return {
+      temperature: this.sessionOptions?.temperature ?? options.temperature,
+      topP: options.topP,
+      topK: this.sessionOptions?.topK,
+      seed: this.sessionOptions?.randomSeed,
+      maxTokens: options.maxTokens,
+    };
+  }
+
+  /**
+   * Chat template for the loaded model's family
+   */
+  private getChatTemplate(): ChatTemplate {
+    return getChatTemplate(this.modelConfig?.chatTemplate);
+  }
+
+  /**
+   * Render the prompt as chat turns, with the system instruction placed by the template
+   */
+  private formatPrompt(prompt: string | ChatTurn[], systemInstruction: string): string {
+    const turns: ChatTurn[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+    return renderChatPrompt([{ role: 'system', content: systemInstruction }, ...turns], this.getChatTemplate());
+  }
+
+  /**
+   * Exact token count from the model's tokenizer; estimated while a generation
+   * is running, since MediaPipe can't tokenize then
+   */
+  private sizeInTokens(text: string): number {
+    if (!text) return 0;
+    if (this.llmInference && !this.pendingGeneration) {
+      try {
+        const size = this.llmInference.sizeInTokens(text);
+        if (typeof size === 'number') return size;
+      } catch (error) {
+        console.warn('⚠️ sizeInTokens failed, estimating:', error);
       }
     }
+    return estimateTokenCount(text);
+  }
+
+  /**
+   * Token counts for a response's metadata, exact once MediaPipe is idle again
+   * Input counts the request itself (without system instruction or template markup)
+   * plus estimated media tokens. A stopped generation keeps MediaPipe busy, so
+   * its counts stay the streaming estimates.
+   */
+  private async countResponseTokens(
+    prompt: string | ChatTurn[],
+    response: StreamedResponse,
+    mediaTokens = 0
+  ): Promise<MessageMetadata> {
+    const promptText = typeof prompt === 'string' ? prompt : prompt.map((turn) => turn.content).join('\n\n');
+    if (!response.interrupted) {
+      await this.waitForPendingGeneration();
+    }
 
-    // Always add verbosity instruction (can be omitted if custom prompt already handles it)
-    if (!systemPromptSettings?.enabled || !systemPromptSettings.customPrompt) {
-      instructions.push(this.getVerbosityInstruction(verbosity));
+    if (!this.llmInference || this.pendingGeneration) {
+      return { inputTokens: estimateTokenCount(promptText) + mediaTokens, tokenCountsEstimated: true };
     }
 
-    return instructions.filter(Boolean).join('\n\n');
+    const totalTokens = this.sizeInTokens(response.text);
+    const generationTime = response.timings.totalGenerationTime || 0;
+    return {
+      inputTokens: this.sizeInTokens(promptText) + mediaTokens,
+      totalTokens,
+      tokensPerSecond: generationTime > 0 ? totalTokens / (generationTime / 1000) : 0,
+      ...(mediaTokens > 0 && { tokenCountsEstimated: true }),
+    };
   }
 
   /**
    * Generate text response
+   * The prompt is a single user message or the conversation as role turns
    */
   async generate(
-    prompt: string,
+    prompt: string | ChatTurn[],
     options: GenerationOptions,
-    verbosity: 'concise' | 'balanced' | 'detailed' = 'concise',
-    systemPromptSettings?: {
-      enabled: boolean;
-      customPrompt: string;
-      selectedPreset: string | null;
-    },
-    structuredOutputSettings?: {
-      enabled: boolean;
-      format: string;
-      jsonSchema?: string;
-      xmlRootElement?: string;
-      csvIncludeHeaders?: boolean;
-      csvDelimiter?: string;
-    },
-    safetySettings?: {
-      enabled: boolean;
-      level: 'off' | 'moderate' | 'strict';
-      blockProfanity: boolean;
-      blockViolence: boolean;
-      blockSexual: boolean;
-      blockHate: boolean;
-      customFilters: string[];
-    }
+    verbosity: Verbosity = 'concise',
+    systemPromptSettings?: SystemPromptSettings,
+    structuredOutputSettings?: StructuredOutputSettings,
+    safetySettings?: SafetySettings,
+    toolInstruction?: string
   ): Promise<GenerationResult> {
     if (!this.llmInference) {
       throw new Error('Model not initialized');
     }
 
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+
     console.log('🤖 Generating response with MediaPipe...');
 
+    const requestStart = Date.now();
+
     try {
+      await this.waitForPendingGeneration(options.signal);
+
       // Build complete system instruction (verbosity + custom prompts + structured output + safety)
-      const systemInstruction = this.buildSystemInstruction(
+      const systemInstruction = buildSystemInstruction(
         verbosity,
         systemPromptSettings,
         structuredOutputSettings,
-        safetySettings
+        safetySettings,
+        toolInstruction
       );
-      const enhancedPrompt = `${systemInstruction}\n\n${prompt}`;
-
-      // Format prompt for GEMMA models
-      const formattedPrompt = `<start_of_turn>user\n${enhancedPrompt}<end_of_turn>\n<start_of_turn>model\n`;
-
-      const startTime = Date.now();
-      let response = '';
+      const formattedPrompt = this.formatPrompt(prompt, systemInstruction);
 
-      // Generate response
-      response = await this.llmInference.generateResponse(formattedPrompt);
+      await this.applyGenerationOptions(options, this.sizeInTokens(formattedPrompt));
 
-      const endTime = Date.now();
-      const totalGenerationTime = endTime - startTime; // milliseconds
-
-      // For non-streaming, we can't measure first token separately
-      // So we approximate it as a small fraction of total time
-      const responseLatency = Math.min(totalGenerationTime, 100);
-
-      // Estimate token counts
-      const inputTokens = this.estimateTokenCount(prompt);
-      const totalTokens = this.estimateTokenCount(response);
-      const tokensPerSecond = totalGenerationTime > 0 ? (totalTokens / (totalGenerationTime / 1000)) : 0;
+      // Generate through the progress listener so the first token can be timed
+      const response = await this.streamResponse(formattedPrompt, requestStart, options.signal);
+      if (response.interrupted) {
+        throw createAbortError();
+      }
 
-      console.log(`✅ Generated in ${(totalGenerationTime / 1000).toFixed(2)}s`);
+      console.log(`✅ Generated in ${((response.timings.totalGenerationTime || 0) / 1000).toFixed(2)}s`);
 
       // Build metadata
       const metadata: MessageMetadata = {
-        tokensPerSecond,
-        responseLatency,
-        totalGenerationTime,
-        totalTokens,
-        inputTokens,
+        ...response.timings,
+        ...(await this.countResponseTokens(prompt, response)),
+        modelId: this.modelConfig?.id,
         modelName: this.modelConfig?.name || 'Unknown',
-        temperature: options.temperature,
-        topP: options.topP,
+        ...this.samplingMetadata(options),
       };
 
       // Record inference for dashboard statistics
-      modelInfoService.recordInference(tokensPerSecond, responseLatency, totalTokens);
+      this.recordInference(metadata);
 
       return {
-        text: response,
+        text: response.text,
         metadata,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('⏹️ Generation stopped');
+        throw error;
+      }
       console.error('❌ Generation failed:', error);
       throw new Error(`Failed to generate response: ${error}`);
     }
@@ -279,98 +499,71 @@ export class InferenceEngine {
 
   /**
    * Generate streaming response with metadata
+   * Resolves once the final token (with metadata) has been delivered.
+   * Aborting options.signal ends the stream early, marked as interrupted.
    */
   async generateStreaming(
-    prompt: string,
+    prompt: string | ChatTurn[],
     options: GenerationOptions,
     onToken: (token: string, isDone: boolean, metadata?: MessageMetadata) => void,
-    verbosity: 'concise' | 'balanced' | 'detailed' = 'concise',
-    systemPromptSettings?: {
-      enabled: boolean;
-      customPrompt: string;
-      selectedPreset: string | null;
-    },
-    structuredOutputSettings?: {
-      enabled: boolean;
-      format: string;
-      jsonSchema?: string;
-      xmlRootElement?: string;
-      csvIncludeHeaders?: boolean;
-      csvDelimiter?: string;
-    },
-    safetySettings?: {
-      enabled: boolean;
-      level: 'off' | 'moderate' | 'strict';
-      blockProfanity: boolean;
-      blockViolence: boolean;
-      blockSexual: boolean;
-      blockHate: boolean;
-      customFilters: string[];
-    }
+    verbosity: Verbosity = 'concise',
+    systemPromptSettings?: SystemPromptSettings,
+    structuredOutputSettings?: StructuredOutputSettings,
+    safetySettings?: SafetySettings,
+    toolInstruction?: string
   ): Promise<void> {
     if (!this.llmInference) {
       throw new Error('Model not initialized');
     }
 
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+
     console.log('🤖 Generating streaming response...');
 
+    const requestStart = Date.now();
+
     try {
+      await this.waitForPendingGeneration(options.signal);
+
       // Build complete system instruction (verbosity + custom prompts + structured output + safety)
-      const systemInstruction = this.buildSystemInstruction(
+      const systemInstruction = buildSystemInstruction(
         verbosity,
         systemPromptSettings,
         structuredOutputSettings,
-        safetySettings
+        safetySettings,
+        toolInstruction
       );
-      const enhancedPrompt = `${systemInstruction}\n\n${prompt}`;
+      const formattedPrompt = this.formatPrompt(prompt, systemInstruction);
 
-      const formattedPrompt = `<start_of_turn>user\n${enhancedPrompt}<end_of_turn>\n<start_of_turn>model\n`;
+      await this.applyGenerationOptions(options, this.sizeInTokens(formattedPrompt));
 
-      const startTime = Date.now();
-      let firstTokenTime: number | null = null;
-      let totalTokens = 0;
+      const response = await this.streamResponse(formattedPrompt, requestStart, options.signal, (chunk) =>
+        onToken(chunk, false)
+      );
 
-      this.llmInference.generateResponse(
-        formattedPrompt,
-        (partialResult: string, done: boolean) => {
-          // Track first token time
-          if (firstTokenTime === null && partialResult.length > 0) {
-            firstTokenTime = Date.now();
-          }
+      // Build final metadata
+      const metadata: MessageMetadata = {
+        ...response.timings,
+        ...(await this.countResponseTokens(prompt, response)),
+        modelId: this.modelConfig?.id,
+        modelName: this.modelConfig?.name || 'Unknown',
+        ...this.samplingMetadata(options),
+        ...(response.interrupted && { interrupted: true }),
+      };
 
-          totalTokens = this.estimateTokenCount(partialResult);
-
-          // Send token update
-          onToken(partialResult, done);
-
-          if (done) {
-            const endTime = Date.now();
-            const totalGenerationTime = endTime - startTime;
-            const responseLatency = firstTokenTime ? firstTokenTime - startTime : 0;
-            const tokensPerSecond = totalGenerationTime > 0 ? (totalTokens / (totalGenerationTime / 1000)) : 0;
-
-            // Build final metadata
-            const metadata: MessageMetadata = {
-              tokensPerSecond,
-              responseLatency,
-              totalGenerationTime,
-              totalTokens,
-              inputTokens: this.estimateTokenCount(prompt),
-              modelName: this.modelConfig?.name || 'Unknown',
-              temperature: options.temperature,
-              topP: options.topP,
-            };
-
-            // Record inference for dashboard statistics
-            modelInfoService.recordInference(tokensPerSecond, responseLatency, totalTokens);
-
-            // Send final update with metadata
-            onToken(partialResult, true, metadata);
-            console.log('✅ Streaming complete');
-          }
-        }
-      );
+      // Record inference for dashboard statistics
+      this.recordInference(metadata);
+
+      // Send final chunk with metadata
+      onToken(response.lastChunk, true, metadata);
+      console.log(response.interrupted ? '⏹️ Streaming stopped' : '✅ Streaming complete');
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('⏹️ Streaming stopped');
+        throw error;
+      }
       console.error('❌ Streaming generation failed:', error);
       throw new Error(`Failed to generate streaming response: ${error}`);
     }
@@ -385,6 +578,53 @@ export class InferenceEngine {
     options: GenerationOptions,
     imageResolution?: string
   ): Promise<GenerationResult> {
+    console.log('🎨 Generating multimodal response...');
+
+    const { text, metadata } = await this.runMultimodal(inputs, options, imageResolution);
+    if (metadata.interrupted) {
+      console.log('⏹️ Multimodal generation stopped');
+      throw createAbortError();
+    }
+
+    // Record inference for dashboard statistics
+    this.recordInference(metadata);
+
+    return { text, metadata };
+  }
+
+  /**
+   * Generate streaming multimodal response (GEMMA 3N only)
+   * Same onToken contract as generateStreaming: resolves once the final token
+   * (with metadata) has been delivered; aborting ends the stream as interrupted.
+   */
+  async generateMultimodalStreaming(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    onToken: (token: string, isDone: boolean, metadata?: MessageMetadata) => void,
+    imageResolution?: string
+  ): Promise<void> {
+    console.log('🎨 Generating streaming multimodal response...');
+
+    const result = await this.runMultimodal(inputs, options, imageResolution, (chunk) => onToken(chunk, false));
+
+    // Record inference for dashboard statistics
+    this.recordInference(result.metadata);
+
+    // Send final chunk with metadata
+    onToken(result.lastChunk, true, result.metadata);
+    console.log(result.metadata.interrupted ? '⏹️ Multimodal streaming stopped' : '✅ Multimodal streaming complete');
+  }
+
+  /**
+   * Build the multimodal prompt and run it, streaming non-final chunks to onChunk
+   * A stopped run resolves with metadata.interrupted set
+   */
+  private async runMultimodal(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    imageResolution?: string,
+    onChunk?: (chunk: string) => void
+  ): Promise<GenerationResult & { lastChunk: string }> {
     if (!this.llmInference) {
       throw new Error('Model not initialized');
     }
@@ -393,11 +633,18 @@ export class InferenceEngine {
       throw new Error('Multimodal generation requires GEMMA 3N model');
     }
 
-    console.log('🎨 Generating multimodal response...');
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const requestStart = Date.now();
 
     try {
-      // Build multimodal prompt array
-      const promptArray: any[] = ['<start_of_turn>user\n'];
+      await this.waitForPendingGeneration(options.signal);
+
+      // Build multimodal prompt array inside a single user turn
+      const template = this.getChatTemplate();
+      const promptArray: any[] = [template.beginTurn('user')];
       let textPrompt = '';
       let imageCount = 0;
       let audioCount = 0;
@@ -409,7 +656,7 @@ export class InferenceEngine {
       for (const input of inputs) {
         if (input.text) {
           textPrompt += input.text + ' ';
-          promptArray.push(input.text);
+          promptArray.push(escapeControlTokens(input.text, template));
         }
         if (input.imageSource) {
           const imgStart = Date.now();
@@ -431,36 +678,29 @@ export class InferenceEngine {
         }
       }
 
-      promptArray.push('<end_of_turn>\n<start_of_turn>model\n');
+      promptArray.push(template.endTurn + template.beginTurn('assistant'));
 
-      const startTime = Date.now();
+      const mediaCount = imageCount + audioCount + videoCount;
+      await this.applyGenerationOptions(options, this.sizeInTokens(textPrompt) + mediaCount * MEDIA_TOKENS);
 
-      // Generate response
-      const response = await this.llmInference.generateResponse(promptArray);
+      // Generate through the progress listener so the first token can be timed
+      // (prefill includes encoding the images and audio)
+      const response = await this.streamResponse(promptArray, requestStart, options.signal, onChunk);
 
-      const endTime = Date.now();
-      const totalGenerationTime = endTime - startTime;
-
-      // Estimate response latency (first token time)
-      const responseLatency = Math.min(totalGenerationTime, 150);
-
-      // Estimate token counts
-      const inputTokens = this.estimateTokenCount(textPrompt);
-      const totalTokens = this.estimateTokenCount(response);
-      const tokensPerSecond = totalGenerationTime > 0 ? (totalTokens / (totalGenerationTime / 1000)) : 0;
-
-      console.log(`✅ Multimodal generation complete in ${(totalGenerationTime / 1000).toFixed(2)}s`);
+      if (!response.interrupted) {
+        console.log(
+          `✅ Multimodal generation complete in ${((response.timings.totalGenerationTime || 0) / 1000).toFixed(2)}s`
+        );
+      }
 
       // Build metadata
       const metadata: MessageMetadata = {
-        tokensPerSecond,
-        responseLatency,
-        totalGenerationTime,
-        totalTokens,
-        inputTokens,
+        ...response.timings,
+        ...(await this.countResponseTokens(textPrompt.trim(), response, mediaCount * MEDIA_TOKENS)),
+        modelId: this.modelConfig?.id,
         modelName: this.modelConfig?.name || 'Unknown',
-        temperature: options.temperature,
-        topP: options.topP,
+        ...this.samplingMetadata(options),
+        ...(response.interrupted && { interrupted: true }),
       };
 
       // Add multimodal-specific metadata
@@ -477,19 +717,54 @@ export class InferenceEngine {
         // We could estimate duration from file size, but skip for now
       }
 
-      // Record inference for dashboard statistics
-      modelInfoService.recordInference(tokensPerSecond, responseLatency, totalTokens);
-
       return {
-        text: response,
+        text: response.text,
+        lastChunk: response.lastChunk,
         metadata,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('⏹️ Multimodal generation stopped');
+        throw error;
+      }
       console.error('❌ Multimodal generation failed:', error);
       throw new Error(`Failed to generate multimodal response: ${error}`);
     }
   }
 
+  /**
+   * Run a short generation so GPU pipelines are compiled before the first real
+   * message (not recorded in statistics)
+   */
+  async warmUp(): Promise<void> {
+    if (!this.llmInference) {
+      throw new Error('Model not initialized');
+    }
+
+    await this.waitForPendingGeneration();
+    const prompt = this.formatPrompt(WARM_UP_PROMPT, buildSystemInstruction('concise'));
+    const { timings } = await this.streamResponse(prompt, Date.now());
+    console.log(`🔥 ${this.modelConfig?.name} warmed up in ${((timings.totalGenerationTime || 0) / 1000).toFixed(2)}s`);
+  }
+
+  /**
+   * Exact token counts for the tokenizer service, after any running generation
+   * @returns null for texts that can't be counted right now
+   */
+  async countTokens(texts: string[]): Promise<Array<number | null>> {
+    await this.waitForPendingGeneration();
+
+    return texts.map((text) => {
+      if (!this.llmInference || this.pendingGeneration) return null;
+      try {
+        const size = this.llmInference.sizeInTokens(text);
+        return typeof size === 'number' ? size : null;
+      } catch {
+        return null;
+      }
+    });
+  }
+
   /**
    * Check if model is loaded
    */
@@ -512,19 +787,26 @@ export class InferenceEngine {
   }
 
   /**
-   * Unload model and free memory
+   * What the MediaPipe backend supports
+   */
+  getCapabilities(): BackendCapabilities {
+    return { ...MEDIAPIPE_CAPABILITIES, offMainThread: typeof window === 'undefined' };
+  }
+
+  /**
+   * Unload model and free its GPU and WASM memory
+   * A stopped generation still running is waited for first; closing the task under it would fail.
    */
   async unload(): Promise<void> {
     if (this.llmInference) {
-      // MediaPipe doesn't expose a close method, just clear reference
+      await this.waitForPendingGeneration();
+
+      const llmInference = this.llmInference;
       this.llmInference = null;
       this.modelConfig = null;
       this.genAi = null;
-
-      // Suggest garbage collection (if available)
-      if ((global as any).gc) {
-        (global as any).gc();
-      }
+      this.sessionOptions = null;
+      llmInference?.close();
 
       console.log('🗑️ MediaPipe model unloaded');
     }
@@ -569,18 +851,5 @@ export class InferenceEngine {
 
     return { name, version, isSafari, isChrome, isEdge, isFirefox };
   }
-
-  /**
-   * Estimate token count from text
-   * Uses rough approximation: ~1 token per 4 characters or 1 token per word
-   */
-  private estimateTokenCount(text: string): number {
-    const words = text.split(/\s+/).filter(w => w.length > 0);
-    const chars = text.length;
-    // Use average of word count and char/4 for better estimate
-    return Math.round((words.length + chars / 4) / 2);
-  }
 }
 
-// Singleton instance
-export const inferenceEngine = new InferenceEngine();
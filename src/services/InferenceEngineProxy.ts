@@ -0,0 +1,450 @@
+/**
+ * Inference Engine Proxy
+ * Runs the MediaPipe engine pool in a Web Worker behind the same public API,
+ * falling back to in-thread execution when workers are unavailable
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelConfig } from '../config/models';
+import type { GenerationOptions, MessageMetadata } from '../types';
+import {
+  MEDIAPIPE_CAPABILITIES,
+  type InferenceEngine,
+  type GenerationResult,
+  type InferenceEngineAPI,
+  type MultimodalInput,
+} from './InferenceEngine';
+import type { BackendCapabilities, LLMBackend, TokenCallback } from './LLMBackend';
+import { EnginePool, type ResidencyPolicy } from './EnginePool';
+import { modelInfoService } from './ModelInfoService';
+import { createAbortError } from '../utils/abort';
+import { decodeMultimodalInputs } from '../utils/decodeMultimodal';
+import {
+  WORKER_UNSUPPORTED_ERROR,
+  type InferenceRequest,
+  type InferenceResponse,
+  type TextGenerationArgs,
+  type WorkerGenerationOptions,
+} from '../workers/inferenceProtocol';
+
+type GenerateParams = Parameters<InferenceEngine['generate']>;
+
+type ResultMessage = Extract<InferenceResponse, { type: 'result' }>;
+
+interface PendingRequest {
+  resolve: (message: ResultMessage) => void;
+  reject: (error: Error) => void;
+  onToken?: TokenCallback;
+}
+
+export class InferenceEngineProxy implements InferenceEngineAPI, LLMBackend {
+  readonly id = 'mediapipe';
+  readonly name = 'MediaPipe';
+  private worker: Worker | null = null;
+  private fallback: EnginePool | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private modelConfig: ModelConfig | null = null;
+  private residentModelIds: string[] = [];
+  private policy: ResidencyPolicy = { maxModels: 1, memoryBudget: Infinity };
+
+  constructor() {
+    if (typeof Worker === 'undefined') {
+      console.warn('⚠️ Web Workers unavailable, running inference on the main thread');
+      this.fallback = new EnginePool();
+      return;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/inference.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      this.worker.onmessage = (event: MessageEvent<InferenceResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('❌ Inference worker crashed:', event.message);
+        this.disableWorker(`Inference worker failed: ${event.message || 'unknown error'}`);
+      };
+    } catch (error) {
+      console.warn('⚠️ Could not start inference worker, running on the main thread:', error);
+      this.fallback = new EnginePool();
+    }
+  }
+
+  /**
+   * Whether inference runs in the worker
+   */
+  isUsingWorker(): boolean {
+    return this.worker !== null && this.fallback === null;
+  }
+
+  /**
+   * Initialize a model, falling back to the main thread if the worker can't run it
+   */
+  async initialize(config: ModelConfig, options?: GenerationOptions): Promise<void> {
+    if (!this.fallback) {
+      try {
+        await this.request((requestId) => ({
+          type: 'initialize',
+          requestId,
+          config,
+          options: options && this.toWorkerOptions(options),
+        }));
+        this.modelConfig = config;
+        console.log('🧵 Inference running in Web Worker');
+        return;
+      } catch (error) {
+        if (!(error instanceof Error) || error.name !== WORKER_UNSUPPORTED_ERROR) {
+          throw error;
+        }
+        console.warn(`⚠️ ${error.message}, running inference on the main thread`);
+        this.disableWorker(error.message);
+      }
+    }
+
+    await this.fallback!.initialize(config, options);
+    this.modelConfig = config;
+  }
+
+  async generate(
+    prompt: GenerateParams[0],
+    options: GenerationOptions,
+    verbosity: GenerateParams[2] = 'concise',
+    systemPromptSettings?: GenerateParams[3],
+    structuredOutputSettings?: GenerateParams[4],
+    safetySettings?: GenerateParams[5],
+    toolInstruction?: string
+  ): Promise<GenerationResult> {
+    if (this.fallback) {
+      return this.fallback.generate(
+        prompt,
+        options,
+        verbosity,
+        systemPromptSettings,
+        structuredOutputSettings,
+        safetySettings,
+        toolInstruction
+      );
+    }
+
+    const args: TextGenerationArgs = {
+      prompt,
+      options: this.toWorkerOptions(options),
+      verbosity,
+      systemPromptSettings,
+      structuredOutputSettings,
+      safetySettings,
+      toolInstruction,
+    };
+    const { result } = await this.request((requestId) => ({ type: 'generate', requestId, args }), options.signal);
+    return result!;
+  }
+
+  async generateStreaming(
+    prompt: GenerateParams[0],
+    options: GenerationOptions,
+    onToken: TokenCallback,
+    verbosity: GenerateParams[2] = 'concise',
+    systemPromptSettings?: GenerateParams[3],
+    structuredOutputSettings?: GenerateParams[4],
+    safetySettings?: GenerateParams[5],
+    toolInstruction?: string
+  ): Promise<void> {
+    if (this.fallback) {
+      return this.fallback.generateStreaming(
+        prompt,
+        options,
+        onToken,
+        verbosity,
+        systemPromptSettings,
+        structuredOutputSettings,
+        safetySettings,
+        toolInstruction
+      );
+    }
+
+    const args: TextGenerationArgs = {
+      prompt,
+      options: this.toWorkerOptions(options),
+      verbosity,
+      systemPromptSettings,
+      structuredOutputSettings,
+      safetySettings,
+      toolInstruction,
+    };
+    await this.request((requestId) => ({ type: 'generateStreaming', requestId, args }), options.signal, onToken);
+  }
+
+  async generateMultimodal(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    imageResolution?: string
+  ): Promise<GenerationResult> {
+    if (this.fallback) {
+      return this.fallback.generateMultimodal(inputs, options, imageResolution);
+    }
+
+    if (!this.modelConfig || this.modelConfig.capabilities.length === 1) {
+      throw new Error('Multimodal generation requires GEMMA 3N model');
+    }
+
+    const decoded = await decodeMultimodalInputs(inputs);
+    const { result } = await this.request(
+      (requestId) => ({
+        type: 'generateMultimodal',
+        requestId,
+        inputs: decoded.inputs,
+        options: this.toWorkerOptions(options),
+        imageResolution,
+      }),
+      options.signal,
+      undefined,
+      decoded.transfer
+    );
+    return result!;
+  }
+
+  async generateMultimodalStreaming(
+    inputs: MultimodalInput[],
+    options: GenerationOptions,
+    onToken: TokenCallback,
+    imageResolution?: string
+  ): Promise<void> {
+    if (this.fallback) {
+      return this.fallback.generateMultimodalStreaming(inputs, options, onToken, imageResolution);
+    }
+
+    if (!this.modelConfig || this.modelConfig.capabilities.length === 1) {
+      throw new Error('Multimodal generation requires GEMMA 3N model');
+    }
+
+    const decoded = await decodeMultimodalInputs(inputs);
+    await this.request(
+      (requestId) => ({
+        type: 'generateMultimodalStreaming',
+        requestId,
+        inputs: decoded.inputs,
+        options: this.toWorkerOptions(options),
+        imageResolution,
+      }),
+      options.signal,
+      onToken,
+      decoded.transfer
+    );
+  }
+
+  /**
+   * Unload every resident model
+   */
+  async unload(): Promise<void> {
+    if (this.fallback) {
+      await this.fallback.unload();
+    } else {
+      await this.request((requestId) => ({ type: 'unload', requestId }));
+    }
+    this.modelConfig = null;
+  }
+
+  /**
+   * Load and warm up a model next to the active one without switching to it
+   * @returns Whether the model is now resident
+   */
+  async preload(config: ModelConfig, options?: GenerationOptions): Promise<boolean> {
+    if (this.fallback) {
+      return this.fallback.preload(config, options);
+    }
+
+    await this.request((requestId) => ({
+      type: 'preload',
+      requestId,
+      config,
+      options: options && this.toWorkerOptions(options),
+    }));
+    return this.residentModelIds.includes(config.id);
+  }
+
+  /**
+   * Unload one resident model (the active one can't be unloaded this way)
+   */
+  async unloadModel(modelId: string): Promise<void> {
+    if (modelId === this.getConfig()?.id) return;
+
+    if (this.fallback) {
+      await this.fallback.unloadModel(modelId);
+    } else {
+      await this.request((requestId) => ({ type: 'unloadModel', requestId, modelId }));
+    }
+  }
+
+  /**
+   * Set how many models stay loaded; models over the new limits are evicted
+   */
+  async setPolicy(policy: ResidencyPolicy): Promise<void> {
+    this.policy = policy;
+    if (this.fallback) {
+      await this.fallback.setPolicy(policy);
+    } else {
+      await this.request((requestId) => ({ type: 'setPolicy', requestId, policy }));
+    }
+  }
+
+  /**
+   * Exact token counts from the active model's tokenizer (null where unavailable)
+   */
+  async countTokens(texts: string[]): Promise<Array<number | null>> {
+    if (this.fallback) {
+      return this.fallback.countTokens(texts);
+    }
+    const { tokenCounts } = await this.request((requestId) => ({ type: 'countTokens', requestId, texts }));
+    return tokenCounts ?? texts.map(() => null);
+  }
+
+  /**
+   * IDs of the loaded models, most recently used first
+   */
+  getResidentModelIds(): string[] {
+    return this.fallback ? this.fallback.getResidentModelIds() : this.residentModelIds;
+  }
+
+  isLoaded(): boolean {
+    return this.fallback ? this.fallback.isLoaded() : this.modelConfig !== null;
+  }
+
+  isMultimodal(): boolean {
+    return this.fallback ? this.fallback.isMultimodal() : (this.modelConfig?.capabilities.length ?? 0) > 1;
+  }
+
+  getConfig(): ModelConfig | null {
+    return this.fallback ? this.fallback.getConfig() : this.modelConfig;
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return { ...MEDIAPIPE_CAPABILITIES, offMainThread: this.isUsingWorker() };
+  }
+
+  /**
+   * Send a request to the worker and wait for its result
+   * Aborting the signal forwards an 'abort' message for the same request id
+   */
+  private request(
+    build: (requestId: number) => InferenceRequest,
+    signal?: AbortSignal,
+    onToken?: TokenCallback,
+    transfer: Transferable[] = []
+  ): Promise<ResultMessage> {
+    if (signal?.aborted) {
+      closeTransferables(transfer);
+      return Promise.reject(createAbortError());
+    }
+
+    const worker = this.worker;
+    if (!worker) {
+      closeTransferables(transfer);
+      return Promise.reject(new Error('Inference worker is not available'));
+    }
+
+    const requestId = this.nextRequestId++;
+
+    return new Promise<ResultMessage>((resolve, reject) => {
+      const abortMessage: InferenceRequest = { type: 'abort', requestId };
+      const onAbort = () => worker.postMessage(abortMessage);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(requestId, {
+        resolve: (message) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(message);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onToken,
+      });
+
+      worker.postMessage(build(requestId), transfer);
+    });
+  }
+
+  private handleMessage(message: InferenceResponse): void {
+    const pending = this.pending.get(message.requestId);
+    if (!pending) return;
+
+    switch (message.type) {
+      case 'token':
+        if (message.isDone && message.metadata) {
+          this.recordInference(message.metadata);
+        }
+        pending.onToken?.(message.token, message.isDone, message.metadata);
+        break;
+
+      case 'result':
+        this.pending.delete(message.requestId);
+        if (message.residentModelIds) {
+          this.residentModelIds = message.residentModelIds;
+        }
+        if (message.result) {
+          this.recordInference(message.result.metadata);
+        }
+        pending.resolve(message);
+        break;
+
+      case 'error': {
+        this.pending.delete(message.requestId);
+        if (message.error.name === 'AbortError') {
+          pending.reject(createAbortError());
+          break;
+        }
+        const error = new Error(message.error.message);
+        error.name = message.error.name;
+        pending.reject(error);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Stop using the worker; outstanding requests fail and later calls run in-thread
+   */
+  private disableWorker(reason: string): void {
+    this.worker?.terminate();
+    this.worker = null;
+    if (!this.fallback) {
+      this.fallback = new EnginePool();
+      this.fallback.setPolicy(this.policy);
+    }
+
+    this.pending.forEach((pending) => {
+      const error = new Error(reason);
+      error.name = WORKER_UNSUPPORTED_ERROR;
+      pending.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  private toWorkerOptions(options: GenerationOptions): WorkerGenerationOptions {
+    const { signal: _signal, ...workerOptions } = options;
+    return workerOptions;
+  }
+
+  private recordInference(metadata: MessageMetadata): void {
+    modelInfoService.recordInference(
+      metadata.tokensPerSecond || 0,
+      metadata.responseLatency || 0,
+      metadata.totalTokens || 0,
+      metadata
+    );
+  }
+}
+
+/**
+ * Release decoded images that were never handed to the worker
+ */
+function closeTransferables(transfer: Transferable[]): void {
+  transfer.forEach((item) => {
+    if (item instanceof ImageBitmap) item.close();
+  });
+}
+
+// Singleton instance
+export const inferenceEngine = new InferenceEngineProxy();
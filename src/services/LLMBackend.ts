@@ -0,0 +1,75 @@
+/**
+ * LLM Backend
+ * Common interface for the engines that can run a chat model
+ * (MediaPipe via InferenceEngine, MLC models via WebLLM)
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelConfig, ModelFormat } from '../config/models';
+import type { BackendId, ChatTurn, GenerationOptions, MessageMetadata, ModelLoadProgress } from '../types';
+import type { GenerationResult } from './InferenceEngine';
+import type {
+  SafetySettings,
+  StructuredOutputSettings,
+  SystemPromptSettings,
+  Verbosity,
+} from '../utils/systemInstruction';
+
+export type TokenCallback = (token: string, isDone: boolean, metadata?: MessageMetadata) => void;
+
+export type SamplingOption = 'temperature' | 'topP' | 'topK' | 'seed' | 'maxTokens';
+
+/**
+ * What a backend can do, so the UI can hide what doesn't apply
+ */
+export interface BackendCapabilities {
+  multimodal: boolean; // Image, audio and video input
+  offMainThread: boolean; // Inference runs in a worker
+  resumableDownloads: boolean; // Downloads go through the model store (pause/resume/verify)
+  formats: readonly ModelFormat[];
+  sampling: readonly SamplingOption[]; // Generation options the backend honours
+}
+
+export interface LLMBackend {
+  readonly id: BackendId;
+  readonly name: string;
+
+  /**
+   * Load a model; onProgress receives load progress for backends that fetch it themselves
+   */
+  initialize(
+    config: ModelConfig,
+    options?: GenerationOptions,
+    onProgress?: (progress: ModelLoadProgress) => void
+  ): Promise<void>;
+
+  generate(
+    prompt: string | ChatTurn[],
+    options: GenerationOptions,
+    verbosity?: Verbosity,
+    systemPromptSettings?: SystemPromptSettings,
+    structuredOutputSettings?: StructuredOutputSettings,
+    safetySettings?: SafetySettings,
+    toolInstruction?: string
+  ): Promise<GenerationResult>;
+
+  /**
+   * Stream a response; resolves once the final token (with metadata) has been delivered
+   */
+  generateStreaming(
+    prompt: string | ChatTurn[],
+    options: GenerationOptions,
+    onToken: TokenCallback,
+    verbosity?: Verbosity,
+    systemPromptSettings?: SystemPromptSettings,
+    structuredOutputSettings?: StructuredOutputSettings,
+    safetySettings?: SafetySettings,
+    toolInstruction?: string
+  ): Promise<void>;
+
+  unload(): Promise<void>;
+  isLoaded(): boolean;
+  getConfig(): ModelConfig | null;
+  getCapabilities(): BackendCapabilities;
+}
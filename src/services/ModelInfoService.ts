@@ -4,6 +4,16 @@
  * @author Dr. Ernesto Lee
  */
 
+import type { MessageMetadata } from '../types';
+
+/**
+ * Streaming latency breakdown recorded per inference (ms)
+ */
+export type InferenceTimings = Pick<
+  MessageMetadata,
+  'prefillTime' | 'decodeTime' | 'interTokenLatencyP50' | 'interTokenLatencyP95'
+>;
+
 export interface ModelInfo {
   // Model Details
   name: string;
@@ -18,7 +28,11 @@ export interface ModelInfo {
 
   // Performance Stats
   averageTokensPerSecond: number;
-  averageLatency: number; // ms
+  averageLatency: number; // ms (time to first token)
+  averagePrefillTime: number; // ms
+  averageDecodeTime: number; // ms
+  averageInterTokenP50: number; // ms
+  averageInterTokenP95: number; // ms
   totalInferences: number;
   totalTokensGenerated: number;
 
@@ -37,6 +51,7 @@ export class ModelInfoService {
     tokensPerSecond: number;
     latency: number;
     tokens: number;
+    timings: InferenceTimings;
   }> = [];
 
   /**
@@ -64,6 +79,10 @@ export class ModelInfoService {
       // Performance stats
       averageTokensPerSecond: perfStats.avgTokensPerSecond,
       averageLatency: perfStats.avgLatency,
+      averagePrefillTime: perfStats.avgPrefillTime,
+      averageDecodeTime: perfStats.avgDecodeTime,
+      averageInterTokenP50: perfStats.avgInterTokenP50,
+      averageInterTokenP95: perfStats.avgInterTokenP95,
       totalInferences: this.inferenceHistory.length,
       totalTokensGenerated: perfStats.totalTokens,
 
@@ -81,11 +100,17 @@ export class ModelInfoService {
   /**
    * Record inference performance
    */
-  recordInference(tokensPerSecond: number, latency: number, tokens: number) {
+  recordInference(tokensPerSecond: number, latency: number, tokens: number, timings: InferenceTimings = {}) {
     this.inferenceHistory.push({
       tokensPerSecond,
       latency,
       tokens,
+      timings: {
+        prefillTime: timings.prefillTime,
+        decodeTime: timings.decodeTime,
+        interTokenLatencyP50: timings.interTokenLatencyP50,
+        interTokenLatencyP95: timings.interTokenLatencyP95,
+      },
     });
 
     // Keep only last 100 inferences to avoid memory bloat
@@ -151,6 +176,10 @@ export class ModelInfoService {
       return {
         avgTokensPerSecond: 0,
         avgLatency: 0,
+        avgPrefillTime: 0,
+        avgDecodeTime: 0,
+        avgInterTokenP50: 0,
+        avgInterTokenP95: 0,
         totalTokens: 0,
       };
     }
@@ -162,10 +191,26 @@ export class ModelInfoService {
     return {
       avgTokensPerSecond: Math.round(totalTokensPerSecond / this.inferenceHistory.length),
       avgLatency: Math.round(totalLatency / this.inferenceHistory.length),
+      avgPrefillTime: this.averageTiming('prefillTime'),
+      avgDecodeTime: this.averageTiming('decodeTime'),
+      avgInterTokenP50: this.averageTiming('interTokenLatencyP50'),
+      avgInterTokenP95: this.averageTiming('interTokenLatencyP95'),
       totalTokens,
     };
   }
 
+  /**
+   * Average a timing over the inferences that reported it
+   */
+  private averageTiming(key: keyof InferenceTimings): number {
+    const values = this.inferenceHistory
+      .map((inf) => inf.timings[key])
+      .filter((value): value is number => value !== undefined);
+
+    if (values.length === 0) return 0;
+    return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  }
+
   /**
    * Get platform information
    */
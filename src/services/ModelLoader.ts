@@ -1,198 +1,507 @@
 /**
  * Model Loading Service
- * Handles downloading and caching models from CloudFlare R2
+ * Handles downloading models from CloudFlare R2 into the model store
  *
  * @author Dr. Ernesto Lee
  */
 
-import { openDB, type IDBPDatabase } from 'idb';
 import type { ModelConfig } from '../config/models';
-import type { ModelLoadProgress } from '../types';
+import type { AppSettings, DownloadState, ModelLoadProgress } from '../types';
+import { modelStore, type ModelStoreEntry } from './ModelStore';
 
-const DB_NAME = 'browsergpt-models';
-const DB_VERSION = 1;
-const STORE_NAME = 'models';
+// Each Range request fetches and persists one chunk
+const CHUNK_SIZE = 16 * 1024 * 1024; // 16 MB
 
-export class ModelLoader {
-  private db: IDBPDatabase | null = null;
+// Automatic retries after network errors, with exponential backoff
+const MAX_AUTO_RETRIES = 5;
+const RETRY_BASE_DELAY = 2000; // ms
 
-  async initialize(): Promise<void> {
-    this.db = await openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME);
-        }
-      },
-    });
+const LARGE_MODEL_THRESHOLD = 500 * 1024 * 1024; // 500 MB
+
+/**
+ * How stored models make room for new downloads
+ */
+export type StoragePolicy = Pick<AppSettings['storage'], 'evictLeastRecentlyUsed' | 'maxStoredModels'>;
+
+const DEFAULT_STORAGE_POLICY: StoragePolicy = {
+  evictLeastRecentlyUsed: true,
+  maxStoredModels: 0,
+};
+
+/**
+ * Thrown for HTTP errors that retrying won't fix
+ */
+class PermanentDownloadError extends Error {}
+
+// Models eviction must skip: reported by the engines and background downloads,
+// plus the downloads running in any loader
+const inUseSources = new Set<() => Iterable<string>>();
+const downloadingModelIds = new Set<string>();
+
+export class ModelLoader {
+  /**
+   * Report models in use elsewhere (loaded, or downloading in the background)
+   * so making room never deletes their files
+   * @returns Function that stops reporting
+   */
+  static addInUseModels(source: () => Iterable<string>): () => void {
+    inUseSources.add(source);
+    return () => {
+      inUseSources.delete(source);
+    };
   }
 
+  // Controls for the download in progress
+  private activeController: AbortController | null = null;
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiters: Array<() => void> = [];
+  private retryWaiter: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
   /**
-   * Load model with progress tracking
-   * For large models (>500MB), optionally skip caching based on user settings
+   * Make sure a complete, verified copy of the model is in the model store
+   * Downloads resume from the chunks already stored; a stored model needs no network.
    */
   async loadModel(
     config: ModelConfig,
     onProgress?: (progress: ModelLoadProgress) => void,
-    cacheLargeModels: boolean = false
-  ): Promise<ArrayBuffer | null> {
-    const LARGE_MODEL_THRESHOLD = 500 * 1024 * 1024; // 500 MB
-
-    // Check cache first
-    const cached = await this.getFromCache(config.id);
-    if (cached) {
+    policy: StoragePolicy = DEFAULT_STORAGE_POLICY
+  ): Promise<void> {
+    if (modelStore.isAvailable(config, await modelStore.getEntry(config.id))) {
       console.log(`✅ Model loaded from cache: ${config.name}`);
-      return cached;
+    } else if (config.custom?.source === 'file') {
+      throw new Error(
+        `${config.name} was added from a local file that is no longer stored in this browser. ` +
+        `Remove it and add ${config.custom.fileName || 'the file'} again in Settings → Model.`
+      );
+    } else {
+      console.log(`⬇️ Downloading model: ${config.name} (${this.formatBytes(config.size)})`);
+      await this.downloadWithProgress(config, onProgress, policy);
+      await this.verifyDownload(config, onProgress);
+      console.log(`✓ Model downloaded successfully: ${config.name}`);
+    }
+
+    const evicted = await modelStore.enforceModelLimit(policy.maxStoredModels, this.getInUseModelIds(config));
+    if (evicted.length > 0) {
+      console.log(`🧹 Evicted least recently used models: ${evicted.join(', ')}`);
+    }
+  }
+
+  /**
+   * Copy a model picked from disk into the model store, chunk by chunk
+   */
+  async importFile(
+    config: ModelConfig,
+    file: File,
+    onProgress?: (progress: ModelLoadProgress) => void,
+    policy: StoragePolicy = DEFAULT_STORAGE_POLICY
+  ): Promise<void> {
+    console.log(`📂 Importing model file: ${file.name} (${this.formatBytes(file.size)})`);
+    const entry = await modelStore.prepareEntry(config, file.size, CHUNK_SIZE);
+    await this.ensureStorageSpace(config, file.size - entry.storedBytes, policy);
+
+    const chunkCount = Math.ceil(file.size / CHUNK_SIZE);
+    for (let index = 0; index < chunkCount; index++) {
+      const start = index * CHUNK_SIZE;
+      const data = await file.slice(start, Math.min(file.size, start + CHUNK_SIZE)).arrayBuffer();
+      await modelStore.writeChunk(entry, index, data);
+
+      const loaded = Math.min(file.size, start + CHUNK_SIZE);
+      onProgress?.({
+        modelId: config.id,
+        loaded,
+        total: file.size,
+        percentage: (loaded / file.size) * 100,
+        speed: 0,
+        eta: 0,
+      });
     }
 
-    // For large models, decide whether to cache based on user preference
+    await this.verifyDownload(config, onProgress);
+    console.log(`✓ Model file imported: ${config.name}`);
+  }
+
+  /**
+   * Drop a large model's stored copy once it is loaded, unless the user caches large models
+   * (>500MB). Smaller models are always kept.
+   */
+  async releaseUncachedModel(config: ModelConfig, cacheLargeModels: boolean): Promise<void> {
+    // Models added from a file can't be downloaded again
+    if (config.custom?.source === 'file') return;
+
     if (config.size > LARGE_MODEL_THRESHOLD && !cacheLargeModels) {
       console.log(`⚡ Large model detected: ${config.name} (${this.formatBytes(config.size)})`);
-      console.log(`   Downloading with progress tracking (not caching to save space)`);
+      console.log(`   Not caching to save space`);
       console.log(`   💡 Tip: Enable "Cache Large Models" in Settings to speed up future loads`);
+      await modelStore.deleteModel(config.id);
+      return;
+    }
 
-      // Download with progress but don't allocate memory
-      await this.downloadWithProgress(config, onProgress, true);
+    console.log(`💾 Model cached: ${config.name}`);
+  }
 
-      console.log(`✓ Model downloaded successfully: ${config.name}`);
-      return null; // MediaPipe will use from browser cache
-    }
+  /**
+   * Pause the download in progress (the current chunk is discarded)
+   */
+  pauseDownload(): void {
+    if (!this.activeController || this.paused) return;
+    console.log('⏸️ Download paused');
+    this.paused = true;
+    this.activeController.abort();
+  }
 
-    // For small models or when user wants to cache large models, download and cache
-    console.log(`⬇️ Downloading model: ${config.name} (${this.formatBytes(config.size)})`);
-    const arrayBuffer = await this.downloadWithProgress(config, onProgress);
+  /**
+   * Resume a paused download
+   */
+  resumeDownload(): void {
+    if (!this.paused) return;
+    console.log('▶️ Download resumed');
+    this.paused = false;
+    this.resumeWaiters.splice(0).forEach((resume) => resume());
+  }
 
-    // Cache for future use
-    await this.saveToCache(config.id, arrayBuffer);
-    console.log(`💾 Model cached: ${config.name}`);
+  /**
+   * Retry a download that failed after its automatic retries
+   */
+  retryDownload(): void {
+    this.retryWaiter?.resolve();
+    this.retryWaiter = null;
+  }
 
-    return arrayBuffer;
+  /**
+   * Cancel the download; completed chunks are kept for next time
+   */
+  cancelDownload(): void {
+    console.log('⏹️ Download cancelled');
+    this.cancelled = true;
+    this.paused = false;
+    this.activeController?.abort();
+    this.resumeWaiters.splice(0).forEach((resume) => resume());
+    this.retryWaiter?.reject(this.createCancelError());
+    this.retryWaiter = null;
   }
 
   /**
-   * Download model with progress tracking
+   * Download model in chunks with Range requests, persisting each completed chunk
+   * Network errors are retried automatically; after that the user can retry.
    */
   private async downloadWithProgress(
     config: ModelConfig,
-    onProgress?: (progress: ModelLoadProgress) => void,
-    trackOnly: boolean = false
-  ): Promise<ArrayBuffer> {
-    const response = await fetch(config.url);
+    onProgress: ((progress: ModelLoadProgress) => void) | undefined,
+    policy: StoragePolicy
+  ): Promise<void> {
+    this.paused = false;
+    this.cancelled = false;
 
-    if (!response.ok) {
-      throw new Error(`Failed to load model: ${response.statusText}`);
+    // Ask the browser not to evict partial downloads under storage pressure
+    navigator.storage?.persist?.().catch(() => false);
+
+    const entry = await this.prepareDownload(config, policy);
+    const { size } = entry;
+
+    const chunkCount = Math.ceil(size / CHUNK_SIZE);
+    const completed = new Set(entry.completedChunks);
+    const chunkBytes = (index: number) => Math.min(CHUNK_SIZE, size - index * CHUNK_SIZE);
+
+    const resumedBytes = entry.storedBytes;
+    if (resumedBytes > 0) {
+      console.log(`⏯️ Resuming download at ${this.formatBytes(resumedBytes)} of ${this.formatBytes(size)}`);
     }
 
-    const total = config.size;
-    let loaded = 0;
-    const startTime = Date.now();
+    let sessionBytes = 0; // Downloaded in this session, for speed and ETA
+    let sessionStart = Date.now();
+    let storedBytes = resumedBytes;
+
+    const report = (inFlight: number, state: DownloadState, extra: Partial<ModelLoadProgress> = {}) => {
+      if (!onProgress) return;
+      const loaded = Math.min(size, storedBytes + inFlight);
+      const elapsed = (Date.now() - sessionStart) / 1000;
+      const speed = elapsed > 0 ? (sessionBytes + inFlight) / elapsed : 0;
+      const remaining = Math.max(0, size - loaded);
 
-    // Emit initial progress to show 0% immediately
-    if (onProgress) {
       onProgress({
         modelId: config.id,
-        loaded: 0,
-        total,
-        percentage: 0,
-        speed: 0,
-        eta: 0,
+        loaded,
+        total: size,
+        percentage: Math.min(100, Math.max(0, (loaded / size) * 100)),
+        speed,
+        eta: remaining > 0 && speed > 0 ? remaining / speed : 0,
+        state,
+        resumedBytes,
+        ...extra,
       });
+    };
+
+    // Emit initial progress to show resumed bytes immediately
+    report(0, 'downloading');
+
+    this.activeController = new AbortController();
+    let attempt = 0;
+    downloadingModelIds.add(config.id);
+
+    try {
+      for (let index = 0; index < chunkCount; index++) {
+        if (completed.has(index)) continue;
+
+        while (true) {
+          if (this.cancelled) throw this.createCancelError();
+
+          if (this.paused) {
+            report(0, 'paused');
+            await this.waitForResume();
+            sessionBytes = 0;
+            sessionStart = Date.now();
+            continue;
+          }
+
+          if (!navigator.onLine) {
+            console.log('📴 Offline, waiting for the network to come back...');
+            report(0, 'offline');
+            await this.waitForOnline(this.activeController.signal);
+            if (this.paused) {
+              // Pausing aborted the controller while offline: start a fresh one
+              this.activeController = new AbortController();
+            }
+            continue;
+          }
+
+          try {
+            const start = index * CHUNK_SIZE;
+            const data = await this.fetchRange(
+              entry.url,
+              start,
+              start + chunkBytes(index) - 1,
+              this.activeController.signal,
+              (received) => report(received, 'downloading')
+            );
+
+            await modelStore.writeChunk(entry, index, data);
+            completed.add(index);
+
+            storedBytes += data.byteLength;
+            sessionBytes += data.byteLength;
+            attempt = 0;
+            report(0, 'downloading');
+            break;
+          } catch (error) {
+            if (this.paused || this.cancelled) {
+              // Aborted on purpose: start a fresh controller for the next request
+              this.activeController = new AbortController();
+              continue;
+            }
+            if (error instanceof PermanentDownloadError) {
+              throw error;
+            }
+
+            const message = error instanceof Error ? error.message : String(error);
+            attempt++;
+
+            if (attempt <= MAX_AUTO_RETRIES) {
+              const delay = RETRY_BASE_DELAY * 2 ** (attempt - 1);
+              console.warn(`⚠️ Chunk ${index + 1}/${chunkCount} failed (${message}), retrying in ${delay / 1000}s`);
+              report(0, 'retrying', { retryAttempt: attempt, retryIn: delay / 1000, error: message });
+              await this.delay(delay);
+            } else {
+              console.error(`❌ Download failed after ${MAX_AUTO_RETRIES} retries:`, message);
+              report(0, 'failed', { error: message });
+              await this.waitForRetry();
+              attempt = 0;
+            }
+          }
+        }
+      }
+    } finally {
+      downloadingModelIds.delete(config.id);
+      this.activeController = null;
+      this.paused = false;
     }
+  }
+
+  /**
+   * The model being stored plus every model loaded or downloading
+   */
+  private getInUseModelIds(config: ModelConfig): Set<string> {
+    const modelIds = new Set([config.id, ...downloadingModelIds]);
+    inUseSources.forEach((source) => {
+      for (const modelId of source()) {
+        modelIds.add(modelId);
+      }
+    });
+    return modelIds;
+  }
 
+  /**
+   * Store entry for (resuming) a download, with room made for the remaining bytes
+   * Also used by background prefetches, which download the chunks elsewhere.
+   */
+  async prepareDownload(config: ModelConfig, policy: StoragePolicy = DEFAULT_STORAGE_POLICY): Promise<ModelStoreEntry> {
+    const size = (await this.probeSize(config.url)) ?? config.size;
+    if (!size) {
+      throw new PermanentDownloadError(`Could not determine the size of ${config.name}; the server must report Content-Length`);
+    }
+    const entry = await modelStore.prepareEntry(config, size, CHUNK_SIZE);
+    await this.ensureStorageSpace(config, size - entry.storedBytes, policy);
+    return entry;
+  }
+
+  /**
+   * Fetch one byte range (inclusive), reporting bytes as they arrive
+   */
+  private async fetchRange(
+    url: string,
+    start: number,
+    end: number,
+    signal: AbortSignal,
+    onBytes: (received: number) => void
+  ): Promise<ArrayBuffer> {
+    const response = await fetch(url, {
+      headers: { Range: `bytes=${start}-${end}` },
+      signal,
+    });
+
+    if (!response.ok) {
+      const message = `Failed to load model: ${response.status} ${response.statusText}`;
+      // Server errors and rate limits may clear up; other HTTP errors won't
+      if (response.status >= 500 || response.status === 408 || response.status === 429) {
+        throw new Error(message);
+      }
+      throw new PermanentDownloadError(message);
+    }
+    if (response.status !== 206) {
+      throw new PermanentDownloadError('Model host does not support resumable (Range) downloads');
+    }
+
+    const expected = end - start + 1;
+    const data = new Uint8Array(expected);
     const reader = response.body!.getReader();
-    const chunks: Uint8Array[] = [];
+    let received = 0;
 
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
-
-      // Only store chunks if we're not in track-only mode
-      if (!trackOnly) {
-        chunks.push(value);
-      }
-      loaded += value.length;
-
-      if (onProgress) {
-        const elapsed = (Date.now() - startTime) / 1000; // seconds
-        const speed = loaded / elapsed; // bytes per second
-        const remaining = Math.max(0, total - loaded);
-        const eta = remaining > 0 ? remaining / speed : 0;
-
-        // Cap percentage at 100% and ensure it's not negative
-        const percentage = Math.min(100, Math.max(0, (loaded / total) * 100));
-
-        onProgress({
-          modelId: config.id,
-          loaded: Math.min(loaded, total), // Don't show more than total
-          total,
-          percentage,
-          speed,
-          eta,
-        });
+      if (received + value.length > expected) {
+        throw new Error('Received more data than requested');
       }
+      data.set(value, received);
+      received += value.length;
+      onBytes(received);
     }
 
-    // If track-only mode, return empty ArrayBuffer
-    if (trackOnly) {
-      return new ArrayBuffer(0);
+    if (received !== expected) {
+      throw new Error(`Connection closed early (${received} of ${expected} bytes)`);
     }
 
-    // Concatenate all chunks - with error handling for large allocations
+    return data.buffer;
+  }
+
+  /**
+   * Exact file size from a HEAD request, if the server reports one
+   */
+  async probeSize(url: string): Promise<number | null> {
     try {
-      const concatenated = new Uint8Array(loaded);
-      let position = 0;
-      for (const chunk of chunks) {
-        concatenated.set(chunk, position);
-        position += chunk.length;
-      }
+      const response = await fetch(url, { method: 'HEAD' });
+      const length = Number(response.headers.get('Content-Length'));
+      return response.ok && length > 0 ? length : null;
+    } catch {
+      return null;
+    }
+  }
 
-      return concatenated.buffer;
-    } catch (error) {
-      // ArrayBuffer allocation failed - likely out of memory
-      const errorMessage = `Failed to allocate memory for model ${config.name} (${this.formatBytes(loaded)}). ` +
-        `Your browser may not have enough memory available. ` +
-        `Try:\n` +
-        `1. Switching to a smaller model (CAESAR 270M uses only 297 MB)\n` +
-        `2. Disabling "Cache Large Models" in Settings\n` +
-        `3. Closing other tabs to free up memory`;
+  /**
+   * Make sure there is room for the rest of a download, evicting least recently
+   * used models first if the policy allows
+   */
+  private async ensureStorageSpace(config: ModelConfig, bytesNeeded: number, policy: StoragePolicy): Promise<void> {
+    const { usage, quota } = await this.getStorageUsage();
+    if (quota === 0 || bytesNeeded <= 0) return; // Quota unknown, or nothing left to download
+
+    let available = quota - usage;
+    if (available >= bytesNeeded) return;
+
+    if (policy.evictLeastRecentlyUsed) {
+      const evicted = await modelStore.evictForSpace(bytesNeeded - available, this.getInUseModelIds(config));
+      if (evicted.length > 0) {
+        console.log(`🧹 Evicted least recently used models to make room: ${evicted.join(', ')}`);
+        const estimate = await this.getStorageUsage();
+        available = estimate.quota - estimate.usage;
+      }
+    }
 
-      console.error('❌ ArrayBuffer allocation failed:', error);
-      throw new Error(errorMessage);
+    if (available < bytesNeeded) {
+      throw new Error(
+        `Not enough storage for ${config.name}: ${this.formatBytes(bytesNeeded)} needed, ` +
+        `${this.formatBytes(Math.max(0, available))} available.\n\n` +
+        `Delete stored models in Settings → Advanced → Storage, or free up disk space.`
+      );
     }
   }
 
   /**
-   * Get model from IndexedDB cache
+   * Check the downloaded file against the SHA-256 digest in MODEL_CONFIG
+   * A mismatch discards the download so the next attempt starts clean.
    */
-  private async getFromCache(modelId: string): Promise<ArrayBuffer | null> {
-    if (!this.db) await this.initialize();
-    try {
-      return await this.db!.get(STORE_NAME, modelId);
-    } catch (error) {
-      console.warn('Cache read error:', error);
-      return null;
+  async verifyDownload(
+    config: ModelConfig,
+    onProgress?: (progress: ModelLoadProgress) => void
+  ): Promise<void> {
+    if (!config.sha256) {
+      console.warn(`⚠️ No SHA-256 digest configured for ${config.name}, skipping integrity check`);
+      return;
+    }
+
+    const { matches } = await modelStore.verifyModel(config, onProgress);
+    if (!matches) {
+      await modelStore.deleteModel(config.id);
+      throw new Error(
+        `Integrity check failed for ${config.name}: the downloaded file does not match its SHA-256 digest. ` +
+        `The corrupted download was discarded; please try again.`
+      );
     }
   }
 
+  private waitForResume(): Promise<void> {
+    return new Promise((resolve) => this.resumeWaiters.push(resolve));
+  }
+
+  private waitForRetry(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.retryWaiter = { resolve, reject };
+    });
+  }
+
   /**
-   * Save model to IndexedDB cache
+   * Wait for the network to come back; pausing or cancelling (which abort the
+   * signal) wakes the loop too
    */
-  private async saveToCache(modelId: string, data: ArrayBuffer): Promise<void> {
-    if (!this.db) await this.initialize();
-    try {
-      await this.db!.put(STORE_NAME, data, modelId);
-    } catch (error) {
-      console.error('Cache write error:', error);
-    }
+  private waitForOnline(signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        window.removeEventListener('online', done);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+      window.addEventListener('online', done);
+      signal.addEventListener('abort', done);
+    });
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private createCancelError(): DOMException {
+    return new DOMException('Download cancelled', 'AbortError');
   }
 
   /**
    * Clear all cached models
    */
   async clearCache(): Promise<void> {
-    if (!this.db) await this.initialize();
-    const tx = this.db!.transaction(STORE_NAME, 'readwrite');
-    await tx.objectStore(STORE_NAME).clear();
-    await tx.done;
+    await modelStore.clear();
     console.log('🗑️ Model cache cleared');
   }
 
@@ -0,0 +1,153 @@
+/**
+ * Model Recommendation Service
+ * Picks the best model for this device from WebGPU and system capabilities,
+ * checks models against their memory requirements and chooses smaller fallbacks
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import {
+  MODEL_CONFIG,
+  formatBytes,
+  getAvailableModels,
+  getModelBackend,
+  selectModelByCapability,
+  type ModelConfig,
+} from '../config/models';
+import type { BackendId } from '../types';
+import { webGPUDetector } from './WebGPUDetector';
+import { SystemInfoService, type SystemInfo } from './SystemInfoService';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Runtime memory per byte of weights (KV cache, activations), turning the
+// detector's maximum model size into a memory budget
+const RUNTIME_OVERHEAD = 1.4;
+
+// Share of device RAM a tab can realistically give to a model
+const DEVICE_MEMORY_SHARE = 0.75;
+
+// Phones and tablets kill tabs long before RAM runs out
+const MOBILE_MEMORY_BUDGET = 1 * GB;
+
+export interface DeviceProfile {
+  tier: 'high' | 'medium' | 'low'; // WebGPUDetector performance tier
+  webgpu: boolean;
+  deviceMemory: number | null; // Bytes (navigator.deviceMemory, capped at 8 GB by browsers)
+  isMobile: boolean;
+  memoryBudget: number; // Bytes a model may need (compared with recommended.minMemory)
+}
+
+export interface ModelRecommendation {
+  model: ModelConfig;
+  profile: DeviceProfile;
+  reason: string;
+}
+
+export interface ModelFit {
+  fits: boolean;
+  required: number; // recommended.minMemory (bytes)
+  available: number; // Device memory budget (bytes)
+  warning: string | null; // Shown before loading a model that doesn't fit
+}
+
+export class ModelRecommendationService {
+  private profile: Promise<DeviceProfile> | null = null;
+
+  /**
+   * Device capabilities relevant to model choice (detected once)
+   * @param systemInfo - Already collected system info; collected here if missing
+   */
+  getDeviceProfile(systemInfo?: SystemInfo | null): Promise<DeviceProfile> {
+    if (!this.profile) {
+      this.profile = this.detectProfile(systemInfo);
+    }
+    return this.profile;
+  }
+
+  /**
+   * Best built-in model of a backend for this device
+   */
+  async recommend(backend: BackendId, systemInfo?: SystemInfo | null): Promise<ModelRecommendation> {
+    const profile = await this.getDeviceProfile(systemInfo);
+    const candidates = getAvailableModels(backend).filter((model) => !model.custom);
+    const model = selectModelByCapability(['text'], profile.memoryBudget, candidates);
+
+    const details = [
+      `${profile.tier} performance ${profile.webgpu ? 'WebGPU' : 'graphics'}`,
+      profile.deviceMemory && `${formatBytes(profile.deviceMemory)} memory`,
+      profile.isMobile && 'mobile device',
+    ].filter(Boolean);
+
+    console.log(`🎯 Recommended model: ${model.name} (${details.join(', ')})`);
+    return { model, profile, reason: `Best fit for this device: ${details.join(', ')}` };
+  }
+
+  /**
+   * Check a model's memory requirement against this device
+   */
+  async checkModelFit(config: ModelConfig, systemInfo?: SystemInfo | null): Promise<ModelFit> {
+    const profile = await this.getDeviceProfile(systemInfo);
+    const required = config.recommended.minMemory;
+    const fits = required <= profile.memoryBudget;
+
+    return {
+      fits,
+      required,
+      available: profile.memoryBudget,
+      warning: fits
+        ? null
+        : `${config.name} needs about ${formatBytes(required)} of memory, but this device can likely spare only ` +
+          `${formatBytes(profile.memoryBudget)}. Loading it may fail or crash the tab.`,
+    };
+  }
+
+  /**
+   * Next smaller model to try after a model ran out of memory
+   * Prefers the same backend, ending with CAESAR 270M (the smallest model)
+   */
+  getFallbackModel(config: ModelConfig): ModelConfig | null {
+    const smaller = getAvailableModels(getModelBackend(config))
+      .filter((model) => !model.custom && model.recommended.minMemory < config.recommended.minMemory)
+      .sort((a, b) => b.recommended.minMemory - a.recommended.minMemory);
+
+    if (smaller.length > 0) {
+      return smaller[0];
+    }
+
+    const smallest = MODEL_CONFIG.models.gemma270m;
+    return config.id === smallest.id ? null : smallest;
+  }
+
+  private async detectProfile(systemInfo?: SystemInfo | null): Promise<DeviceProfile> {
+    const info = systemInfo || (await SystemInfoService.collect());
+    const [capabilities, tier, hints] = await Promise.all([
+      webGPUDetector.detect(),
+      webGPUDetector.getPerformanceTier(),
+      webGPUDetector.getOptimizationHints(),
+    ]);
+
+    const deviceMemory = info.deviceMemory ? info.deviceMemory * GB : null;
+    const isMobile = info.isMobile || info.isTablet;
+
+    const budgets = [hints.maxModelSize * MB * RUNTIME_OVERHEAD];
+    if (deviceMemory) {
+      budgets.push(deviceMemory * DEVICE_MEMORY_SHARE);
+    }
+    if (isMobile) {
+      budgets.push(MOBILE_MEMORY_BUDGET);
+    }
+
+    return {
+      tier,
+      webgpu: capabilities.supported,
+      deviceMemory,
+      isMobile,
+      memoryBudget: Math.min(...budgets),
+    };
+  }
+}
+
+// Singleton instance
+export const modelRecommendationService = new ModelRecommendationService();
@@ -0,0 +1,548 @@
+/**
+ * Model Store
+ * Keeps downloaded models in the Origin Private File System, one directory of
+ * chunk files per model, with a metadata entry per model in IndexedDB
+ *
+ * Browsers without writable OPFS files fall back to storing chunks in IndexedDB.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import { openDB, type IDBPDatabase } from 'idb';
+import { findModelConfig, type ModelConfig } from '../config/models';
+import type { ModelLoadProgress, StoredModel } from '../types';
+import { Sha256 } from '../utils/sha256';
+
+const DB_NAME = 'browsergpt-models';
+const DB_VERSION = 3;
+const ENTRY_STORE = 'entries'; // ModelStoreEntry per model
+const CHUNK_STORE = 'chunks'; // Chunk data when OPFS is unavailable, keyed "modelId:index"
+
+// Stores used by earlier versions; their models are moved into the current
+// layout after opening, and the stores stay readable until that is done
+const LEGACY_MODEL_STORE = 'models'; // Whole model ArrayBuffers, keyed by model ID (version 1)
+const LEGACY_DOWNLOAD_STORE = 'downloads'; // LegacyDownloadRecord per model, chunks in CHUNK_STORE (version 2)
+const LEGACY_CHUNK_SIZE = 16 * 1024 * 1024; // ModelLoader's chunk size, used to split whole models
+
+const OPFS_DIRECTORY = 'models';
+
+/**
+ * Stored model with the chunk layout of its download
+ */
+export interface ModelStoreEntry extends StoredModel {
+  chunkSize: number;
+  completedChunks: number[];
+}
+
+export interface VerifyResult {
+  checksum: string;
+  matches: boolean | null; // null when MODEL_CONFIG has no digest to compare with
+}
+
+/**
+ * Download state kept by version 2, before entries
+ */
+interface LegacyDownloadRecord {
+  modelId: string;
+  url: string;
+  size: number;
+  chunkSize: number;
+  completedChunks: number[];
+  verified: boolean;
+  updatedAt: number;
+}
+
+/**
+ * Where chunk data lives
+ */
+interface ChunkStorage {
+  write(modelId: string, index: number, data: ArrayBuffer): Promise<void>;
+  read(modelId: string, index: number): Promise<Blob | null>;
+  remove(modelId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Chunk files in OPFS: models/<modelId>/<index>.part
+ */
+class OpfsChunkStorage implements ChunkStorage {
+  static isSupported(): boolean {
+    return (
+      typeof navigator !== 'undefined' &&
+      !!navigator.storage?.getDirectory &&
+      typeof FileSystemFileHandle !== 'undefined' &&
+      'createWritable' in FileSystemFileHandle.prototype
+    );
+  }
+
+  async write(modelId: string, index: number, data: ArrayBuffer): Promise<void> {
+    const directory = await this.getModelDirectory(modelId, true);
+    const file = await directory!.getFileHandle(this.fileName(index), { create: true });
+    const writable = await file.createWritable();
+    await writable.write(data);
+    await writable.close();
+  }
+
+  async read(modelId: string, index: number): Promise<Blob | null> {
+    try {
+      const directory = await this.getModelDirectory(modelId, false);
+      const file = await directory?.getFileHandle(this.fileName(index));
+      return file ? await file.getFile() : null;
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async remove(modelId: string): Promise<void> {
+    try {
+      const root = await this.getRoot();
+      await root.removeEntry(modelId, { recursive: true });
+    } catch (error) {
+      if (!this.isNotFound(error)) throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const opfs = await navigator.storage.getDirectory();
+      await opfs.removeEntry(OPFS_DIRECTORY, { recursive: true });
+    } catch (error) {
+      if (!this.isNotFound(error)) throw error;
+    }
+  }
+
+  private async getRoot(): Promise<FileSystemDirectoryHandle> {
+    const opfs = await navigator.storage.getDirectory();
+    return opfs.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+  }
+
+  private async getModelDirectory(modelId: string, create: boolean): Promise<FileSystemDirectoryHandle | null> {
+    try {
+      const root = await this.getRoot();
+      return await root.getDirectoryHandle(modelId, { create });
+    } catch (error) {
+      if (!create && this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private fileName(index: number): string {
+    return `${String(index).padStart(6, '0')}.part`;
+  }
+
+  private isNotFound(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'NotFoundError';
+  }
+}
+
+/**
+ * Chunk records in IndexedDB, for browsers without writable OPFS files
+ */
+class IndexedDbChunkStorage implements ChunkStorage {
+  constructor(private getDb: () => Promise<IDBPDatabase>) {}
+
+  async write(modelId: string, index: number, data: ArrayBuffer): Promise<void> {
+    const db = await this.getDb();
+    await db.put(CHUNK_STORE, data, this.key(modelId, index));
+  }
+
+  async read(modelId: string, index: number): Promise<Blob | null> {
+    const db = await this.getDb();
+    const data: ArrayBuffer | undefined = await db.get(CHUNK_STORE, this.key(modelId, index));
+    return data ? new Blob([data]) : null;
+  }
+
+  async remove(modelId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(CHUNK_STORE, IDBKeyRange.bound(`${modelId}:`, `${modelId}:\uffff`));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDb();
+    await db.clear(CHUNK_STORE);
+  }
+
+  private key(modelId: string, index: number): string {
+    // Zero-padded so keys sort in byte order
+    return `${modelId}:${String(index).padStart(6, '0')}`;
+  }
+}
+
+export class ModelStore {
+  private db: Promise<IDBPDatabase> | null = null;
+  private chunks: ChunkStorage;
+
+  constructor() {
+    this.chunks = OpfsChunkStorage.isSupported()
+      ? new OpfsChunkStorage()
+      : new IndexedDbChunkStorage(() => this.getDb());
+  }
+
+  /**
+   * Whether chunks are kept in OPFS (otherwise IndexedDB)
+   */
+  get usesOpfs(): boolean {
+    return this.chunks instanceof OpfsChunkStorage;
+  }
+
+  /**
+   * All stored models, most recently used first
+   */
+  async getModels(): Promise<ModelStoreEntry[]> {
+    const db = await this.getDb();
+    const entries: ModelStoreEntry[] = await db.getAll(ENTRY_STORE);
+    return entries.sort((a, b) => (b.lastUsed ?? b.downloadedAt ?? 0) - (a.lastUsed ?? a.downloadedAt ?? 0));
+  }
+
+  async getEntry(modelId: string): Promise<ModelStoreEntry | null> {
+    const db = await this.getDb();
+    return (await db.get(ENTRY_STORE, modelId)) || null;
+  }
+
+  /**
+   * Entry for downloading a model, reusing stored chunks when they belong to the same file
+   */
+  async prepareEntry(config: ModelConfig, size: number, chunkSize: number): Promise<ModelStoreEntry> {
+    const existing = await this.getEntry(config.id);
+    if (
+      existing &&
+      existing.url === config.url &&
+      existing.version === config.version &&
+      existing.size === size &&
+      existing.chunkSize === chunkSize
+    ) {
+      return existing;
+    }
+
+    if (existing) {
+      console.log('🔄 Model file changed since the last download, starting over');
+      await this.deleteModel(config.id);
+    }
+
+    const entry: ModelStoreEntry = {
+      modelId: config.id,
+      url: config.url,
+      version: config.version,
+      size,
+      storedBytes: 0,
+      complete: false,
+      downloadedAt: null,
+      lastUsed: null,
+      checksum: null,
+      verified: false,
+      chunkSize,
+      completedChunks: [],
+    };
+    await this.saveEntry(entry);
+    return entry;
+  }
+
+  /**
+   * Persist one downloaded chunk and record it in the entry
+   */
+  async writeChunk(entry: ModelStoreEntry, index: number, data: ArrayBuffer): Promise<void> {
+    await this.chunks.write(entry.modelId, index, data);
+    if (!entry.completedChunks.includes(index)) {
+      entry.completedChunks.push(index);
+      entry.storedBytes += data.byteLength;
+    }
+
+    const chunkCount = Math.ceil(entry.size / entry.chunkSize);
+    if (entry.completedChunks.length >= chunkCount) {
+      entry.complete = true;
+      entry.downloadedAt = Date.now();
+    }
+    await this.saveEntry(entry);
+  }
+
+  /**
+   * Whether a complete copy of this model version is stored
+   * (and verified, if MODEL_CONFIG declares a digest)
+   */
+  isAvailable(config: ModelConfig, entry: ModelStoreEntry | null): entry is ModelStoreEntry {
+    if (!entry || !entry.complete) return false;
+    if (entry.url !== config.url || entry.version !== config.version) return false;
+    return !config.sha256 || entry.verified;
+  }
+
+  /**
+   * Stream the stored model chunk by chunk and mark it as used
+   * Only one chunk is held in memory at a time, so large models never need one huge buffer.
+   */
+  async openReader(config: ModelConfig): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+    const entry = await this.getEntry(config.id);
+    if (!this.isAvailable(config, entry)) {
+      throw new Error(`${config.name} has not been downloaded yet`);
+    }
+
+    entry.lastUsed = Date.now();
+    await this.saveEntry(entry);
+
+    const chunkCount = Math.ceil(entry.size / entry.chunkSize);
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (index >= chunkCount) {
+          controller.close();
+          return;
+        }
+        const chunk = await this.chunks.read(config.id, index);
+        if (!chunk) {
+          controller.error(new Error(`Stored model is incomplete (missing chunk ${index + 1})`));
+          return;
+        }
+        index++;
+        controller.enqueue(new Uint8Array(await chunk.arrayBuffer()));
+      },
+    }).getReader();
+  }
+
+  /**
+   * Hash a stored model and compare it with the digest in MODEL_CONFIG
+   * The checksum and result are saved on the entry.
+   */
+  async verifyModel(
+    config: ModelConfig,
+    onProgress?: (progress: ModelLoadProgress) => void
+  ): Promise<VerifyResult> {
+    const entry = await this.getEntry(config.id);
+    if (!entry || !entry.complete) {
+      throw new Error(`${config.name} is not fully downloaded`);
+    }
+
+    console.log(`🔐 Verifying ${config.name}...`);
+    const hash = new Sha256();
+    const chunkCount = Math.ceil(entry.size / entry.chunkSize);
+    let hashed = 0;
+
+    for (let index = 0; index < chunkCount; index++) {
+      const chunk = await this.chunks.read(config.id, index);
+      if (!chunk) {
+        entry.complete = false;
+        entry.completedChunks = entry.completedChunks.filter((completed) => completed !== index);
+        entry.storedBytes = Math.max(0, entry.storedBytes - Math.min(entry.chunkSize, entry.size - index * entry.chunkSize));
+        await this.saveEntry(entry);
+        throw new Error(`Stored model is incomplete (missing chunk ${index + 1}). Please download it again.`);
+      }
+
+      hash.update(new Uint8Array(await chunk.arrayBuffer()));
+      hashed += chunk.size;
+      onProgress?.({
+        modelId: config.id,
+        loaded: hashed,
+        total: entry.size,
+        percentage: (hashed / entry.size) * 100,
+        speed: 0,
+        eta: 0,
+        state: 'verifying',
+      });
+    }
+
+    const checksum = hash.digestHex();
+    const matches = config.sha256 ? checksum === config.sha256.toLowerCase() : null;
+
+    entry.checksum = checksum;
+    entry.verified = matches === true;
+    await this.saveEntry(entry);
+
+    if (matches === false) {
+      console.warn(`⚠️ Checksum mismatch for ${config.name}`);
+    } else {
+      console.log(`✅ ${matches ? 'Integrity verified' : 'Checksum computed'}: ${config.name}`);
+    }
+    return { checksum, matches };
+  }
+
+  /**
+   * Delete one model's file and entry
+   */
+  async deleteModel(modelId: string): Promise<void> {
+    const db = await this.getDb();
+    await this.chunks.remove(modelId);
+    await db.delete(ENTRY_STORE, modelId);
+    console.log(`🗑️ Removed stored model: ${modelId}`);
+  }
+
+  /**
+   * Delete every stored model
+   */
+  async clear(): Promise<void> {
+    const db = await this.getDb();
+    await this.chunks.clear();
+    await db.clear(ENTRY_STORE);
+  }
+
+  /**
+   * Delete least recently used models until enough bytes are freed
+   * @param keepModelIds - Models in use (loaded, being downloaded or being stored), never deleted
+   * @returns IDs of the evicted models
+   */
+  async evictForSpace(bytesNeeded: number, keepModelIds: ReadonlySet<string>): Promise<string[]> {
+    const evicted: string[] = [];
+    let freed = 0;
+
+    for (const entry of (await this.getModels()).reverse()) {
+      if (freed >= bytesNeeded) break;
+      if (keepModelIds.has(entry.modelId)) continue;
+      await this.deleteModel(entry.modelId);
+      freed += entry.storedBytes;
+      evicted.push(entry.modelId);
+    }
+    return evicted;
+  }
+
+  /**
+   * Delete least recently used models beyond the limit
+   * @param keepModelIds - Models in use, never deleted (they count toward the limit)
+   * @returns IDs of the evicted models
+   */
+  async enforceModelLimit(maxModels: number, keepModelIds: ReadonlySet<string>): Promise<string[]> {
+    if (maxModels <= 0) return [];
+
+    const models = await this.getModels();
+    const kept = models.filter((entry) => keepModelIds.has(entry.modelId)).length;
+    const others = models.filter((entry) => !keepModelIds.has(entry.modelId));
+    const excess = others.slice(Math.max(0, maxModels - kept));
+    for (const entry of excess) {
+      await this.deleteModel(entry.modelId);
+    }
+    return excess.map((entry) => entry.modelId);
+  }
+
+  private async saveEntry(entry: ModelStoreEntry): Promise<void> {
+    const db = await this.getDb();
+    await db.put(ENTRY_STORE, entry, entry.modelId);
+  }
+
+  private async getDb(): Promise<IDBPDatabase> {
+    if (!this.db) {
+      this.db = openDB(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+            db.createObjectStore(ENTRY_STORE);
+          }
+          if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+            db.createObjectStore(CHUNK_STORE);
+          }
+        },
+      }).then(async (db) => {
+        try {
+          await this.migrateLegacyStores(db);
+        } catch (error) {
+          // What wasn't moved stays in the legacy stores and is retried next time
+          console.error('❌ Moving models from an earlier version failed:', error);
+        }
+        return db;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Move models stored by earlier versions into entries and chunk storage, so
+   * updating doesn't mean downloading them again. Each model is removed from
+   * the legacy stores once it has been moved.
+   */
+  private async migrateLegacyStores(db: IDBPDatabase): Promise<void> {
+    if (db.objectStoreNames.contains(LEGACY_DOWNLOAD_STORE)) {
+      const records: LegacyDownloadRecord[] = await db.getAll(LEGACY_DOWNLOAD_STORE);
+      for (const record of records) {
+        await this.migrateDownloadRecord(db, record);
+        await db.delete(LEGACY_DOWNLOAD_STORE, record.modelId);
+      }
+    }
+
+    if (db.objectStoreNames.contains(LEGACY_MODEL_STORE)) {
+      const modelIds = (await db.getAllKeys(LEGACY_MODEL_STORE)).map(String);
+      for (const modelId of modelIds) {
+        const data: ArrayBuffer | Blob | undefined = await db.get(LEGACY_MODEL_STORE, modelId);
+        if (data) {
+          await this.migrateWholeModel(db, modelId, data instanceof Blob ? data : new Blob([data]));
+        }
+        await db.delete(LEGACY_MODEL_STORE, modelId);
+      }
+    }
+  }
+
+  /**
+   * A version 2 download: its chunks are already in CHUNK_STORE under the same keys
+   */
+  private async migrateDownloadRecord(db: IDBPDatabase, record: LegacyDownloadRecord): Promise<void> {
+    const config = findModelConfig(record.modelId);
+    if (!config || (await db.get(ENTRY_STORE, record.modelId))) {
+      await new IndexedDbChunkStorage(async () => db).remove(record.modelId);
+      return;
+    }
+
+    console.log(`📦 Moving ${config.name} from an earlier version's storage`);
+    if (this.usesOpfs) {
+      const legacyChunks = new IndexedDbChunkStorage(async () => db);
+      for (const index of record.completedChunks) {
+        const chunk = await legacyChunks.read(record.modelId, index);
+        if (chunk) {
+          await this.chunks.write(record.modelId, index, await chunk.arrayBuffer());
+        }
+      }
+      await legacyChunks.remove(record.modelId);
+    }
+
+    const complete = record.completedChunks.length >= Math.ceil(record.size / record.chunkSize);
+    const entry: ModelStoreEntry = {
+      modelId: record.modelId,
+      url: record.url,
+      version: config.version,
+      size: record.size,
+      storedBytes: record.completedChunks.reduce(
+        (total, index) => total + Math.min(record.chunkSize, record.size - index * record.chunkSize),
+        0
+      ),
+      complete,
+      downloadedAt: complete ? record.updatedAt : null,
+      lastUsed: null,
+      checksum: null,
+      verified: record.verified,
+      chunkSize: record.chunkSize,
+      completedChunks: record.completedChunks,
+    };
+    await db.put(ENTRY_STORE, entry, entry.modelId);
+  }
+
+  /**
+   * A version 1 model, stored whole: split it into chunks
+   */
+  private async migrateWholeModel(db: IDBPDatabase, modelId: string, data: Blob): Promise<void> {
+    const config = findModelConfig(modelId);
+    if (!config || (await db.get(ENTRY_STORE, modelId))) return;
+
+    console.log(`📦 Moving ${config.name} from an earlier version's storage`);
+    const chunks = this.usesOpfs ? this.chunks : new IndexedDbChunkStorage(async () => db);
+    const chunkCount = Math.ceil(data.size / LEGACY_CHUNK_SIZE);
+    const completedChunks: number[] = [];
+    for (let index = 0; index < chunkCount; index++) {
+      const start = index * LEGACY_CHUNK_SIZE;
+      await chunks.write(modelId, index, await data.slice(start, start + LEGACY_CHUNK_SIZE).arrayBuffer());
+      completedChunks.push(index);
+    }
+
+    const entry: ModelStoreEntry = {
+      modelId,
+      url: config.url,
+      version: config.version,
+      size: data.size,
+      storedBytes: data.size,
+      complete: true,
+      downloadedAt: Date.now(),
+      lastUsed: null,
+      checksum: null,
+      verified: false,
+      chunkSize: LEGACY_CHUNK_SIZE,
+      completedChunks,
+    };
+    await db.put(ENTRY_STORE, entry, entry.modelId);
+  }
+}
+
+// Singleton instance
+export const modelStore = new ModelStore();
@@ -0,0 +1,412 @@
+/**
+ * Prefetch Service
+ * Downloads a model in the background while another model is in use, then loads
+ * and warms it up so the first message is fast.
+ *
+ * Where Background Fetch is available the browser runs the download (it keeps
+ * going when the tab is hidden or closed) and the service worker stores the
+ * chunks when it ends. Elsewhere the download runs in the page: it keeps going
+ * while the tab is hidden, and resumes from the stored chunks after the tab was closed.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelConfig } from '../config/models';
+import type { GenerationOptions, ModelLoadProgress, PrefetchJob } from '../types';
+import { llmBackend } from './BackendManager';
+import { ModelLoader, modelLoader, type StoragePolicy } from './ModelLoader';
+import { modelStore, type ModelStoreEntry } from './ModelStore';
+import { createAbortError, isAbortError } from '../utils/abort';
+
+// Background Fetch IDs are "model:<modelId>" (the service worker reads the model ID back)
+const BACKGROUND_FETCH_PREFIX = 'model:';
+
+// How long to wait for the service worker to say whether it can store models
+const SERVICE_WORKER_REPLY_TIMEOUT = 2000; // ms
+
+/**
+ * The parts of the Background Fetch API used here (not in TypeScript's DOM types)
+ */
+interface BackgroundFetchRegistration extends EventTarget {
+  readonly id: string;
+  readonly downloaded: number; // Bytes downloaded by this fetch
+  readonly result: '' | 'success' | 'failure';
+  abort(): Promise<boolean>;
+}
+
+interface BackgroundFetchManager {
+  fetch(
+    id: string,
+    requests: Request[],
+    options?: { title?: string; icons?: Array<{ src: string; sizes?: string; type?: string }>; downloadTotal?: number }
+  ): Promise<BackgroundFetchRegistration>;
+  get(id: string): Promise<BackgroundFetchRegistration | undefined>;
+}
+
+/**
+ * Service worker → page messages about a prefetch
+ */
+type PrefetchMessage =
+  | { type: 'PREFETCH_CHUNK'; modelId: string; storedBytes: number; size: number }
+  | { type: 'PREFETCH_COMPLETE'; modelId: string }
+  | { type: 'PREFETCH_CANCELLED'; modelId: string; error: string }
+  | { type: 'PREFETCH_ERROR'; modelId: string; error: string };
+
+/**
+ * Thrown when a Background Fetch can't be started (the page downloads instead)
+ */
+class BackgroundFetchUnavailableError extends Error {}
+
+export class PrefetchService {
+  private running = new Map<string, Promise<void>>();
+  private jobs = new Map<string, PrefetchJob>();
+  private watchers = new Map<string, Set<(job: PrefetchJob) => void>>();
+  private cancels = new Map<string, () => void>();
+  private messageHandlers = new Map<string, (message: PrefetchMessage) => void>();
+  private listening = false;
+
+  constructor() {
+    // A model downloading in the background (possibly by the browser) must not be evicted
+    ModelLoader.addInUseModels(() => this.running.keys());
+  }
+
+  /**
+   * Download a model in the background, then load and warm it up
+   * Resolves when the model is ready; failures are reported through onUpdate.
+   */
+  prefetch(
+    config: ModelConfig,
+    policy: StoragePolicy,
+    options?: GenerationOptions,
+    onUpdate?: (job: PrefetchJob) => void
+  ): Promise<void> {
+    if (onUpdate) {
+      this.watch(config.id, onUpdate);
+    }
+
+    const running = this.running.get(config.id);
+    if (running) return running;
+
+    // Ask while the user's click still counts as a gesture
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => undefined);
+    }
+
+    this.jobs.set(config.id, {
+      modelId: config.id,
+      modelName: config.name,
+      state: 'downloading',
+      progress: null,
+      warmedUp: false,
+    });
+    this.update(config.id, {});
+
+    const run = this.run(config, policy, options)
+      .catch((error) => {
+        if (isAbortError(error)) {
+          console.log(`⏹️ Background download of ${config.name} cancelled`);
+          this.finish(config.id);
+          return;
+        }
+        console.error(`❌ Background download of ${config.name} failed:`, error);
+        this.update(config.id, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+      })
+      .finally(() => {
+        this.running.delete(config.id);
+        this.cancels.delete(config.id);
+      });
+
+    this.running.set(config.id, run);
+    return run;
+  }
+
+  /**
+   * Wait for a background download of this model, if one is running
+   * (e.g. the model was picked before its prefetch finished)
+   */
+  async waitFor(modelId: string, onProgress?: (progress: ModelLoadProgress) => void): Promise<void> {
+    const running = this.running.get(modelId);
+    if (!running) return;
+
+    console.log('⏳ Waiting for the background download to finish...');
+    const watcher = (job: PrefetchJob) => {
+      if (job.progress) {
+        onProgress?.(job.progress);
+      }
+    };
+    this.watch(modelId, watcher);
+    try {
+      await running;
+    } finally {
+      this.watchers.get(modelId)?.delete(watcher);
+    }
+  }
+
+  /**
+   * Cancel a background download; chunks already stored are kept for next time
+   */
+  cancel(modelId: string): void {
+    this.cancels.get(modelId)?.();
+  }
+
+  /**
+   * Forget a finished or failed job
+   */
+  dismiss(modelId: string): void {
+    if (this.running.has(modelId)) return;
+    this.finish(modelId);
+  }
+
+  private async run(config: ModelConfig, policy: StoragePolicy, options?: GenerationOptions): Promise<void> {
+    if (!modelStore.isAvailable(config, await modelStore.getEntry(config.id))) {
+      console.log(`⬇️ Downloading ${config.name} in the background`);
+      await this.download(config, policy);
+    }
+
+    // Load it next to the active model and run a short generation, if memory allows
+    this.update(config.id, { state: 'warming', progress: null });
+    let warmedUp = false;
+    try {
+      warmedUp = await llmBackend.preload(config, options);
+    } catch (error) {
+      console.warn(`⚠️ Could not warm up ${config.name}, it will load when selected:`, error);
+    }
+
+    this.update(config.id, { state: 'ready', warmedUp });
+    console.log(`✅ ${config.name} is ready${warmedUp ? ' and warmed up' : ''}`);
+    await this.notifyReady(config, warmedUp);
+  }
+
+  private async download(config: ModelConfig, policy: StoragePolicy): Promise<void> {
+    const manager = modelStore.usesOpfs ? await this.getBackgroundFetch() : null;
+    if (manager) {
+      try {
+        await this.downloadWithBackgroundFetch(config, policy, manager);
+        return;
+      } catch (error) {
+        if (!(error instanceof BackgroundFetchUnavailableError)) {
+          throw error;
+        }
+        console.warn(`⚠️ ${error.message}, downloading in the page instead`);
+      }
+    }
+
+    // A separate loader so the foreground download controls aren't shared
+    const loader = new ModelLoader();
+    this.cancels.set(config.id, () => loader.cancelDownload());
+    await loader.loadModel(config, (progress) => this.update(config.id, { progress }), policy);
+  }
+
+  /**
+   * Have the browser download the missing chunks, then verify the file here
+   * The service worker writes the chunks when the fetch ends and reports back.
+   */
+  private async downloadWithBackgroundFetch(
+    config: ModelConfig,
+    policy: StoragePolicy,
+    manager: BackgroundFetchManager
+  ): Promise<void> {
+    const entry = await modelLoader.prepareDownload(config, policy);
+    const startedAt = Date.now();
+    const resumedBytes = entry.storedBytes;
+
+    if (!entry.complete) {
+      await new Promise<void>((resolve, reject) => {
+        let registration: BackgroundFetchRegistration | null = null;
+        const onProgress = () => {
+          const downloaded = resumedBytes + (registration?.downloaded ?? 0);
+          this.update(config.id, {
+            progress: this.toProgress(config, Math.min(entry.size, downloaded), entry.size, resumedBytes, startedAt),
+          });
+        };
+
+        const settle = (error?: Error) => {
+          registration?.removeEventListener('progress', onProgress);
+          this.messageHandlers.delete(config.id);
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        };
+
+        this.messageHandlers.set(config.id, (message) => {
+          switch (message.type) {
+            case 'PREFETCH_CHUNK':
+              this.update(config.id, {
+                progress: this.toProgress(config, message.storedBytes, message.size, resumedBytes, startedAt),
+              });
+              break;
+            case 'PREFETCH_COMPLETE':
+              settle();
+              break;
+            case 'PREFETCH_CANCELLED':
+              settle(createAbortError());
+              break;
+            case 'PREFETCH_ERROR':
+              settle(new Error(message.error));
+              break;
+          }
+        });
+
+        this.cancels.set(config.id, () => {
+          registration?.abort();
+          settle(createAbortError());
+        });
+
+        this.listen();
+        this.startBackgroundFetch(manager, config, entry)
+          .then((started) => {
+            registration = started;
+            started.addEventListener('progress', onProgress);
+            console.log(`📥 ${config.name} is downloading with Background Fetch`);
+          })
+          .catch((error) => {
+            settle(new BackgroundFetchUnavailableError(`Background Fetch could not start (${error})`));
+          });
+      });
+    }
+
+    await modelLoader.verifyDownload(config, (progress) => this.update(config.id, { progress }));
+  }
+
+  /**
+   * Start a fetch with one ranged request per missing chunk, or pick up the one
+   * still running from an earlier visit
+   */
+  private async startBackgroundFetch(
+    manager: BackgroundFetchManager,
+    config: ModelConfig,
+    entry: ModelStoreEntry
+  ): Promise<BackgroundFetchRegistration> {
+    const id = BACKGROUND_FETCH_PREFIX + config.id;
+    const existing = await manager.get(id);
+    if (existing) return existing;
+
+    const completed = new Set(entry.completedChunks);
+    const requests: Request[] = [];
+    let downloadTotal = 0;
+
+    for (let index = 0; index < Math.ceil(entry.size / entry.chunkSize); index++) {
+      if (completed.has(index)) continue;
+      const start = index * entry.chunkSize;
+      const end = Math.min(entry.size, start + entry.chunkSize) - 1;
+      // Only the Range header differs; the fragment keeps the requests distinct
+      requests.push(new Request(`${entry.url}#chunk-${index}`, { headers: { Range: `bytes=${start}-${end}` } }));
+      downloadTotal += end - start + 1;
+    }
+
+    return manager.fetch(id, requests, {
+      title: `Downloading ${config.name}`,
+      icons: [{ src: '/icon-192.png', sizes: '192x192', type: 'image/png' }],
+      downloadTotal,
+    });
+  }
+
+  private listen(): void {
+    if (this.listening) return;
+    this.listening = true;
+
+    navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+      const message = event.data as PrefetchMessage | undefined;
+      if (typeof message?.type === 'string' && message.type.startsWith('PREFETCH_')) {
+        this.messageHandlers.get(message.modelId)?.(message);
+      }
+    });
+  }
+
+  /**
+   * Background Fetch, if the browser has it and the service worker can write model files
+   */
+  private async getBackgroundFetch(): Promise<BackgroundFetchManager | null> {
+    if (!('serviceWorker' in navigator)) return null;
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | (ServiceWorkerRegistration & { backgroundFetch?: BackgroundFetchManager })
+      | undefined;
+
+    const worker = registration?.active;
+    if (!worker || !registration.backgroundFetch) return null;
+    return (await this.canStoreModels(worker)) ? registration.backgroundFetch : null;
+  }
+
+  private canStoreModels(worker: ServiceWorker): Promise<boolean> {
+    return new Promise((resolve) => {
+      const channel = new MessageChannel();
+      // An older service worker doesn't answer
+      const timer = setTimeout(() => resolve(false), SERVICE_WORKER_REPLY_TIMEOUT);
+      channel.port1.onmessage = (event) => {
+        clearTimeout(timer);
+        resolve(event.data === true);
+      };
+      worker.postMessage({ type: 'CAN_STORE_MODELS' }, [channel.port2]);
+    });
+  }
+
+  private toProgress(
+    config: ModelConfig,
+    storedBytes: number,
+    size: number,
+    resumedBytes: number,
+    startedAt: number
+  ): ModelLoadProgress {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const speed = elapsed > 0 ? (storedBytes - resumedBytes) / elapsed : 0;
+
+    return {
+      modelId: config.id,
+      loaded: storedBytes,
+      total: size,
+      percentage: Math.min(100, (storedBytes / size) * 100),
+      speed,
+      eta: speed > 0 ? (size - storedBytes) / speed : 0,
+      state: 'downloading',
+      resumedBytes,
+    };
+  }
+
+  /**
+   * Show a notification when the tab is in the background (the app shows ready models itself)
+   */
+  private async notifyReady(config: ModelConfig, warmedUp: boolean): Promise<void> {
+    if (!document.hidden || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    const body = warmedUp
+      ? `${config.name} is loaded and ready to chat.`
+      : `${config.name} is downloaded and ready to use.`;
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+
+    if (registration) {
+      await registration.showNotification('BrowserGPT', {
+        body,
+        icon: '/icon-192.png',
+        tag: `model-ready-${config.id}`,
+      });
+    } else {
+      new Notification('BrowserGPT', { body, icon: '/icon-192.png' });
+    }
+  }
+
+  private watch(modelId: string, watcher: (job: PrefetchJob) => void): void {
+    if (!this.watchers.has(modelId)) {
+      this.watchers.set(modelId, new Set());
+    }
+    this.watchers.get(modelId)!.add(watcher);
+  }
+
+  private update(modelId: string, changes: Partial<PrefetchJob>): void {
+    const job = this.jobs.get(modelId);
+    if (!job) return;
+
+    const updated = { ...job, ...changes };
+    this.jobs.set(modelId, updated);
+    this.watchers.get(modelId)?.forEach((watcher) => watcher(updated));
+  }
+
+  private finish(modelId: string): void {
+    this.jobs.delete(modelId);
+    this.watchers.delete(modelId);
+  }
+}
+
+// Singleton instance
+export const prefetchService = new PrefetchService();
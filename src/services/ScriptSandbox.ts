@@ -0,0 +1,104 @@
+/**
+ * Script Sandbox
+ * Runs JavaScript functions in a fresh sandbox frame and worker per call (see
+ * scriptSandboxFrame), with a time limit: the frame, and its worker with it,
+ * is removed when it passes. Browsers can't cap a worker's memory; results and
+ * logs are capped in size.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { FunctionExecutionContext, ScriptLimits } from '../types';
+import type { ScriptRequest, ScriptResponse } from '../workers/scriptProtocol';
+import { createSandboxDocument } from '../workers/scriptSandboxFrame';
+import { createAbortError } from '../utils/abort';
+
+export const DEFAULT_SCRIPT_LIMITS: ScriptLimits = {
+  timeoutMs: 2000,
+};
+
+export interface ScriptRunResult {
+  result: any; // The JSON value the script returned
+  logs: string[]; // Its console output
+}
+
+export class ScriptSandbox {
+  private sandboxDocument: string | null = null;
+
+  /**
+   * Run a function body with the given parameters
+   * @throws With the script's error, or when it runs out of time
+   */
+  run(
+    script: string,
+    params: Record<string, any>,
+    context: FunctionExecutionContext,
+    limits: ScriptLimits = DEFAULT_SCRIPT_LIMITS,
+    signal?: AbortSignal
+  ): Promise<ScriptRunResult> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const frame = document.createElement('iframe');
+      frame.sandbox.add('allow-scripts'); // No allow-same-origin: the frame gets an opaque origin
+      frame.style.display = 'none';
+      frame.srcdoc = this.sandboxDocument ??= createSandboxDocument();
+      const channel = new MessageChannel();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (error: unknown, result?: ScriptRunResult) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        channel.port1.close();
+        frame.remove(); // Ends the worker too
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      const onAbort = () => finish(createAbortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      channel.port1.onmessage = (event: MessageEvent<ScriptResponse>) => {
+        const response = event.data;
+        if (response.type === 'error') {
+          finish(new Error(response.error));
+        } else {
+          finish(null, { result: response.result, logs: response.logs });
+        }
+      };
+
+      frame.onload = () => {
+        timer = setTimeout(
+          () => finish(new Error(`Time limit exceeded (${limits.timeoutMs / 1000}s)`)),
+          limits.timeoutMs
+        );
+        const request: ScriptRequest = { script, params, context };
+        // An opaque origin can't be named, but only this frame's document can receive it
+        frame.contentWindow?.postMessage(request, '*', [channel.port2]);
+      };
+      document.body.appendChild(frame);
+    });
+  }
+
+  /**
+   * Check a function body for syntax errors without running it
+   * @returns The error message, or null
+   */
+  checkSyntax(script: string): string | null {
+    try {
+      const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+      new AsyncFunction('params', 'context', 'console', `"use strict";\n${script}`);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+// Singleton instance
+export const scriptSandbox = new ScriptSandbox();
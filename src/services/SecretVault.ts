@@ -0,0 +1,227 @@
+/**
+ * Secret Vault
+ * Keeps API keys and header values for custom functions encrypted in localStorage
+ * (AES-GCM, key derived from a passphrase with PBKDF2). The key lives only in
+ * memory, so the vault is unlocked once per session.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+const STORAGE_KEY = 'browsergpt-secret-vault';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'browsergpt-vault';
+
+/**
+ * Secrets stored for one function
+ */
+export interface FunctionSecrets {
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+interface EncryptedValue {
+  iv: string; // base64
+  data: string; // base64
+}
+
+/**
+ * What's written to localStorage; each entry is encrypted on its own so one can
+ * be removed while the vault is locked
+ */
+interface StoredVault {
+  version: number;
+  salt: string; // base64
+  iterations: number;
+  verifier: EncryptedValue;
+  entries: Record<string, EncryptedValue>;
+}
+
+export class SecretVault {
+  private key: CryptoKey | null = null;
+  private secrets: Map<string, FunctionSecrets> = new Map();
+
+  /**
+   * Whether a passphrase has been set
+   */
+  exists(): boolean {
+    return this.read() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Unlock the vault, creating it with this passphrase the first time
+   * @throws When the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new Error('Enter a passphrase');
+    }
+
+    const stored = this.read();
+    if (!stored) {
+      await this.create(passphrase);
+      return;
+    }
+
+    const key = await this.deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+    try {
+      await this.decrypt(key, stored.verifier);
+    } catch {
+      throw new Error('Wrong passphrase');
+    }
+
+    const secrets = new Map<string, FunctionSecrets>();
+    for (const [id, value] of Object.entries(stored.entries)) {
+      secrets.set(id, JSON.parse(await this.decrypt(key, value)));
+    }
+
+    this.key = key;
+    this.secrets = secrets;
+    console.log(`🔓 Secret vault unlocked (${secrets.size} functions)`);
+  }
+
+  /**
+   * Forget the key and decrypted secrets until the next unlock
+   */
+  lock(): void {
+    this.key = null;
+    this.secrets.clear();
+    console.log('🔒 Secret vault locked');
+  }
+
+  /**
+   * Delete the vault and every secret in it (e.g. the passphrase was forgotten)
+   */
+  reset(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    this.lock();
+  }
+
+  /**
+   * Decrypted secrets (the vault must be unlocked)
+   */
+  getSecrets(): Map<string, FunctionSecrets> {
+    return new Map(this.secrets);
+  }
+
+  /**
+   * Store a function's secrets, or remove them when there are none
+   */
+  async setSecrets(id: string, secrets: FunctionSecrets): Promise<void> {
+    const stored = this.read();
+    if (!this.key || !stored) {
+      throw new Error('Unlock the secret vault first');
+    }
+
+    if (!secrets.apiKey && !Object.keys(secrets.headers || {}).length) {
+      this.removeSecrets(id);
+      return;
+    }
+
+    stored.entries[id] = await this.encrypt(this.key, JSON.stringify(secrets));
+    this.write(stored);
+    this.secrets.set(id, secrets);
+  }
+
+  /**
+   * Remove a function's secrets (works while locked)
+   */
+  removeSecrets(id: string): void {
+    const stored = this.read();
+    if (stored && stored.entries[id]) {
+      delete stored.entries[id];
+      this.write(stored);
+    }
+    this.secrets.delete(id);
+  }
+
+  /**
+   * Whether a function has secrets stored, locked or not
+   */
+  hasSecrets(id: string): boolean {
+    return !!this.read()?.entries[id];
+  }
+
+  private async create(passphrase: string): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+    this.write({
+      version: VAULT_VERSION,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await this.encrypt(key, VERIFIER_TEXT),
+      entries: {},
+    });
+
+    this.key = key;
+    this.secrets.clear();
+    console.log('🔐 Secret vault created');
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+      'deriveKey',
+    ]);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async encrypt(key: CryptoKey, text: string): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  private async decrypt(key: CryptoKey, value: EncryptedValue): Promise<string> {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(value.iv) as BufferSource },
+      key,
+      fromBase64(value.data) as BufferSource
+    );
+    return new TextDecoder().decode(data);
+  }
+
+  private read(): StoredVault | null {
+    if (typeof localStorage === 'undefined') return null;
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return null;
+
+    try {
+      const parsed = JSON.parse(saved) as StoredVault;
+      return parsed.version === VAULT_VERSION ? parsed : null;
+    } catch (e) {
+      console.error('Failed to parse secret vault:', e);
+      return null;
+    }
+  }
+
+  private write(vault: StoredVault): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(vault));
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+// Singleton instance
+export const secretVault = new SecretVault();
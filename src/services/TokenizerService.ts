@@ -0,0 +1,137 @@
+/**
+ * Tokenizer Service
+ * Token counts for context budgeting and the usage meter
+ *
+ * Exact counts come from the loaded model's own tokenizer (MediaPipe's
+ * sizeInTokens, which runs where the model runs, possibly in the worker).
+ * Counting is asynchronous, so countTokens returns an estimate until the exact
+ * count for that text has arrived; prepare() waits for exact counts.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+/**
+ * Counts tokens for a batch of texts; null where a count isn't available
+ */
+export type TokenCounter = (texts: string[]) => Promise<Array<number | null>>;
+
+// Exact counts kept (keyed by text; messages are counted again and again)
+const COUNT_CACHE_LIMIT = 2000;
+
+/**
+ * Estimate token count from text
+ * Uses rough approximation: average of word count and chars/4
+ */
+export function estimateTokenCount(text: string): number {
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+  const chars = text.length;
+  return Math.round((words.length + chars / 4) / 2);
+}
+
+export class TokenizerService {
+  private counter: TokenCounter | null = null;
+  private counts = new Map<string, number>();
+  private queued = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Use the loaded model's tokenizer, or estimates when null (no model, or a
+   * backend without one)
+   */
+  setCounter(counter: TokenCounter | null): void {
+    this.counter = counter;
+    this.counts.clear();
+    this.queued.clear();
+    this.notify();
+  }
+
+  /**
+   * Whether exact counts are available
+   */
+  isExact(): boolean {
+    return this.counter !== null;
+  }
+
+  /**
+   * Count tokens: exact once counted, otherwise an estimate (and the exact
+   * count is requested in the background; subscribers hear when it arrives)
+   */
+  countTokens(text: string): number {
+    if (!text) return 0;
+
+    const exact = this.counts.get(text);
+    if (exact !== undefined) return exact;
+
+    if (this.counter) {
+      this.queued.add(text);
+      this.flushTimer ??= setTimeout(() => this.flush(), 0);
+    }
+    return estimateTokenCount(text);
+  }
+
+  /**
+   * Count these texts exactly so the next countTokens calls for them are exact
+   */
+  async prepare(texts: string[]): Promise<void> {
+    const missing = Array.from(new Set(texts.filter((text) => text && !this.counts.has(text))));
+    if (missing.length > 0) {
+      await this.countExactly(missing);
+    }
+  }
+
+  /**
+   * Be told when exact counts arrive or the counter changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async flush(): Promise<void> {
+    this.flushTimer = null;
+    const texts = Array.from(this.queued);
+    this.queued.clear();
+
+    if (await this.countExactly(texts)) {
+      this.notify();
+    }
+  }
+
+  /**
+   * @returns Whether any new counts were stored
+   */
+  private async countExactly(texts: string[]): Promise<boolean> {
+    const counter = this.counter;
+    if (!counter) return false;
+
+    try {
+      const counts = await counter(texts);
+      if (this.counter !== counter) return false; // The model changed meanwhile
+
+      let stored = false;
+      counts.forEach((count, index) => {
+        if (count === null) return;
+        if (this.counts.size >= COUNT_CACHE_LIMIT) {
+          this.counts.clear();
+        }
+        this.counts.set(texts[index], count);
+        stored = true;
+      });
+      return stored;
+    } catch (error) {
+      console.warn('⚠️ Token counting failed, using estimates:', error);
+      return false;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Singleton instance
+export const tokenizerService = new TokenizerService();
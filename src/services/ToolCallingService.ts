@@ -0,0 +1,393 @@
+/**
+ * Tool Calling Service
+ * Lets the model decide when to call functions using a JSON tool-call protocol
+ *
+ * The enabled functions are described in the system instruction. When the model
+ * needs one it replies with a single <tool_call>{...}</tool_call> block, which is
+ * validated, executed, and fed back so the model can write the final answer.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { InferenceEngineAPI } from './InferenceEngine';
+import type { FunctionService } from './FunctionService';
+import type {
+  AppSettings,
+  ChatTurn,
+  FunctionCall,
+  FunctionDefinition,
+  FunctionExecutionContext,
+  FunctionResult,
+  GenerationOptions,
+  MessageMetadata,
+} from '../types';
+import { tokenizerService } from './TokenizerService';
+import { MESSAGE_OVERHEAD_TOKENS } from '../utils/contextWindow';
+import { describeJsonSchema, getParameterSchema } from '../utils/jsonSchema';
+import { buildSystemInstruction } from '../utils/systemInstruction';
+
+const TOOL_CALL_OPEN = '<tool_call>';
+const TOOL_CALL_CLOSE = '</tool_call>';
+
+// Tool calls allowed per user message before the model must answer
+export const MAX_TOOL_ITERATIONS = 3;
+
+// Keep large API responses from crowding out the conversation
+const MAX_TOOL_RESULT_CHARS = 4000;
+
+export interface ToolCallingCallbacks {
+  onToken: (token: string, isDone: boolean, metadata?: MessageMetadata) => void;
+  onToolCall?: (call: FunctionCall) => void;
+  onToolResult?: (call: FunctionCall, result: FunctionResult) => void;
+}
+
+export interface ToolCallingResult {
+  text: string;
+  metadata?: MessageMetadata;
+  toolResults: FunctionResult[];
+}
+
+interface ParsedToolCall {
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * Token budget the turns must fit, re-checked as tool results are added
+ */
+export interface ToolCallingBudget {
+  contextWindow: number; // Model context window (tokens)
+  reservedTokens: number; // Tokens reserved for the response (maxTokens)
+}
+
+interface TurnResult {
+  text: string;
+  metadata?: MessageMetadata;
+  toolCall: ParsedToolCall | null;
+}
+
+export class ToolCallingService {
+  private inferenceEngine: InferenceEngineAPI;
+  private functionService: FunctionService;
+
+  constructor(inferenceEngine: InferenceEngineAPI, functionService: FunctionService) {
+    this.inferenceEngine = inferenceEngine;
+    this.functionService = functionService;
+  }
+
+  /**
+   * Functions the model may call: enabled in the registry and in settings
+   */
+  getAvailableTools(settings: AppSettings): FunctionDefinition[] {
+    if (!settings.functions.enableFunctionCalling) {
+      return [];
+    }
+
+    return this.functionService
+      .getEnabledFunctions()
+      .filter((func) => settings.functions.availableFunctions.includes(func.id));
+  }
+
+  /**
+   * The system instruction for the first pass, tool catalogue included
+   * (what the prompt budget has to leave room for)
+   */
+  getSystemInstruction(settings: AppSettings): string {
+    const tools = this.getAvailableTools(settings);
+    return this.buildFullInstruction(settings, tools.length > 0 ? this.buildToolInstruction(tools) : undefined);
+  }
+
+  /**
+   * Describe the tools and the call protocol for the system instruction
+   */
+  buildToolInstruction(tools: FunctionDefinition[]): string {
+    const descriptions = tools.map((tool) => {
+      const params = tool.parameters.length > 0
+        ? tool.parameters
+            .map((p) => `    - ${p.name} (${describeJsonSchema(getParameterSchema(p))}${p.required ? ', required' : ''}): ${p.description}`)
+            .join('\n')
+        : '    (no parameters)';
+      return `- ${tool.id}: ${tool.description}\n${params}`;
+    });
+
+    return [
+      'You can call tools to get live information. Available tools:',
+      descriptions.join('\n'),
+      `To call a tool, reply with only this and nothing else:\n${TOOL_CALL_OPEN}{"name": "tool_id", "arguments": {"parameter": "value"}}${TOOL_CALL_CLOSE}`,
+      'Only call a tool when the request needs information the tool provides. Otherwise answer directly. When a tool result is provided, use it to answer the user.',
+    ].join('\n\n');
+  }
+
+  /**
+   * Parse a tool call from model output
+   * Returns null when the output is a normal answer
+   */
+  parseToolCall(text: string): ParsedToolCall | null {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith(TOOL_CALL_OPEN)) {
+      return null;
+    }
+
+    let body = trimmed.slice(TOOL_CALL_OPEN.length);
+    const closeIndex = body.indexOf(TOOL_CALL_CLOSE);
+    if (closeIndex !== -1) {
+      body = body.slice(0, closeIndex);
+    }
+    body = body.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    try {
+      const parsed = JSON.parse(body);
+      if (!parsed || typeof parsed.name !== 'string') {
+        return null;
+      }
+      const args = parsed.arguments ?? parsed.parameters ?? {};
+      return {
+        name: parsed.name,
+        arguments: typeof args === 'object' && !Array.isArray(args) ? args : {},
+      };
+    } catch {
+      console.warn('⚠️ Could not parse tool call:', body);
+      return null;
+    }
+  }
+
+  /**
+   * Generate a response, running any tool calls the model makes along the way
+   * Calls and their results are added to the conversation turns between passes.
+   * Only the final answer is streamed to onToken. Stopping via options.signal
+   * ends the stream as interrupted, or rejects with an AbortError mid-call.
+   * With a budget, the oldest history turns are dropped before each later pass
+   * so the prompt still fits once tool results have been added.
+   */
+  async run(
+    conversation: ChatTurn[],
+    options: GenerationOptions,
+    settings: AppSettings,
+    callbacks: ToolCallingCallbacks,
+    budget?: ToolCallingBudget
+  ): Promise<ToolCallingResult> {
+    const tools = this.getAvailableTools(settings);
+    const toolInstruction = tools.length > 0 ? this.buildToolInstruction(tools) : undefined;
+    const toolResults: FunctionResult[] = [];
+    let turns = [...conversation];
+    // The current message and everything after it are never dropped
+    const currentTurn = conversation[conversation.length - 1];
+
+    for (let iteration = 0; ; iteration++) {
+      const canCallTools = toolInstruction !== undefined && iteration < MAX_TOOL_ITERATIONS;
+
+      if (toolInstruction && !canCallTools) {
+        console.warn(`⚠️ Tool call limit (${MAX_TOOL_ITERATIONS}) reached, asking for a final answer`);
+        const last = turns[turns.length - 1];
+        turns[turns.length - 1] = {
+          ...last,
+          content: `${last.content}\n\nYou have used all available tool calls. Answer the user now using the tool results above.`,
+        };
+      }
+
+      if (budget && iteration > 0) {
+        turns = await this.fitBudget(
+          turns,
+          currentTurn,
+          this.buildFullInstruction(settings, canCallTools ? toolInstruction : undefined),
+          budget
+        );
+      }
+
+      const turn = await this.generateTurn(
+        turns,
+        options,
+        settings,
+        canCallTools ? toolInstruction : undefined,
+        callbacks.onToken
+      );
+
+      if (!turn.toolCall) {
+        return { text: turn.text, metadata: turn.metadata, toolResults };
+      }
+
+      const tool = tools.find((t) => t.id === turn.toolCall!.name);
+      const call: FunctionCall = {
+        functionId: turn.toolCall.name,
+        functionName: tool?.name || turn.toolCall.name,
+        parameters: turn.toolCall.arguments,
+        timestamp: new Date(),
+      };
+
+      console.log('🔧 Model requested tool call:', call);
+      callbacks.onToolCall?.(call);
+
+      const result = await this.executeToolCall(call, tool, options.signal, this.getExecutionContext(conversation));
+      toolResults.push(result);
+      callbacks.onToolResult?.(call, result);
+
+      turns.push(
+        { role: 'assistant', content: `${TOOL_CALL_OPEN}${JSON.stringify(turn.toolCall)}${TOOL_CALL_CLOSE}` },
+        { role: 'tool', content: `Tool result (${call.functionId}): ${this.serializeResult(result)}` }
+      );
+    }
+  }
+
+  /**
+   * Drop the oldest history turns (not the summary, the current message or the
+   * tool exchange after it) until the prompt fits the budget
+   */
+  private async fitBudget(
+    turns: ChatTurn[],
+    currentTurn: ChatTurn,
+    systemInstruction: string,
+    budget: ToolCallingBudget
+  ): Promise<ChatTurn[]> {
+    await tokenizerService.prepare([systemInstruction, ...turns.map((turn) => turn.content)]);
+
+    const limit = budget.contextWindow - budget.reservedTokens;
+    const turnTokens = (turn: ChatTurn) => tokenizerService.countTokens(turn.content) + MESSAGE_OVERHEAD_TOKENS;
+    let used = tokenizerService.countTokens(systemInstruction) + turns.reduce((total, turn) => total + turnTokens(turn), 0);
+
+    const firstKeptTurn = turns.indexOf(currentTurn);
+    const dropped = new Set<ChatTurn>();
+    for (let index = 0; index < firstKeptTurn && used > limit; index++) {
+      const turn = turns[index];
+      if (turn.role === 'system') continue;
+      dropped.add(turn);
+      used -= turnTokens(turn);
+    }
+    const fitted = turns.filter((turn) => !dropped.has(turn));
+
+    if (fitted.length < turns.length) {
+      console.log(`✂️ Context window: dropped ${turns.length - fitted.length} older turns to fit the tool result`);
+    }
+    if (used > limit) {
+      console.warn(`⚠️ Prompt still exceeds the context window (${used} of ${limit} tokens)`);
+    }
+    return fitted;
+  }
+
+  /**
+   * Validate and execute a requested call
+   * Problems are returned as failed results so the model can recover
+   */
+  private async executeToolCall(
+    call: FunctionCall,
+    tool: FunctionDefinition | undefined,
+    signal?: AbortSignal,
+    context?: FunctionExecutionContext
+  ): Promise<FunctionResult> {
+    if (!tool) {
+      return {
+        functionId: call.functionId,
+        functionName: call.functionName,
+        success: false,
+        error: `Unknown tool: ${call.functionId}`,
+        timestamp: new Date(),
+      };
+    }
+
+    const validation = this.functionService.validateParameters(tool, call.parameters);
+    if (!validation.valid) {
+      return {
+        functionId: call.functionId,
+        functionName: call.functionName,
+        success: false,
+        error: `Invalid arguments: ${validation.errors.join('; ')}`,
+        timestamp: new Date(),
+      };
+    }
+
+    call.parameters = validation.parameters;
+    return this.functionService.executeFunction(call, signal, context);
+  }
+
+  /**
+   * The user and assistant messages JavaScript functions may read
+   */
+  private getExecutionContext(conversation: ChatTurn[]): FunctionExecutionContext {
+    return {
+      conversation: conversation
+        .filter((turn): turn is ChatTurn & { role: 'user' | 'assistant' } =>
+          turn.role === 'user' || turn.role === 'assistant'
+        )
+        .map(({ role, content }) => ({ role, content })),
+    };
+  }
+
+  private buildFullInstruction(settings: AppSettings, toolInstruction: string | undefined): string {
+    return buildSystemInstruction(
+      settings.responseStyle.verbosity,
+      settings.systemPrompt,
+      settings.structuredOutput,
+      settings.safety,
+      toolInstruction
+    );
+  }
+
+  private serializeResult(result: FunctionResult): string {
+    const payload = result.success ? result.result : { error: result.error };
+    const json = JSON.stringify(payload ?? null);
+    return json.length > MAX_TOOL_RESULT_CHARS
+      ? `${json.slice(0, MAX_TOOL_RESULT_CHARS)}... (truncated)`
+      : json;
+  }
+
+  /**
+   * Run one generation pass
+   * While tools are callable, output is held back until it can no longer be a
+   * tool call, then streamed through as usual
+   */
+  private async generateTurn(
+    turns: ChatTurn[],
+    options: GenerationOptions,
+    settings: AppSettings,
+    toolInstruction: string | undefined,
+    onToken: ToolCallingCallbacks['onToken']
+  ): Promise<TurnResult> {
+    let text = '';
+    let metadata: MessageMetadata | undefined;
+    let passthrough = !toolInstruction;
+
+    await this.inferenceEngine.generateStreaming(
+      turns,
+      options,
+      (chunk: string, isDone: boolean, finalMetadata?: MessageMetadata) => {
+        text += chunk;
+        if (finalMetadata) {
+          metadata = finalMetadata;
+        }
+
+        if (passthrough) {
+          onToken(chunk, isDone, finalMetadata);
+          return;
+        }
+
+        // Stopped while holding output back: keep whatever was generated
+        if (finalMetadata?.interrupted) {
+          passthrough = true;
+          onToken(text, true, finalMetadata);
+          return;
+        }
+
+        const head = text.trimStart();
+        const mayBeToolCall = TOOL_CALL_OPEN.startsWith(head) || head.startsWith(TOOL_CALL_OPEN);
+
+        if (!mayBeToolCall) {
+          // Normal answer: release what was held back and stream the rest
+          passthrough = true;
+          onToken(text, isDone, finalMetadata);
+        } else if (isDone && !this.parseToolCall(text)) {
+          onToken(text, true, finalMetadata);
+        }
+      },
+      settings.responseStyle.verbosity,
+      settings.systemPrompt,
+      settings.structuredOutput,
+      settings.safety,
+      toolInstruction
+    );
+
+    return {
+      text,
+      metadata,
+      toolCall: passthrough ? null : this.parseToolCall(text),
+    };
+  }
+}
@@ -4,7 +4,9 @@
  * @author Dr. Ernesto Lee
  */
 
-import type { InferenceEngine } from './InferenceEngine';
+import type { InferenceEngineAPI } from './InferenceEngine';
+import { isAbortError } from '../utils/abort';
+import { streamMultimodal, type StreamProgressCallback } from '../utils/streamMultimodal';
 
 export interface VideoDescriptionResult {
   description: string;
@@ -36,9 +38,9 @@ export interface VideoQAResult {
 }
 
 export class VideoService {
-  private inferenceEngine: InferenceEngine;
+  private inferenceEngine: InferenceEngineAPI;
 
-  constructor(inferenceEngine: InferenceEngine) {
+  constructor(inferenceEngine: InferenceEngineAPI) {
     this.inferenceEngine = inferenceEngine;
   }
 
@@ -47,7 +49,9 @@ export class VideoService {
    */
   async describeVideo(
     frameDataURLs: string[],
-    _videoDuration: number
+    _videoDuration: number,
+    signal?: AbortSignal,
+    onProgress?: StreamProgressCallback
   ): Promise<VideoDescriptionResult> {
     console.log(`📹 Describing video with ${frameDataURLs.length} frames...`);
 
@@ -65,12 +69,18 @@ export class VideoService {
         multimodalInputs.push({ imageSource: frameURL });
       });
 
-      const result = await this.inferenceEngine.generateMultimodal(multimodalInputs, {
-        maxTokens: 512,
-        temperature: 0.7,
-        topP: 0.9,
-        streamTokens: false,
-      });
+      const result = await streamMultimodal(
+        this.inferenceEngine,
+        multimodalInputs,
+        {
+          maxTokens: 512,
+          temperature: 0.7,
+          topP: 0.9,
+          streamTokens: true,
+          signal,
+        },
+        onProgress
+      );
 
       const duration = (Date.now() - startTime) / 1000;
 
@@ -80,6 +90,9 @@ export class VideoService {
         frameCount: frameDataURLs.length,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Video description failed:', error);
       throw new Error(`Video description failed: ${error}`);
     }
@@ -91,7 +104,9 @@ export class VideoService {
   async analyzeVideo(
     frameDataURLs: string[],
     _videoDuration: number,
-    analysisType: 'scene' | 'action' | 'object' | 'emotion'
+    analysisType: 'scene' | 'action' | 'object' | 'emotion',
+    signal?: AbortSignal,
+    onProgress?: StreamProgressCallback
   ): Promise<VideoAnalysisResult> {
     console.log(`🔍 Analyzing video (${analysisType}) with ${frameDataURLs.length} frames...`);
 
@@ -115,12 +130,18 @@ export class VideoService {
         multimodalInputs.push({ imageSource: frameURL });
       });
 
-      const result = await this.inferenceEngine.generateMultimodal(multimodalInputs, {
-        maxTokens: 512,
-        temperature: 0.7,
-        topP: 0.9,
-        streamTokens: false,
-      });
+      const result = await streamMultimodal(
+        this.inferenceEngine,
+        multimodalInputs,
+        {
+          maxTokens: 512,
+          temperature: 0.7,
+          topP: 0.9,
+          streamTokens: true,
+          signal,
+        },
+        onProgress
+      );
 
       const duration = (Date.now() - startTime) / 1000;
 
@@ -135,6 +156,9 @@ export class VideoService {
         frameCount: frameDataURLs.length,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Video analysis failed:', error);
       throw new Error(`Video analysis failed: ${error}`);
     }
@@ -145,7 +169,9 @@ export class VideoService {
    */
   async summarizeVideo(
     frameDataURLs: string[],
-    _videoDuration: number
+    _videoDuration: number,
+    signal?: AbortSignal,
+    onProgress?: StreamProgressCallback
   ): Promise<VideoSummaryResult> {
     console.log(`📋 Summarizing video with ${frameDataURLs.length} frames...`);
 
@@ -162,12 +188,18 @@ export class VideoService {
         multimodalInputs.push({ imageSource: frameURL });
       });
 
-      const result = await this.inferenceEngine.generateMultimodal(multimodalInputs, {
-        maxTokens: 512,
-        temperature: 0.7,
-        topP: 0.9,
-        streamTokens: false,
-      });
+      const result = await streamMultimodal(
+        this.inferenceEngine,
+        multimodalInputs,
+        {
+          maxTokens: 512,
+          temperature: 0.7,
+          topP: 0.9,
+          streamTokens: true,
+          signal,
+        },
+        onProgress
+      );
 
       const duration = (Date.now() - startTime) / 1000;
 
@@ -196,6 +228,9 @@ export class VideoService {
         frameCount: frameDataURLs.length,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Video summarization failed:', error);
       throw new Error(`Video summarization failed: ${error}`);
     }
@@ -207,7 +242,9 @@ export class VideoService {
   async answerVideoQuestion(
     frameDataURLs: string[],
     _videoDuration: number,
-    question: string
+    question: string,
+    signal?: AbortSignal,
+    onProgress?: StreamProgressCallback
   ): Promise<VideoQAResult> {
     console.log(`❓ Answering question about video with ${frameDataURLs.length} frames...`);
 
@@ -224,12 +261,18 @@ export class VideoService {
         multimodalInputs.push({ imageSource: frameURL });
       });
 
-      const result = await this.inferenceEngine.generateMultimodal(multimodalInputs, {
-        maxTokens: 512,
-        temperature: 0.7,
-        topP: 0.9,
-        streamTokens: false,
-      });
+      const result = await streamMultimodal(
+        this.inferenceEngine,
+        multimodalInputs,
+        {
+          maxTokens: 512,
+          temperature: 0.7,
+          topP: 0.9,
+          streamTokens: true,
+          signal,
+        },
+        onProgress
+      );
 
       const duration = (Date.now() - startTime) / 1000;
 
@@ -240,6 +283,9 @@ export class VideoService {
         frameCount: frameDataURLs.length,
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Video Q&A failed:', error);
       throw new Error(`Video Q&A failed: ${error}`);
     }
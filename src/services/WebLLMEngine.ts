@@ -1,109 +1,101 @@
 /**
- * WebLLM Inference Engine - Backup option for legacy models
- * Provides access to additional models via @mlc-ai/web-llm
+ * WebLLM Inference Engine - Alternative backend for MLC models
+ * Runs the prebuilt models in WEBLLM_MODELS via @mlc-ai/web-llm behind the
+ * same LLMBackend interface as the MediaPipe engine
  *
  * @author Dr. Ernesto Lee
  */
 
-import type { GenerationOptions } from '../types';
+import type {
+  ChatCompletionChunk,
+  CompletionUsage,
+  InitProgressReport,
+  MLCEngineInterface,
+} from '@mlc-ai/web-llm';
+import type { ModelConfig } from '../config/models';
+import type { ChatTurn, GenerationOptions, MessageMetadata, ModelLoadProgress } from '../types';
+import type { GenerationResult } from './InferenceEngine';
+import type { BackendCapabilities, LLMBackend, TokenCallback } from './LLMBackend';
+import { modelInfoService } from './ModelInfoService';
+import { tokenizerService } from './TokenizerService';
+import { webGPUDetector } from './WebGPUDetector';
+import { createAbortError, isAbortError } from '../utils/abort';
+import { getChatTemplate, prepareChatTurns } from '../utils/chatTemplates';
+import { summarizeTokenTimings, type TokenChunkSample } from '../utils/tokenTimings';
+import {
+  buildSystemInstruction,
+  type SafetySettings,
+  type StructuredOutputSettings,
+  type SystemPromptSettings,
+  type Verbosity,
+} from '../utils/systemInstruction';
 
-// WebLLM types (will be imported from @mlc-ai/web-llm when installed)
-interface MLCEngine {
-  chat: {
-    completions: {
-      create: (options: any) => Promise<any>;
-    };
-  };
-  reload: (model: string) => Promise<void>;
-  getMessage: () => Promise<string>;
-}
-
-export interface WebLLMModelConfig {
-  id: string;
-  name: string;
-  description: string;
-  size: number;
-  capabilities: string[];
-}
-
-/**
- * Available WebLLM models (legacy/backup options)
- */
-export const WEBLLM_MODELS: Record<string, WebLLMModelConfig> = {
-  llama31_8b: {
-    id: 'Llama-3.1-8B-Instruct-q4f32_1-MLC',
-    name: 'Llama 3.1 8B',
-    description: 'Meta Llama 3.1 - Legacy option',
-    size: 4.8 * 1024 * 1024 * 1024, // 4.8 GB
-    capabilities: ['text'],
-  },
-  phi3_mini: {
-    id: 'Phi-3-mini-4k-instruct-q4f16_1-MLC',
-    name: 'Phi-3 Mini',
-    description: 'Microsoft Phi-3 Mini - Legacy option',
-    size: 2.3 * 1024 * 1024 * 1024, // 2.3 GB
-    capabilities: ['text'],
-  },
-  gemma2_2b: {
-    id: 'gemma-2-2b-it-q4f16_1-MLC',
-    name: 'Gemma 2 2B',
-    description: 'Google Gemma 2 2B - Legacy option',
-    size: 1.5 * 1024 * 1024 * 1024, // 1.5 GB
-    capabilities: ['text'],
-  },
+const WEBLLM_CAPABILITIES: BackendCapabilities = {
+  multimodal: false,
+  offMainThread: false,
+  resumableDownloads: false, // WebLLM fetches and caches weights itself
+  formats: ['mlc'],
+  sampling: ['temperature', 'topP', 'seed', 'maxTokens'], // No top-k in its OpenAI-style API
 };
 
-export class WebLLMInferenceEngine {
-  private engine: MLCEngine | null = null;
-  private currentModel: string | null = null;
+export class WebLLMInferenceEngine implements LLMBackend {
+  readonly id = 'webllm';
+  readonly name = 'WebLLM';
+  private engine: MLCEngineInterface | null = null;
+  private modelConfig: ModelConfig | null = null;
+  private onLoadProgress: ((report: InitProgressReport) => void) | null = null;
 
   /**
-   * Check if WebLLM is available
+   * Check if WebLLM can run here (it needs WebGPU)
    */
   static async isAvailable(): Promise<boolean> {
-    try {
-      // Check if @mlc-ai/web-llm is installed
-      // @ts-ignore - Optional dependency
-      const webllm = await import('@mlc-ai/web-llm');
-      return !!webllm;
-    } catch {
-      return false;
-    }
+    const { supported } = await webGPUDetector.detect();
+    return supported;
   }
 
   /**
-   * Initialize WebLLM engine with a specific model
+   * Initialize WebLLM with a model, reusing the engine when switching models
+   * WebLLM downloads (or reads from its cache) and compiles the model in one step,
+   * reported through onProgress.
    */
   async initialize(
-    modelId: string,
-    onProgress?: (progress: any) => void
+    config: ModelConfig,
+    _options?: GenerationOptions,
+    onProgress?: (progress: ModelLoadProgress) => void
   ): Promise<void> {
-    console.log(`🚀 Initializing WebLLM model: ${modelId}`);
+    if (!config.mlcModelId) {
+      throw new Error(`${config.name} is not a WebLLM model`);
+    }
+    if (!(await WebLLMInferenceEngine.isAvailable())) {
+      throw new Error('WebLLM requires WebGPU. Please use Chrome 113+, Edge 113+, or Safari 18+.');
+    }
+
+    console.log(`🚀 Initializing WebLLM model: ${config.name}`);
+
+    const startedAt = Date.now();
+    this.onLoadProgress = (report) => onProgress?.(this.toLoadProgress(config, report, startedAt));
+    const chatOpts = { context_window_size: config.contextWindow };
 
     try {
-      // Dynamically import WebLLM
-      // @ts-ignore - Optional dependency
-      const { CreateMLCEngine } = await import('@mlc-ai/web-llm');
-
-      // Create engine with progress callback
-      this.engine = await CreateMLCEngine(modelId, {
-        initProgressCallback: (progress: any) => {
-          if (onProgress) {
-            onProgress({
-              loaded: progress.progress || 0,
-              total: 100,
-              percentage: (progress.progress || 0) * 100,
-              status: progress.text || 'Loading...',
-            });
-          }
-        },
-      });
+      if (this.engine) {
+        await this.engine.reload(config.mlcModelId, chatOpts);
+      } else {
+        // Loaded on first use so MediaPipe-only sessions don't download it
+        const webllm = await import('@mlc-ai/web-llm');
+        this.engine = await webllm.CreateMLCEngine(
+          config.mlcModelId,
+          { initProgressCallback: (report) => this.onLoadProgress?.(report) },
+          chatOpts
+        );
+      }
 
-      this.currentModel = modelId;
-      console.log(`✅ WebLLM model initialized: ${modelId}`);
+      this.modelConfig = config;
+      console.log(`✅ WebLLM model initialized: ${config.name}`);
     } catch (error) {
       console.error('❌ WebLLM initialization failed:', error);
       throw new Error(`Failed to initialize WebLLM model: ${error}`);
+    } finally {
+      this.onLoadProgress = null;
     }
   }
 
@@ -111,93 +103,202 @@ export class WebLLMInferenceEngine {
    * Generate text response using WebLLM
    */
   async generate(
-    prompt: string,
-    options: GenerationOptions
-  ): Promise<string> {
-    if (!this.engine) {
-      throw new Error('WebLLM engine not initialized');
+    prompt: string | ChatTurn[],
+    options: GenerationOptions,
+    verbosity: Verbosity = 'concise',
+    systemPromptSettings?: SystemPromptSettings,
+    structuredOutputSettings?: StructuredOutputSettings,
+    safetySettings?: SafetySettings,
+    toolInstruction?: string
+  ): Promise<GenerationResult> {
+    const systemInstruction = buildSystemInstruction(
+      verbosity,
+      systemPromptSettings,
+      structuredOutputSettings,
+      safetySettings,
+      toolInstruction
+    );
+    const result = await this.run(prompt, systemInstruction, options);
+    if (result.metadata.interrupted) {
+      console.log('⏹️ Generation stopped');
+      throw createAbortError();
+    }
+    return result;
+  }
+
+  /**
+   * Generate streaming response with metadata
+   * Resolves once the final token (with metadata) has been delivered.
+   * Aborting options.signal interrupts WebLLM and ends the stream as interrupted.
+   */
+  async generateStreaming(
+    prompt: string | ChatTurn[],
+    options: GenerationOptions,
+    onToken: TokenCallback,
+    verbosity: Verbosity = 'concise',
+    systemPromptSettings?: SystemPromptSettings,
+    structuredOutputSettings?: StructuredOutputSettings,
+    safetySettings?: SafetySettings,
+    toolInstruction?: string
+  ): Promise<void> {
+    const systemInstruction = buildSystemInstruction(
+      verbosity,
+      systemPromptSettings,
+      structuredOutputSettings,
+      safetySettings,
+      toolInstruction
+    );
+    const { metadata } = await this.run(prompt, systemInstruction, options, (chunk) => onToken(chunk, false));
+
+    onToken('', true, metadata);
+    console.log(metadata.interrupted ? '⏹️ Streaming stopped' : '✅ Streaming complete');
+  }
+
+  /**
+   * Stream a chat completion, timing every chunk
+   * WebLLM applies the model's own prompt format; turns are first mapped onto
+   * the roles its family supports (e.g. Gemma has no system role)
+   */
+  private async run(
+    prompt: string | ChatTurn[],
+    systemInstruction: string,
+    options: GenerationOptions,
+    onChunk?: (chunk: string) => void
+  ): Promise<GenerationResult> {
+    const engine = this.engine;
+    if (!engine) {
+      throw new Error('Model not initialized');
+    }
+    if (options.signal?.aborted) {
+      throw createAbortError();
     }
 
     console.log('🤖 Generating response with WebLLM...');
 
+    const requestStart = Date.now();
+    const turns: ChatTurn[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+    const messages = prepareChatTurns(
+      [{ role: 'system', content: systemInstruction }, ...turns],
+      getChatTemplate(this.modelConfig?.chatTemplate)
+    );
+
+    // WebLLM ends the stream early (finish_reason "abort") when interrupted
+    const onAbort = () => engine.interruptGenerate();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
     try {
-      const messages = [
-        { role: 'system', content: 'You are a helpful AI assistant.' },
-        { role: 'user', content: prompt },
-      ];
-
-      // Use streaming for better UX
-      if (options.streamTokens) {
-        const chunks = await this.engine.chat.completions.create({
-          messages,
-          temperature: options.temperature,
-          max_tokens: options.maxTokens,
-          top_p: options.topP,
-          stream: true,
-          stream_options: { include_usage: true },
-        });
-
-        let reply = '';
-        for await (const chunk of chunks as any) {
-          reply += chunk.choices[0]?.delta?.content || '';
-        }
+      const submitTime = Date.now();
+      const chunks: AsyncIterable<ChatCompletionChunk> = await engine.chat.completions.create({
+        messages,
+        temperature: options.temperature,
+        top_p: options.topP,
+        max_tokens: options.maxTokens,
+        seed: options.seed,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
 
-        return reply;
-      } else {
-        // Non-streaming
-        const response = await this.engine.chat.completions.create({
-          messages,
-          temperature: options.temperature,
-          max_tokens: options.maxTokens,
-          top_p: options.topP,
-        });
-
-        return response.choices[0]?.message?.content || '';
+      const samples: TokenChunkSample[] = [];
+      let text = '';
+      let usage: CompletionUsage | undefined;
+
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta?.content || '';
+        if (delta) {
+          text += delta;
+          samples.push({ time: Date.now(), tokens: 1 }); // WebLLM streams one token per chunk
+          onChunk?.(delta);
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
       }
+
+      const interrupted = !!options.signal?.aborted;
+      const metadata: MessageMetadata = {
+        ...summarizeTokenTimings(requestStart, submitTime, samples, Date.now(), usage?.completion_tokens ?? samples.length),
+        inputTokens: usage?.prompt_tokens ?? tokenizerService.countTokens(turns.map((turn) => turn.content).join('\n\n')),
+        ...(!usage && { tokenCountsEstimated: true }),
+        modelId: this.modelConfig?.id,
+        modelName: this.modelConfig?.name || 'Unknown',
+        temperature: options.temperature,
+        topP: options.topP,
+        seed: options.seed,
+        maxTokens: options.maxTokens,
+        ...(interrupted && { interrupted: true }),
+      };
+
+      // Record inference for dashboard statistics
+      modelInfoService.recordInference(
+        metadata.tokensPerSecond || 0,
+        metadata.responseLatency || 0,
+        metadata.totalTokens || 0,
+        metadata
+      );
+
+      return { text, metadata };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ WebLLM generation failed:', error);
       throw new Error(`Failed to generate response: ${error}`);
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
-   * Switch to a different model
+   * Map a WebLLM progress report onto the download progress shown while loading
+   * WebLLM only reports a fraction, so bytes are estimated from the model size
    */
-  async switchModel(
-    modelId: string,
-    _onProgress?: (progress: any) => void
-  ): Promise<void> {
-    if (!this.engine) {
-      throw new Error('Engine not initialized');
-    }
-
-    console.log(`🔄 Switching to model: ${modelId}`);
+  private toLoadProgress(config: ModelConfig, report: InitProgressReport, startedAt: number): ModelLoadProgress {
+    const fraction = Math.min(1, Math.max(0, report.progress));
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const loaded = fraction * config.size;
 
-    await this.engine.reload(modelId);
-    this.currentModel = modelId;
+    return {
+      modelId: config.id,
+      loaded,
+      total: config.size,
+      percentage: fraction * 100,
+      speed: elapsed > 0 ? loaded / elapsed : 0,
+      eta: fraction > 0 ? (elapsed * (1 - fraction)) / fraction : 0,
+      statusText: report.text,
+    };
   }
 
   /**
-   * Check if engine is loaded
+   * Check if a model is loaded
    */
   isLoaded(): boolean {
-    return this.engine !== null;
+    return this.modelConfig !== null;
+  }
+
+  /**
+   * Get current model config
+   */
+  getConfig(): ModelConfig | null {
+    return this.modelConfig;
   }
 
   /**
-   * Get current model ID
+   * What the WebLLM backend supports
    */
-  getCurrentModel(): string | null {
-    return this.currentModel;
+  getCapabilities(): BackendCapabilities {
+    return WEBLLM_CAPABILITIES;
   }
 
   /**
-   * Unload engine and free memory
+   * Unload the model and free GPU memory
    */
   async unload(): Promise<void> {
-    this.engine = null;
-    this.currentModel = null;
-    console.log('🗑️ WebLLM engine unloaded');
+    if (this.engine) {
+      await this.engine.unload();
+      this.engine = null;
+      this.modelConfig = null;
+      console.log('🗑️ WebLLM engine unloaded');
+    }
   }
 }
 
@@ -4,19 +4,23 @@
  */
 
 import { create } from 'zustand';
-import type { Message, Conversation, AppSettings, ModelStatus, ModelLoadProgress } from '../types';
+import type { Message, Conversation, AppSettings, ModelStatus, ModelLoadProgress, ContextWindowReport, GenerationOverrides, PrefetchJob } from '../types';
 import type { ModelId } from '../config/models';
 import type { SystemInfo } from '../services/SystemInfoService';
+import { conversationStorage } from '../services/ConversationStorage';
+import { functionService } from '../services/FunctionService';
 
 interface AppState {
   // Model state
   currentModelId: ModelId;
   modelStatus: ModelStatus;
   loadProgress: ModelLoadProgress | null;
+  prefetchJobs: Record<string, PrefetchJob>; // Background downloads by model ID
 
   // Conversation state
   conversations: Record<string, Conversation>;
   currentConversationId: string | null;
+  contextReport: ContextWindowReport | null; // What the last prompt included/dropped
 
   // UI state
   isGenerating: boolean;
@@ -34,6 +38,7 @@ interface AppState {
   setCurrentModel: (modelId: ModelId) => void;
   setModelStatus: (status: ModelStatus) => void;
   setLoadProgress: (progress: ModelLoadProgress | null) => void;
+  setPrefetchJob: (modelId: string, job: PrefetchJob | null) => void;
 
   addMessage: (conversationId: string, message: Message) => void;
   updateMessage: (conversationId: string, messageId: string, updates: Partial<Message>) => void;
@@ -42,8 +47,11 @@ interface AppState {
   createConversation: (modelId: ModelId) => string;
   forkConversation: (conversationId: string, fromMessageId: string) => string;
   updateConversationSummary: (conversationId: string, summary: string, summarizedUpTo: number) => void;
+  setConversationOverrides: (conversationId: string, overrides: GenerationOverrides | undefined) => void;
   deleteConversation: (id: string) => void;
   setCurrentConversation: (id: string | null) => void;
+  hydrateConversations: (conversations: Record<string, Conversation>, currentConversationId: string | null) => void;
+  setContextReport: (report: ContextWindowReport | null) => void;
 
   setIsGenerating: (isGenerating: boolean) => void;
   toggleSidebar: () => void;
@@ -59,9 +67,11 @@ export const useStore = create<AppState>((set) => ({
   currentModelId: 'gemma3nE2B', // Default to MADDY E2B (good balance for desktop)
   modelStatus: 'not-loaded',
   loadProgress: null,
+  prefetchJobs: {},
 
   conversations: {},
   currentConversationId: null,
+  contextReport: null,
 
   isGenerating: false,
   sidebarOpen: false,
@@ -72,9 +82,12 @@ export const useStore = create<AppState>((set) => ({
 
   settings: {
     defaultModel: 'gemma3nE2B',
+    backend: 'mediapipe',
     temperature: 0.8,
     maxTokens: 1000,
     topP: 0.9,
+    topK: 40,
+    seed: 101,
     theme: 'light',
     showMetrics: true,
     microinteractions: {
@@ -106,6 +119,8 @@ export const useStore = create<AppState>((set) => ({
       showTimestamp: true,
     },
     imageResolution: '512', // Balanced default
+    modelSwitching: 'ask',
+    residentModels: 2,
     voice: {
       enableInput: false, // Disabled by default
       enableOutput: false, // Disabled by default
@@ -134,6 +149,8 @@ export const useStore = create<AppState>((set) => ({
     },
     storage: {
       cacheLargeModels: false, // Don't cache large models by default (prevents memory errors)
+      evictLeastRecentlyUsed: true, // Make room for new downloads automatically
+      maxStoredModels: 0, // No limit on the number of stored models
     },
     functions: {
       enableFunctionCalling: true, // Enabled by default
@@ -149,6 +166,11 @@ export const useStore = create<AppState>((set) => ({
         'ip_geolocation',
         'github_repo',
         'word_definition',
+        // Saved custom functions that were left enabled
+        ...functionService
+          .getFunctions()
+          .filter((func) => !func.builtIn && func.enabled)
+          .map((func) => func.id),
       ], // All 11 built-in functions enabled by default (no API keys required!)
     },
     responseStyle: {
@@ -185,6 +207,12 @@ export const useStore = create<AppState>((set) => ({
 
   setLoadProgress: (progress) => set({ loadProgress: progress }),
 
+  setPrefetchJob: (modelId, job) =>
+    set((state) => {
+      const { [modelId]: _previous, ...others } = state.prefetchJobs;
+      return { prefetchJobs: job ? { ...others, [modelId]: job } : others };
+    }),
+
   addMessage: (conversationId, message) =>
     set((state) => ({
       conversations: {
@@ -312,6 +340,23 @@ export const useStore = create<AppState>((set) => ({
       },
     })),
 
+  setConversationOverrides: (conversationId, overrides) =>
+    set((state) => {
+      const conversation = state.conversations[conversationId];
+      if (!conversation) return state;
+
+      return {
+        conversations: {
+          ...state.conversations,
+          [conversationId]: {
+            ...conversation,
+            generationOverrides: overrides,
+            updatedAt: new Date(),
+          },
+        },
+      };
+    }),
+
   deleteConversation: (id) =>
     set((state) => {
       const { [id]: _, ...rest } = state.conversations;
@@ -324,6 +369,18 @@ export const useStore = create<AppState>((set) => ({
 
   setCurrentConversation: (id) => set({ currentConversationId: id }),
 
+  hydrateConversations: (conversations, currentConversationId) =>
+    set((state) => {
+      // Conversations created before hydration finished take precedence
+      const merged = { ...conversations, ...state.conversations };
+      const restoredId =
+        state.currentConversationId ??
+        (currentConversationId && merged[currentConversationId] ? currentConversationId : null);
+      return { conversations: merged, currentConversationId: restoredId };
+    }),
+
+  setContextReport: (report) => set({ contextReport: report }),
+
   setIsGenerating: (isGenerating) => set({ isGenerating }),
 
   toggleSidebar: () => set((state) => ({ sidebarOpen: !state.sidebarOpen })),
@@ -339,3 +396,55 @@ export const useStore = create<AppState>((set) => ({
 
   setSystemInfo: (info) => set({ systemInfo: info }),
 }));
+
+/**
+ * Load persisted conversations into the store and keep IndexedDB in sync with later changes
+ */
+export async function initializeConversationPersistence(): Promise<() => void> {
+  let restored: Record<string, Conversation> = {};
+  try {
+    const [conversations, currentConversationId] = await Promise.all([
+      conversationStorage.loadAll(),
+      conversationStorage.getCurrentConversationId(),
+    ]);
+    restored = conversations;
+    useStore.getState().hydrateConversations(conversations, currentConversationId);
+    console.log(`💾 Restored ${Object.keys(conversations).length} conversations`);
+  } catch (error) {
+    console.error('Failed to restore conversations:', error);
+  }
+
+  // Persist anything created before hydration completed (restored ones are stored already)
+  Object.values(useStore.getState().conversations)
+    .filter((conversation) => conversation !== restored[conversation.id])
+    .forEach((conversation) => conversationStorage.scheduleSave(conversation));
+
+  const unsubscribe = useStore.subscribe((state, prevState) => {
+    if (state.conversations !== prevState.conversations) {
+      for (const [id, conversation] of Object.entries(state.conversations)) {
+        if (conversation !== prevState.conversations[id]) {
+          conversationStorage.scheduleSave(conversation);
+        }
+      }
+      for (const id of Object.keys(prevState.conversations)) {
+        if (!state.conversations[id]) {
+          conversationStorage.delete(id);
+        }
+      }
+    }
+
+    if (state.currentConversationId !== prevState.currentConversationId) {
+      conversationStorage.setCurrentConversationId(state.currentConversationId);
+    }
+  });
+
+  const handlePageHide = () => {
+    conversationStorage.flush();
+  };
+  window.addEventListener('pagehide', handlePageHide);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('pagehide', handlePageHide);
+  };
+}
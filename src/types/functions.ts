@@ -5,7 +5,66 @@
  * @author Dr. Ernesto Lee
  */
 
-export type FunctionParameterType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+export type FunctionParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+export type JsonSchemaType = FunctionParameterType | 'null';
+
+/**
+ * The JSON Schema keywords function parameters can use
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  default?: any;
+  enum?: any[];
+  const?: any;
+  anyOf?: JsonSchema[];
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+// Where an HTTP function sends a parameter (unset: a "{name}" placeholder in the
+// endpoint, otherwise the query string for GET/DELETE and the JSON body for the rest)
+export type FunctionParameterLocation = 'path' | 'query' | 'header' | 'body';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * How an HTTP function sends its API key (unset: as a Bearer token)
+ */
+export type FunctionAuth =
+  | { type: 'bearer' }
+  | { type: 'apiKey'; in: 'header' | 'query'; name: string }
+  | { type: 'basic'; username: string }; // apiKey holds the password
+
+/**
+ * Limits for a JavaScript function's sandboxed run
+ */
+export interface ScriptLimits {
+  timeoutMs: number;
+}
 
 export interface FunctionParameter {
   name: string;
@@ -13,6 +72,8 @@ export interface FunctionParameter {
   description: string;
   required: boolean;
   default?: any;
+  location?: FunctionParameterLocation;
+  schema?: JsonSchema; // Further JSON Schema keywords: enum, ranges, items, nested properties...
 }
 
 export interface FunctionDefinition {
@@ -24,10 +85,17 @@ export interface FunctionDefinition {
   builtIn: boolean; // Whether it's a built-in function or user-defined
 
   // For custom functions
-  endpoint?: string;
+  endpoint?: string; // May contain "{name}" placeholders, e.g. /repos/{owner}/{repo}
   apiKey?: string;
-  method?: 'GET' | 'POST';
+  auth?: FunctionAuth;
+  method?: HttpMethod;
   headers?: Record<string, string>;
+  responseMapping?: string; // JSONPath-style paths, one per line, picking the fields the model sees
+  openApi?: { specId: string; operationKey: string }; // Imported from an OpenAPI spec (e.g. "GET /pets/{petId}")
+
+  // For JavaScript functions (run in a sandboxed frame instead of calling an endpoint)
+  script?: string; // Async function body; receives `params` and `context`, returns JSON
+  scriptLimits?: ScriptLimits;
 
   // Execution handler (for built-in functions)
   handler?: (params: Record<string, any>) => Promise<any>;
@@ -40,6 +108,13 @@ export interface FunctionCall {
   timestamp: Date;
 }
 
+/**
+ * What a function call can see besides its parameters (JavaScript functions only)
+ */
+export interface FunctionExecutionContext {
+  conversation: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
 export interface FunctionResult {
   functionId: string;
   functionName: string;
@@ -48,3 +123,34 @@ export interface FunctionResult {
   error?: string;
   timestamp: Date;
 }
+
+export interface ParameterValidationResult {
+  valid: boolean;
+  errors: string[];
+  parameters: Record<string, any>; // Coerced parameters with defaults applied
+}
+
+/**
+ * An imported OpenAPI spec, kept so its functions can be re-synced
+ */
+export interface OpenApiSpecSource {
+  id: string;
+  title: string;
+  version: string;
+  url?: string; // Fetched from here; re-sync fetches it again
+  importedAt: number;
+}
+
+export type OpenApiOperationStatus = 'new' | 'changed' | 'unchanged' | 'removed';
+
+/**
+ * What importing (or re-syncing) a spec would do, for the user to review
+ */
+export interface OpenApiImportPreview {
+  spec: OpenApiSpecSource;
+  operations: Array<{
+    operationKey: string;
+    function: FunctionDefinition;
+    status: OpenApiOperationStatus;
+  }>;
+}
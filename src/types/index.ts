@@ -12,11 +12,21 @@ export interface MessageMetadata {
   totalGenerationTime?: number; // Total time (ms)
   totalTokens?: number; // Tokens in response
   inputTokens?: number; // Tokens in prompt
+  tokenCountsEstimated?: boolean; // inputTokens/totalTokens are estimates, not the model's tokenizer
+  prefillTime?: number; // Prompt processing until the first token (ms)
+  decodeTime?: number; // First token to last token (ms)
+  interTokenLatencyP50?: number; // Median time between tokens (ms)
+  interTokenLatencyP95?: number; // 95th percentile time between tokens (ms)
 
   // Model info
+  modelId?: string; // Model that generated the response
   modelName?: string; // CAESAR/MADDY/JORDAN
+  switchedFromModel?: string; // Model that was loaded before switching to read this message's attachments
   temperature?: number;
   topP?: number;
+  topK?: number;
+  seed?: number;
+  maxTokens?: number; // Response token limit in effect
 
   // Multimodal processing
   imageProcessingTime?: number; // Time to process images (ms)
@@ -28,6 +38,7 @@ export interface MessageMetadata {
 
   // System
   memoryUsage?: number; // Memory at generation time
+  interrupted?: boolean; // Generation was stopped before it finished
 }
 
 export interface Message {
@@ -53,6 +64,14 @@ export interface Message {
   currentVariation?: number; // Index of current variation being displayed
 }
 
+/**
+ * One turn of a prompt, rendered by the model family's chat template
+ */
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+}
+
 export interface Conversation {
   id: string;
   messages: Message[];
@@ -61,15 +80,34 @@ export interface Conversation {
   updatedAt: Date;
   summary?: string; // Auto-generated summary of older messages
   summarizedUpTo?: number; // Index of last summarized message
+  generationOverrides?: GenerationOverrides; // Sampling settings for this conversation only
+}
+
+export interface ContextWindowReport {
+  conversationId: string;
+  budget: number; // Tokens available for history
+  tokensUsed: number; // Tokens used by summary + included messages
+  includedMessageIds: string[];
+  droppedMessageIds: string[]; // Messages left out of the prompt
+  droppedSummarizedCount: number; // Dropped messages already covered by the summary
+  usedSummary: boolean;
+  overBudget: boolean; // Pinned messages alone exceed the budget
 }
 
 export interface GenerationOptions {
   maxTokens: number;
   temperature: number;
   topP: number;
+  topK?: number;
+  seed?: number;
   streamTokens: boolean;
+  signal?: AbortSignal; // Stops the generation when aborted
 }
 
+export type GenerationOverrides = Partial<Pick<GenerationOptions, 'maxTokens' | 'temperature' | 'topP' | 'topK' | 'seed'>>;
+
+export type DownloadState = 'downloading' | 'paused' | 'offline' | 'retrying' | 'failed' | 'verifying';
+
 export interface ModelLoadProgress {
   modelId: string;
   loaded: number;
@@ -77,6 +115,42 @@ export interface ModelLoadProgress {
   percentage: number;
   speed: number; // bytes per second
   eta: number; // seconds remaining
+  state?: DownloadState;
+  resumedBytes?: number; // Bytes restored from an earlier, interrupted download
+  retryAttempt?: number; // Automatic retry in progress (1-based)
+  retryIn?: number; // Seconds until the next automatic retry
+  error?: string; // Why the download stopped (retrying/failed)
+  statusText?: string; // Step reported by the backend while it loads (e.g. WebLLM shader compilation)
+}
+
+export type PrefetchState = 'downloading' | 'warming' | 'ready' | 'failed';
+
+/**
+ * A model downloaded in the background while another one is in use
+ */
+export interface PrefetchJob {
+  modelId: string;
+  modelName: string;
+  state: PrefetchState;
+  progress: ModelLoadProgress | null; // Download (and verification) progress
+  warmedUp: boolean; // Loaded and warmed up, so switching to it is instant
+  error?: string;
+}
+
+/**
+ * A model kept in the browser's model store
+ */
+export interface StoredModel {
+  modelId: string;
+  url: string;
+  version: string; // MODEL_CONFIG version the file was downloaded as
+  size: number; // Full file size (bytes)
+  storedBytes: number; // Bytes on disk so far
+  complete: boolean;
+  downloadedAt: number | null; // When the download finished
+  lastUsed: number | null; // When the model was last loaded
+  checksum: string | null; // SHA-256 of the stored file, once verified
+  verified: boolean; // Checksum matches the digest in MODEL_CONFIG
 }
 
 export interface InferenceMetrics {
@@ -88,11 +162,16 @@ export interface InferenceMetrics {
 
 export type ModelStatus = 'not-loaded' | 'downloading' | 'loading' | 'loaded' | 'error';
 
+export type BackendId = 'mediapipe' | 'webllm';
+
 export interface AppSettings {
   defaultModel: string;
+  backend: BackendId; // Inference backend whose models are offered
   temperature: number;
   maxTokens: number;
   topP: number;
+  topK: number;
+  seed: number;
   theme: 'light' | 'dark' | 'system';
   showMetrics: boolean;
   microinteractions: {
@@ -124,6 +203,8 @@ export interface AppSettings {
     showTimestamp: boolean; // message timestamp
   };
   imageResolution: '256' | '512' | '768'; // Default image resolution for multimodal
+  modelSwitching: 'ask' | 'auto' | 'off'; // Load a capable model when attachments need vision or audio
+  residentModels: number; // MediaPipe models kept loaded for instant switching (within the memory budget)
   voice: {
     enableInput: boolean; // Speech-to-text
     enableOutput: boolean; // Text-to-speech
@@ -152,6 +233,8 @@ export interface AppSettings {
   };
   storage: {
     cacheLargeModels: boolean; // Cache models >500MB (uses more disk space but faster subsequent loads)
+    evictLeastRecentlyUsed: boolean; // Delete least recently used models when space runs out
+    maxStoredModels: number; // Keep at most this many models (0 = no limit)
   };
   functions: {
     enableFunctionCalling: boolean; // Enable/disable function calling globally
@@ -0,0 +1,49 @@
+/**
+ * Abort Helpers
+ * Shared cancellation utilities for generation and function calls
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+/**
+ * Create the standard error thrown when an operation is stopped
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Generation stopped by user', 'AbortError');
+}
+
+/**
+ * Check whether an error came from an aborted operation
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts.
+ * The underlying work keeps running; only the caller stops waiting.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Model Capability Helpers
+ * Work out which capabilities a message needs and whether a model has them
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelCapability, ModelConfig } from '../config/models';
+
+export interface MessageAttachments {
+  imageFiles?: File[];
+  audioFiles?: File[];
+  videoFiles?: File[];
+}
+
+const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  text: 'text',
+  vision: 'images',
+  audio: 'audio',
+};
+
+/**
+ * Capabilities needed to answer a message with these attachments
+ * Videos are sent as extracted frames, so they need vision.
+ */
+export function getRequiredCapabilities(attachments: MessageAttachments): ModelCapability[] {
+  const required: ModelCapability[] = ['text'];
+  if (attachments.imageFiles?.length || attachments.videoFiles?.length) {
+    required.push('vision');
+  }
+  if (attachments.audioFiles?.length) {
+    required.push('audio');
+  }
+  return required;
+}
+
+/**
+ * Required capabilities the model doesn't have
+ */
+export function getMissingCapabilities(config: ModelConfig, required: ModelCapability[]): ModelCapability[] {
+  return required.filter((capability) => !config.capabilities.includes(capability));
+}
+
+/**
+ * Human-readable list, e.g. "images and audio"
+ */
+export function describeCapabilities(capabilities: ModelCapability[]): string {
+  return capabilities.map((capability) => CAPABILITY_LABELS[capability]).join(' and ');
+}
@@ -0,0 +1,138 @@
+/**
+ * Chat Templates
+ * Renders conversations as alternating role turns in each model family's prompt format
+ *
+ * Engines that take a raw prompt (MediaPipe) render the turns themselves; engines
+ * that take role messages (WebLLM) only need them mapped onto supported roles.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ChatTurn } from '../types';
+
+export type ChatTemplateId = 'gemma' | 'llama3' | 'phi3';
+
+export type TemplateRole = 'system' | 'user' | 'assistant';
+
+export interface TemplateTurn {
+  role: TemplateRole;
+  content: string;
+}
+
+export interface ChatTemplate {
+  id: ChatTemplateId;
+  name: string;
+  supportsSystemRole: boolean; // Otherwise system text opens the first user turn
+  beginTurn: (role: TemplateRole) => string;
+  endTurn: string;
+  controlTokens: RegExp; // Markup that must not appear inside turn content
+}
+
+// Inserted after the first character of a control token so it is read as plain text
+const ZERO_WIDTH_SPACE = '\u200B';
+
+const CHAT_TEMPLATES: Record<ChatTemplateId, ChatTemplate> = {
+  // Gemma has no system role; the assistant speaks as "model"
+  gemma: {
+    id: 'gemma',
+    name: 'Gemma',
+    supportsSystemRole: false,
+    beginTurn: (role) => `<start_of_turn>${role === 'assistant' ? 'model' : 'user'}\n`,
+    endTurn: '<end_of_turn>\n',
+    controlTokens:
+      /<\/?(?:start_of_turn|end_of_turn|bos|eos|pad|start_of_image|end_of_image|image_soft_token|start_of_audio|end_of_audio|audio_soft_token)>/g,
+  },
+
+  llama3: {
+    id: 'llama3',
+    name: 'Llama 3',
+    supportsSystemRole: true,
+    beginTurn: (role) => `<|start_header_id|>${role}<|end_header_id|>\n\n`,
+    endTurn: '<|eot_id|>',
+    controlTokens: /<\|[a-z_]+\|>/g,
+  },
+
+  phi3: {
+    id: 'phi3',
+    name: 'Phi-3',
+    supportsSystemRole: true,
+    beginTurn: (role) => `<|${role}|>\n`,
+    endTurn: '<|end|>\n',
+    controlTokens: /<\|[a-z_]+\|>/g,
+  },
+};
+
+export const DEFAULT_CHAT_TEMPLATE: ChatTemplateId = 'gemma';
+
+/**
+ * Get a chat template by ID, falling back to Gemma
+ */
+export function getChatTemplate(id?: string): ChatTemplate {
+  return (id && CHAT_TEMPLATES[id as ChatTemplateId]) || CHAT_TEMPLATES[DEFAULT_CHAT_TEMPLATE];
+}
+
+/**
+ * Get all chat templates
+ */
+export function getChatTemplates(): ChatTemplate[] {
+  return Object.values(CHAT_TEMPLATES);
+}
+
+/**
+ * Break up control tokens so user text can't open or close turns
+ */
+export function escapeControlTokens(text: string, template: ChatTemplate): string {
+  return text.replace(template.controlTokens, (token) => `${token[0]}${ZERO_WIDTH_SPACE}${token.slice(1)}`);
+}
+
+/**
+ * Map turns onto the roles the template supports, with content escaped
+ * - Tool results are reported back in a user turn
+ * - System text is gathered into one system turn, or opens the first user turn
+ * - Consecutive turns with the same role are merged
+ */
+export function prepareChatTurns(turns: ChatTurn[], template: ChatTemplate): TemplateTurn[] {
+  const prepared: TemplateTurn[] = [];
+
+  for (const turn of turns) {
+    if (turn.role === 'system' || !turn.content) continue;
+
+    const role: TemplateRole = turn.role === 'assistant' ? 'assistant' : 'user';
+    const content = escapeControlTokens(turn.content, template);
+    const previous = prepared[prepared.length - 1];
+
+    if (previous && previous.role === role) {
+      previous.content += `\n\n${content}`;
+    } else {
+      prepared.push({ role, content });
+    }
+  }
+
+  const system = turns
+    .filter((turn) => turn.role === 'system' && turn.content.trim())
+    .map((turn) => escapeControlTokens(turn.content.trim(), template))
+    .join('\n\n');
+
+  if (system) {
+    if (template.supportsSystemRole) {
+      prepared.unshift({ role: 'system', content: system });
+    } else if (prepared[0]?.role === 'user') {
+      prepared[0].content = `${system}\n\n${prepared[0].content}`;
+    } else {
+      prepared.unshift({ role: 'user', content: system });
+    }
+  }
+
+  return prepared;
+}
+
+/**
+ * Render turns as a raw prompt that ends with an open assistant turn
+ */
+export function renderChatPrompt(turns: ChatTurn[], template: ChatTemplate): string {
+  const rendered = prepareChatTurns(turns, template)
+    .map((turn) => `${template.beginTurn(turn.role)}${turn.content}${template.endTurn}`)
+    .join('');
+
+  return rendered + template.beginTurn('assistant');
+}
@@ -0,0 +1,95 @@
+/**
+ * Context Window Builder
+ * Packs as much conversation history as fits in the model's context window
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { Conversation, ContextWindowReport, Message } from '../types';
+import { tokenizerService } from '../services/TokenizerService';
+
+// Per-message overhead for role labels and turn separators
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextWindowOptions {
+  contextWindow: number; // Model context window (tokens)
+  reservedTokens: number; // Tokens reserved for the response (maxTokens)
+  promptTokens?: number; // Tokens already used by the current prompt and system instruction
+}
+
+export interface ContextWindow {
+  summary: string | null;
+  messages: Message[]; // Chronological order
+  report: ContextWindowReport;
+}
+
+function messageTokens(message: Message): number {
+  return tokenizerService.countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Select the history that fits within the token budget.
+ *
+ * Priority: conversation summary, then pinned messages, then the most recent
+ * messages working backwards. Messages already covered by the summary are
+ * skipped unless pinned.
+ */
+export function buildContextWindow(
+  conversation: Conversation,
+  history: Message[],
+  options: ContextWindowOptions
+): ContextWindow {
+  const budget = Math.max(0, options.contextWindow - options.reservedTokens - (options.promptTokens || 0));
+  let used = 0;
+
+  // 1. Summary always goes in (it replaces many older messages)
+  const summary = conversation.summary?.trim() || null;
+  if (summary) {
+    used += tokenizerService.countTokens(summary) + MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  const summarizedUpTo = summary ? conversation.summarizedUpTo || 0 : 0;
+  const candidates = history
+    .map((message, index) => ({ message, index }))
+    .filter(({ message }) => message.content.trim().length > 0);
+
+  const included = new Set<string>();
+
+  // 2. Pinned messages are kept regardless of age
+  for (const { message } of candidates) {
+    if (message.pinned) {
+      included.add(message.id);
+      used += messageTokens(message);
+    }
+  }
+
+  // 3. Fill the remaining budget with the newest unsummarized messages
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const { message, index } = candidates[i];
+    if (included.has(message.id) || index < summarizedUpTo) continue;
+
+    const tokens = messageTokens(message);
+    if (used + tokens > budget) break;
+
+    included.add(message.id);
+    used += tokens;
+  }
+
+  const messages = candidates.filter(({ message }) => included.has(message.id)).map(({ message }) => message);
+  const dropped = candidates.filter(({ message }) => !included.has(message.id));
+
+  return {
+    summary,
+    messages,
+    report: {
+      conversationId: conversation.id,
+      budget,
+      tokensUsed: used,
+      includedMessageIds: messages.map(m => m.id),
+      droppedMessageIds: dropped.map(({ message }) => message.id),
+      droppedSummarizedCount: dropped.filter(({ index }) => index < summarizedUpTo).length,
+      usedSummary: summary !== null,
+      overBudget: used > budget,
+    },
+  };
+}
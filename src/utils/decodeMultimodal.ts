@@ -0,0 +1,68 @@
+/**
+ * Multimodal Input Decoding
+ * Workers have no Image or AudioContext, which MediaPipe uses to load URL
+ * sources, so images and audio are decoded on the main thread and transferred
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { DecodedAudio, MultimodalInput } from '../services/InferenceEngine';
+
+// Sample rate MediaPipe resamples audio to when it decodes a URL itself
+const AUDIO_SAMPLE_RATE = 16000;
+
+/**
+ * Decode image and audio URLs into transferable ImageBitmaps and samples
+ * @returns The decoded inputs and the objects to transfer with them
+ */
+export async function decodeMultimodalInputs(
+  inputs: MultimodalInput[]
+): Promise<{ inputs: MultimodalInput[]; transfer: Transferable[] }> {
+  const transfer: Transferable[] = [];
+
+  const decoded = await Promise.all(
+    inputs.map(async (input) => {
+      const result: MultimodalInput = { ...input };
+
+      if (typeof input.imageSource === 'string') {
+        result.imageSource = await decodeImage(input.imageSource);
+        transfer.push(result.imageSource);
+      }
+      if (typeof input.audioSource === 'string') {
+        result.audioSource = await decodeAudio(input.audioSource);
+        transfer.push(result.audioSource.audioSamples.buffer);
+      }
+
+      return result;
+    })
+  );
+
+  return { inputs: decoded, transfer };
+}
+
+async function decodeImage(source: string): Promise<ImageBitmap> {
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Image fetch for ${source} had error: ${response.status}`);
+  }
+  return createImageBitmap(await response.blob());
+}
+
+async function decodeAudio(source: string): Promise<DecodedAudio> {
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Audio fetch for ${source} had error: ${response.status}`);
+  }
+
+  const context = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+  try {
+    const buffer = await context.decodeAudioData(await response.arrayBuffer());
+    return {
+      // Copy: the channel data belongs to the AudioBuffer and can't be transferred
+      audioSamples: buffer.getChannelData(0).slice(),
+      audioSampleRateHz: buffer.sampleRate,
+    };
+  } finally {
+    context.close();
+  }
+}
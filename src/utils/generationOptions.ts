@@ -0,0 +1,29 @@
+/**
+ * Generation Options Resolution
+ * Combines global sampling settings with per-conversation overrides
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { AppSettings, Conversation, GenerationOptions } from '../types';
+
+/**
+ * Resolve the sampling parameters for a request.
+ * Conversation overrides win over the global settings.
+ */
+export function resolveGenerationOptions(
+  settings: AppSettings,
+  conversation: Conversation | null | undefined,
+  streamTokens: boolean
+): GenerationOptions {
+  const overrides = conversation?.generationOverrides || {};
+
+  return {
+    maxTokens: overrides.maxTokens ?? settings.maxTokens,
+    temperature: overrides.temperature ?? settings.temperature,
+    topP: overrides.topP ?? settings.topP,
+    topK: overrides.topK ?? settings.topK,
+    seed: overrides.seed ?? settings.seed,
+    streamTokens,
+  };
+}
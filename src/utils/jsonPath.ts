@@ -0,0 +1,138 @@
+/**
+ * JSONPath-style Response Mapping
+ * Pick the relevant fields out of an API response before the model sees it.
+ * Supports the common subset: $, .key, ['key'], [0], [-1], [*], .* and ..key
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+type PathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; key: string };
+
+/**
+ * Split a path such as "$.items[*].owner['login']" into segments
+ * @throws When the path can't be parsed
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const source = path.trim();
+  if (!source.startsWith('$')) {
+    throw new Error(`JSONPath must start with "$": ${path}`);
+  }
+
+  const segments: PathSegment[] = [];
+  const pattern = /\.\.([A-Za-z_$][\w$-]*)|\.([A-Za-z_$][\w$-]*|\*)|\[\s*(?:'([^']*)'|"([^"]*)"|(-?\d+)|(\*))\s*\]/y;
+  pattern.lastIndex = 1;
+
+  while (pattern.lastIndex < source.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new Error(`Invalid JSONPath at position ${start}: ${path}`);
+    }
+
+    const [, descendant, dotted, singleQuoted, doubleQuoted, index, bracketWildcard] = match;
+    if (descendant !== undefined) {
+      segments.push({ kind: 'descendant', key: descendant });
+    } else if (dotted === '*' || bracketWildcard !== undefined) {
+      segments.push({ kind: 'wildcard' });
+    } else if (index !== undefined) {
+      segments.push({ kind: 'index', index: Number(index) });
+    } else {
+      segments.push({ kind: 'key', key: dotted ?? singleQuoted ?? doubleQuoted });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluate a path; wildcards and descendant lookups return every match as an array
+ */
+export function queryJsonPath(data: any, path: string): any {
+  const segments = parseJsonPath(path);
+  const multiple = segments.some((segment) => segment.kind === 'wildcard' || segment.kind === 'descendant');
+
+  let nodes: any[] = [data];
+  for (const segment of segments) {
+    nodes = nodes.flatMap((node) => step(node, segment));
+  }
+
+  return multiple ? nodes : nodes[0];
+}
+
+/**
+ * Apply a response mapping: one path per line, optionally named ("login: $.owner.login")
+ * A single unnamed path returns its value; otherwise an object keyed by the names
+ * (unnamed paths use their last key).
+ */
+export function applyResponseMapping(data: any, mapping: string): any {
+  const lines = mapping
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return data;
+
+  const entries = lines.map((line) => {
+    const named = line.match(/^([^$:][^:]*):\s*(\$.*)$/);
+    const path = named ? named[2] : line;
+    return {
+      name: named ? named[1].trim() : getFieldName(path),
+      named: !!named,
+      value: queryJsonPath(data, path),
+    };
+  });
+
+  if (entries.length === 1 && !entries[0].named) {
+    return entries[0].value;
+  }
+  return Object.fromEntries(entries.map(({ name, value }) => [name, value]));
+}
+
+/**
+ * Check a mapping before saving it
+ * @returns The first problem found, or null
+ */
+export function validateResponseMapping(mapping: string): string | null {
+  try {
+    applyResponseMapping({}, mapping);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function step(node: any, segment: PathSegment): any[] {
+  if (node === null || typeof node !== 'object') return [];
+
+  switch (segment.kind) {
+    case 'key':
+      return hasOwn(node, segment.key) ? [node[segment.key]] : [];
+    case 'index': {
+      if (!Array.isArray(node)) return [];
+      const index = segment.index < 0 ? node.length + segment.index : segment.index;
+      return index >= 0 && index < node.length ? [node[index]] : [];
+    }
+    case 'wildcard':
+      return Array.isArray(node) ? node : Object.values(node);
+    case 'descendant': {
+      const own = !Array.isArray(node) && hasOwn(node, segment.key) ? [node[segment.key]] : [];
+      const children = Array.isArray(node) ? node : Object.values(node);
+      return [...own, ...children.flatMap((child) => step(child, segment))];
+    }
+  }
+}
+
+// Own keys only: `toString` or `__proto__` must not match inherited members
+function hasOwn(node: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(node, key);
+}
+
+function getFieldName(path: string): string {
+  const keys = parseJsonPath(path).filter(
+    (segment): segment is Extract<PathSegment, { key: string }> => segment.kind === 'key' || segment.kind === 'descendant'
+  );
+  return keys.length > 0 ? keys[keys.length - 1].key : 'value';
+}
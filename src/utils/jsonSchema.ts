@@ -0,0 +1,381 @@
+/**
+ * JSON Schema Helpers for Function Parameters
+ * Build the schema of a function's parameters, describe it compactly for the
+ * tool prompt, and validate model-produced arguments against it, coercing the
+ * strings small models often produce ("5", "true", "[1,2]") into the declared types
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { FunctionParameter, FunctionParameterType, JsonSchema, JsonSchemaType } from '../types';
+
+export interface SchemaValidationResult {
+  value: any;
+  errors: string[];
+}
+
+const PARAMETER_TYPES: FunctionParameterType[] = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+/**
+ * Full schema of one parameter (its type and description plus its extra keywords)
+ */
+export function getParameterSchema(param: FunctionParameter): JsonSchema {
+  return {
+    type: param.type,
+    ...param.schema,
+    ...(param.description ? { description: param.description } : {}),
+    ...(param.default !== undefined ? { default: param.default } : {}),
+  };
+}
+
+/**
+ * The parameters as one object schema
+ */
+export function parametersToJsonSchema(parameters: FunctionParameter[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(parameters.map((param) => [param.name, getParameterSchema(param)])),
+    required: parameters.filter((param) => param.required).map((param) => param.name),
+  };
+}
+
+/**
+ * Turn an object schema back into parameters
+ * @param previous - Parameters being replaced; their HTTP locations are kept by name
+ * @throws When the schema is not an object schema with properties
+ */
+export function jsonSchemaToParameters(schema: JsonSchema, previous: FunctionParameter[] = []): FunctionParameter[] {
+  if (!schema || typeof schema !== 'object' || !schema.properties || typeof schema.properties !== 'object') {
+    throw new Error('The schema must be an object schema with "properties"');
+  }
+
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  return Object.entries(schema.properties).map(([name, property]) => {
+    const { type, description, default: defaultValue, ...rest } = property;
+    const primaryType = (Array.isArray(type) ? type[0] : type) || 'string';
+    if (!PARAMETER_TYPES.includes(primaryType as FunctionParameterType)) {
+      throw new Error(`Parameter "${name}" has an unsupported type: ${primaryType}`);
+    }
+
+    return {
+      name,
+      type: primaryType as FunctionParameterType,
+      description: description || '',
+      required: required.includes(name),
+      default: defaultValue,
+      location: previous.find((param) => param.name === name)?.location,
+      schema: Array.isArray(type) ? { type, ...rest } : isEmpty(rest) ? undefined : rest,
+    };
+  });
+}
+
+/**
+ * Compact description of a schema for the tool prompt, e.g.
+ * `integer 1..10`, `"metric" | "imperial"`, `array of {name: string, qty?: integer}`
+ */
+export function describeJsonSchema(schema: JsonSchema, depth = 0): string {
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  if (schema.anyOf) return schema.anyOf.map((option) => describeJsonSchema(option, depth)).join(' | ');
+
+  const types = getTypes(schema);
+  const type = types.length > 0 ? types.join(' | ') : 'any';
+
+  if (types.includes('array')) {
+    const items = schema.items ? describeJsonSchema(schema.items, depth + 1) : 'any';
+    return `array of ${items}${describeRange(schema.minItems, schema.maxItems, ' items')}`;
+  }
+
+  if (types.includes('object') && schema.properties && depth < 3) {
+    const required = schema.required || [];
+    const properties = Object.entries(schema.properties).map(
+      ([name, property]) => `${name}${required.includes(name) ? '' : '?'}: ${describeJsonSchema(property, depth + 1)}`
+    );
+    return `{${properties.join(', ')}}`;
+  }
+
+  if (types.includes('number') || types.includes('integer')) {
+    return `${type}${describeNumberRange(schema)}`;
+  }
+
+  if (types.includes('string')) {
+    const details = [
+      schema.format,
+      schema.pattern && `matching /${schema.pattern}/`,
+      describeRange(schema.minLength, schema.maxLength, ' chars').trim(),
+    ].filter(Boolean);
+    return details.length > 0 ? `${type} (${details.join(', ')})` : type;
+  }
+
+  return type;
+}
+
+/**
+ * Validate a value against a schema, coercing where the intent is clear
+ * @param path - Name used in error messages (e.g. "items[2].qty")
+ */
+export function validateJsonSchema(value: any, schema: JsonSchema, path: string): SchemaValidationResult {
+  if (schema.anyOf && schema.anyOf.length > 0) {
+    const { anyOf, ...base } = schema;
+    for (const option of anyOf) {
+      const result = validateJsonSchema(value, { ...base, ...option }, path);
+      if (result.errors.length === 0) return result;
+    }
+    return { value, errors: [`${path} does not match any of the allowed forms`] };
+  }
+
+  const types = getTypes(schema);
+  const coerced = types.length > 0 ? coerce(value, types, schema) : value;
+  const errors: string[] = [];
+
+  if (types.length > 0 && !types.some((type) => matchesType(coerced, type))) {
+    return { value: coerced, errors: [`${path} must be ${describeTypes(types)}`] };
+  }
+
+  let result = coerced;
+
+  if (schema.enum) {
+    result = matchEnum(result, schema.enum);
+    if (!schema.enum.some((option) => deepEqual(option, result))) {
+      errors.push(`${path} must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, result)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof result === 'string') {
+    errors.push(...checkString(result, schema, path));
+  } else if (typeof result === 'number') {
+    errors.push(...checkNumber(result, schema, path));
+  } else if (Array.isArray(result)) {
+    const checked = checkArray(result, schema, path);
+    result = checked.value;
+    errors.push(...checked.errors);
+  } else if (result !== null && typeof result === 'object') {
+    const checked = checkObject(result, schema, path);
+    result = checked.value;
+    errors.push(...checked.errors);
+  }
+
+  return { value: result, errors };
+}
+
+function getTypes(schema: JsonSchema): JsonSchemaType[] {
+  if (Array.isArray(schema.type)) return schema.type;
+  if (schema.type) return [schema.type];
+  return [];
+}
+
+/**
+ * Convert the common mismatches models produce; anything else is left as is
+ */
+function coerce(value: any, types: JsonSchemaType[], schema: JsonSchema): any {
+  if (types.some((type) => matchesType(value, type))) return value;
+
+  if (typeof value === 'string') {
+    const text = value.trim();
+
+    if ((types.includes('integer') || types.includes('number')) && text !== '' && !isNaN(Number(text))) {
+      return Number(text);
+    }
+    if (types.includes('boolean') && /^(true|false)$/i.test(text)) {
+      return text.toLowerCase() === 'true';
+    }
+    if (types.includes('null') && /^null$/i.test(text)) {
+      return null;
+    }
+    if ((types.includes('array') && text.startsWith('[')) || (types.includes('object') && text.startsWith('{'))) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return value;
+      }
+    }
+    if (types.includes('array')) {
+      // "a, b, c" for an array of strings or numbers
+      const itemTypes = schema.items ? getTypes(schema.items) : [];
+      return text === '' ? [] : text.split(',').map((item) => coerce(item.trim(), itemTypes, schema.items || {}));
+    }
+  }
+
+  if ((typeof value === 'number' || typeof value === 'boolean') && types.includes('string')) {
+    return String(value);
+  }
+
+  // A single value where a list is expected
+  if (types.includes('array') && value !== null && value !== undefined) {
+    return [value];
+  }
+
+  return value;
+}
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+/**
+ * Accept an enum string that differs only in case ("Celsius" for "celsius")
+ */
+function matchEnum(value: any, options: any[]): any {
+  if (typeof value !== 'string' || options.includes(value)) return value;
+  const match = options.find((option) => typeof option === 'string' && option.toLowerCase() === value.toLowerCase());
+  return match ?? value;
+}
+
+function checkString(value: string, schema: JsonSchema, path: string): string[] {
+  const errors: string[] = [];
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path} must be at least ${schema.minLength} characters`);
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(`${path} must be at most ${schema.maxLength} characters`);
+  }
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(value)) {
+        errors.push(`${path} must match /${schema.pattern}/`);
+      }
+    } catch {
+      console.warn(`⚠️ Ignoring invalid pattern for ${path}: ${schema.pattern}`);
+    }
+  }
+  return errors;
+}
+
+function checkNumber(value: number, schema: JsonSchema, path: string): string[] {
+  const errors: string[] = [];
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path} must be at least ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push(`${path} must be at most ${schema.maximum}`);
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push(`${path} must be greater than ${schema.exclusiveMinimum}`);
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push(`${path} must be less than ${schema.exclusiveMaximum}`);
+  }
+  if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+    errors.push(`${path} must be a multiple of ${schema.multipleOf}`);
+  }
+  return errors;
+}
+
+function checkArray(value: any[], schema: JsonSchema, path: string): SchemaValidationResult {
+  const errors: string[] = [];
+  let items = value;
+
+  if (schema.items) {
+    const results = value.map((item, index) => validateJsonSchema(item, schema.items!, `${path}[${index}]`));
+    items = results.map((result) => result.value);
+    results.forEach((result) => errors.push(...result.errors));
+  }
+
+  if (schema.minItems !== undefined && items.length < schema.minItems) {
+    errors.push(`${path} must have at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+    errors.push(`${path} must have at most ${schema.maxItems} items`);
+  }
+  if (schema.uniqueItems && new Set(items.map((item) => JSON.stringify(item))).size !== items.length) {
+    errors.push(`${path} must not contain duplicates`);
+  }
+
+  return { value: items, errors };
+}
+
+function checkObject(value: Record<string, any>, schema: JsonSchema, path: string): SchemaValidationResult {
+  const errors: string[] = [];
+  const result: Record<string, any> = {};
+  const properties = schema.properties || {};
+  const required = schema.required || [];
+
+  for (const [name, property] of Object.entries(properties)) {
+    const propertyPath = `${path}.${name}`;
+    if (!hasOwn(value, name) || value[name] === undefined) {
+      if (property.default !== undefined) {
+        result[name] = property.default;
+      } else if (required.includes(name)) {
+        errors.push(`Missing required property: ${propertyPath}`);
+      }
+      continue;
+    }
+
+    const checked = validateJsonSchema(value[name], property, propertyPath);
+    result[name] = checked.value;
+    errors.push(...checked.errors);
+  }
+
+  for (const [name, extra] of Object.entries(value)) {
+    if (hasOwn(properties, name)) continue;
+
+    if (schema.additionalProperties === false) {
+      errors.push(`Unknown property: ${path}.${name}`);
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      const checked = validateJsonSchema(extra, schema.additionalProperties, `${path}.${name}`);
+      result[name] = checked.value;
+      errors.push(...checked.errors);
+    } else {
+      result[name] = extra;
+    }
+  }
+
+  return { value: result, errors };
+}
+
+function describeTypes(types: JsonSchemaType[]): string {
+  const names = types.map((type) => (type === 'integer' ? 'a whole number' : type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`));
+  return names.join(' or ');
+}
+
+function describeRange(min?: number, max?: number, unit = ''): string {
+  if (min !== undefined && max !== undefined) return ` ${min}..${max}${unit}`;
+  if (min !== undefined) return ` >= ${min}${unit}`;
+  if (max !== undefined) return ` <= ${max}${unit}`;
+  return '';
+}
+
+// Bounds of a number; exclusive ones are strict
+function describeNumberRange(schema: JsonSchema): string {
+  if (schema.exclusiveMinimum === undefined && schema.exclusiveMaximum === undefined) {
+    return describeRange(schema.minimum, schema.maximum);
+  }
+  const bounds = [
+    schema.minimum !== undefined && `>= ${schema.minimum}`,
+    schema.exclusiveMinimum !== undefined && `> ${schema.exclusiveMinimum}`,
+    schema.maximum !== undefined && `<= ${schema.maximum}`,
+    schema.exclusiveMaximum !== undefined && `< ${schema.exclusiveMaximum}`,
+  ].filter(Boolean);
+  return ` ${bounds.join(', ')}`;
+}
+
+// Own keys only: a property named `constructor` or `toString` isn't inherited
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isEmpty(value: object): boolean {
+  return Object.keys(value).length === 0;
+}
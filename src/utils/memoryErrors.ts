@@ -0,0 +1,25 @@
+/**
+ * Memory Error Helpers
+ * Recognize the many ways running out of (GPU) memory surfaces while loading a model
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+const OUT_OF_MEMORY_PATTERNS = [
+  /out of memory/i,
+  /\boom\b/i,
+  /allocation failed/i, // e.g. "RangeError: Array buffer allocation failed"
+  /failed to allocate/i,
+  /memory access out of bounds/i, // WASM heap exhausted
+  /device (was )?lost/i, // WebGPU drops the device when VRAM runs out
+  /max(imum)? ?buffer ?size/i,
+];
+
+/**
+ * Check whether an error came from running out of memory
+ * Engines wrap the original error in their own message, so the text is searched.
+ */
+export function isOutOfMemoryError(error: unknown): boolean {
+  const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  return OUT_OF_MEMORY_PATTERNS.some((pattern) => pattern.test(message));
+}
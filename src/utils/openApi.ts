@@ -0,0 +1,341 @@
+/**
+ * OpenAPI Import Helpers
+ * Parse OpenAPI 3 documents (JSON or YAML) and turn each operation into a
+ * custom function definition, with path/query/header/body parameters mapped
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import { load as loadYaml } from 'js-yaml';
+import type {
+  FunctionAuth,
+  FunctionDefinition,
+  FunctionParameter,
+  FunctionParameterLocation,
+  FunctionParameterType,
+  HttpMethod,
+  JsonSchema,
+} from '../types';
+
+/**
+ * The parts of an OpenAPI 3 document used here
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Array<{ url: string; variables?: Record<string, { default: string }> }>;
+  paths?: Record<string, Record<string, any>>;
+  security?: Array<Record<string, string[]>>;
+  components?: Record<string, Record<string, any>>;
+}
+
+const OPERATION_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Keep imported descriptions short enough for small models' tool prompts
+const MAX_DESCRIPTION_LENGTH = 300;
+
+/**
+ * Parse a pasted or uploaded spec, JSON or YAML
+ */
+export function parseOpenApiDocument(text: string): OpenApiDocument {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('The spec is empty');
+  }
+
+  let document: any;
+  try {
+    document = trimmed.startsWith('{') ? JSON.parse(trimmed) : loadYaml(trimmed);
+  } catch (error) {
+    throw new Error(`Could not parse the spec: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!document || typeof document !== 'object') {
+    throw new Error('The spec is not a JSON or YAML object');
+  }
+  if (typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new Error(
+      document.swagger
+        ? 'Swagger 2.0 specs are not supported; convert it to OpenAPI 3 first'
+        : 'Not an OpenAPI 3 document (missing "openapi: 3.x")'
+    );
+  }
+  if (!document.paths || Object.keys(document.paths).length === 0) {
+    throw new Error('The spec has no paths');
+  }
+  return document as OpenApiDocument;
+}
+
+/**
+ * Stable identifier for an operation, e.g. "GET /pets/{petId}"
+ */
+export function getOperationKey(method: HttpMethod, path: string): string {
+  return `${method} ${path}`;
+}
+
+/**
+ * One function per operation (GET, POST, PUT, PATCH, DELETE)
+ * @param specId - Prefix for the function IDs, so re-syncing updates the same functions
+ * @param specUrl - Where the spec came from, to resolve relative server URLs
+ */
+export function operationsToFunctions(document: OpenApiDocument, specId: string, specUrl?: string): FunctionDefinition[] {
+  const baseUrl = getBaseUrl(document, specUrl);
+  const functions: FunctionDefinition[] = [];
+
+  Object.entries(document.paths || {}).forEach(([path, rawPathItem]) => {
+    const pathItem = resolveRef(document, rawPathItem) || {};
+
+    OPERATION_METHODS.forEach((method) => {
+      const operation = pathItem[method.toLowerCase()];
+      if (!operation) return;
+
+      const operationKey = getOperationKey(method, path);
+      const summary = operation.summary || operation.operationId || operationKey;
+      const description = [operation.summary, operation.description].filter(Boolean).join('. ') || operationKey;
+
+      functions.push({
+        id: `openapi_${specId}_${slugify(operation.operationId || `${method}_${path}`)}`,
+        name: summary,
+        description: truncate(description, MAX_DESCRIPTION_LENGTH),
+        parameters: getOperationParameters(document, pathItem, operation, operationKey),
+        enabled: true,
+        builtIn: false,
+        endpoint: `${baseUrl}${path}`,
+        method,
+        auth: getAuth(document, operation),
+        openApi: { specId, operationKey },
+      });
+    });
+  });
+
+  return functions;
+}
+
+/**
+ * Readable, ID-safe version of a name
+ */
+export function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 60) || 'api'
+  );
+}
+
+/**
+ * First server URL with its variables filled in, resolved against the spec URL
+ */
+function getBaseUrl(document: OpenApiDocument, specUrl?: string): string {
+  const server = document.servers?.[0];
+  if (!server) {
+    return specUrl ? new URL(specUrl).origin : '';
+  }
+
+  let url = server.url.replace(/\{([^}]+)\}/g, (match, name) => server.variables?.[name]?.default ?? match);
+  if (specUrl && !/^https?:\/\//i.test(url)) {
+    url = new URL(url, specUrl).toString();
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * How the operation expects its API key, from the first security scheme it (or
+ * the whole API) requires that can be sent from the browser
+ */
+function getAuth(document: OpenApiDocument, operation: Record<string, any>): FunctionAuth | undefined {
+  const requirements: Array<Record<string, string[]>> = operation.security ?? document.security ?? [];
+  const schemes = document.components?.securitySchemes || {};
+
+  for (const requirement of requirements) {
+    for (const name of Object.keys(requirement)) {
+      const scheme = resolveRef(document, schemes[name]);
+      if (scheme?.type === 'apiKey' && (scheme.in === 'header' || scheme.in === 'query')) {
+        return { type: 'apiKey', in: scheme.in, name: scheme.name };
+      }
+      if (scheme?.type === 'http' && /^basic$/i.test(scheme.scheme)) {
+        return { type: 'basic', username: '' };
+      }
+      if (scheme?.type === 'http' && /^bearer$/i.test(scheme.scheme)) {
+        return { type: 'bearer' };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Path-level and operation-level parameters (the operation's win), plus the
+ * properties of a JSON request body
+ */
+function getOperationParameters(
+  document: OpenApiDocument,
+  pathItem: Record<string, any>,
+  operation: Record<string, any>,
+  operationKey: string
+): FunctionParameter[] {
+  const byKey = new Map<string, any>();
+  [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach((raw: any) => {
+    const param = resolveRef(document, raw);
+    if (param?.name && param.in) {
+      byKey.set(`${param.in}:${param.name}`, param);
+    }
+  });
+
+  const parameters: FunctionParameter[] = [];
+  const addParameter = (parameter: FunctionParameter) => {
+    if (parameters.some((existing) => existing.name === parameter.name)) {
+      console.warn(`⚠️ ${operationKey}: skipping duplicate parameter "${parameter.name}" (${parameter.location})`);
+      return;
+    }
+    parameters.push(parameter);
+  };
+
+  byKey.forEach((param) => {
+    if (param.in === 'cookie') return; // Browsers don't let scripts set cookies on requests
+
+    const schema = resolveSchema(document, param.schema);
+    addParameter({
+      ...toParameter(param.name, schema, param.description),
+      required: param.in === 'path' || !!param.required,
+      location: param.in as FunctionParameterLocation,
+    });
+  });
+
+  const body = resolveRef(document, operation.requestBody);
+  const rawBodySchema = body?.content?.['application/json']?.schema;
+  const bodySchema = rawBodySchema ? resolveSchema(document, rawBodySchema) : undefined;
+  if (bodySchema?.properties) {
+    const required = bodySchema.required || [];
+    Object.entries(bodySchema.properties).forEach(([name, schema]) => {
+      addParameter({
+        ...toParameter(name, schema),
+        required: required.includes(name),
+        location: 'body',
+      });
+    });
+  } else if (body) {
+    console.warn(`⚠️ ${operationKey}: only JSON object request bodies are mapped to parameters`);
+  }
+
+  return parameters;
+}
+
+/**
+ * A parameter from its schema; keywords beyond the type go in its JSON Schema
+ */
+function toParameter(name: string, schema: JsonSchema, description?: string): Omit<FunctionParameter, 'required'> {
+  const { type, description: schemaDescription, default: defaultValue, ...rest } = schema;
+  const types = Array.isArray(type) ? type : type ? [type] : [];
+  const primaryType = types.find((candidate) => candidate !== 'null') ?? (schema.properties ? 'object' : 'string');
+
+  return {
+    name,
+    type: primaryType as FunctionParameterType,
+    description: description || schemaDescription || '',
+    default: defaultValue,
+    schema: types.length > 1 ? { type: types, ...rest } : Object.keys(rest).length > 0 ? rest : undefined,
+  };
+}
+
+const SCHEMA_KEYWORDS = [
+  'description',
+  'default',
+  'enum',
+  'const',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'format',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'required',
+] as const;
+
+/**
+ * Copy the JSON Schema keywords functions support, following $refs and merging
+ * allOf. OpenAPI 3.0 "nullable" becomes a "null" type; oneOf is treated as anyOf.
+ */
+function resolveSchema(document: OpenApiDocument, raw: any, depth = 0): JsonSchema {
+  const source = resolveRef(document, raw);
+  if (!source || typeof source !== 'object' || depth > 6) return {};
+
+  const merged: Record<string, any> = Array.isArray(source.allOf)
+    ? source.allOf.reduce(
+        (all: Record<string, any>, part: any) => {
+          const resolved = resolveRef(document, part) || {};
+          return {
+            ...all,
+            ...resolved,
+            properties: { ...all.properties, ...resolved.properties },
+            required: [...(all.required || []), ...(resolved.required || [])],
+          };
+        },
+        { ...source, allOf: undefined }
+      )
+    : source;
+
+  const schema: JsonSchema = {};
+  SCHEMA_KEYWORDS.forEach((keyword) => {
+    if (merged[keyword] !== undefined) {
+      (schema as Record<string, any>)[keyword] = merged[keyword];
+    }
+  });
+  if (Array.isArray(schema.required) && schema.required.length === 0) {
+    delete schema.required;
+  }
+
+  const type = merged.type ?? (merged.properties ? 'object' : undefined);
+  if (type) {
+    schema.type = merged.nullable && !Array.isArray(type) ? [type, 'null'] : type;
+  }
+  if (merged.items) {
+    schema.items = resolveSchema(document, merged.items, depth + 1);
+  }
+  if (merged.properties && Object.keys(merged.properties).length > 0) {
+    schema.properties = Object.fromEntries(
+      Object.entries(merged.properties).map(([name, property]) => [name, resolveSchema(document, property, depth + 1)])
+    );
+  }
+  if (typeof merged.additionalProperties === 'boolean') {
+    schema.additionalProperties = merged.additionalProperties;
+  } else if (merged.additionalProperties) {
+    schema.additionalProperties = resolveSchema(document, merged.additionalProperties, depth + 1);
+  }
+  const options = merged.anyOf || merged.oneOf;
+  if (Array.isArray(options)) {
+    schema.anyOf = options.map((option: any) => resolveSchema(document, option, depth + 1));
+  }
+
+  return schema;
+}
+
+/**
+ * Follow local "$ref" pointers (e.g. #/components/schemas/Pet)
+ */
+function resolveRef(document: OpenApiDocument, value: any, depth = 0): any {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') {
+    return value;
+  }
+  if (depth > 10 || !value.$ref.startsWith('#/')) {
+    return undefined; // Circular or external reference
+  }
+
+  const target = value.$ref
+    .slice(2)
+    .split('/')
+    .map((part: string) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node: any, part: string) => node?.[part], document);
+  return resolveRef(document, target, depth + 1);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,47 @@
+/**
+ * Multimodal Streaming Helper
+ * Runs a streaming multimodal generation and collects the full response,
+ * reporting the text so far as tokens arrive
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { GenerationOptions, MessageMetadata } from '../types';
+import type { GenerationResult, InferenceEngineAPI, MultimodalInput } from '../services/InferenceEngine';
+import { createAbortError } from './abort';
+
+export type StreamProgressCallback = (partialText: string) => void;
+
+/**
+ * Stream a multimodal response to completion
+ * Throws an AbortError if the stream was stopped, like generateMultimodal
+ */
+export async function streamMultimodal(
+  engine: InferenceEngineAPI,
+  inputs: MultimodalInput[],
+  options: GenerationOptions,
+  onProgress?: StreamProgressCallback,
+  imageResolution?: string
+): Promise<GenerationResult> {
+  let text = '';
+  let metadata: MessageMetadata = {};
+
+  await engine.generateMultimodalStreaming(
+    inputs,
+    options,
+    (token, isDone, finalMetadata) => {
+      text += token;
+      if (isDone) {
+        metadata = finalMetadata || {};
+      }
+      onProgress?.(text);
+    },
+    imageResolution
+  );
+
+  if (metadata.interrupted) {
+    throw createAbortError();
+  }
+
+  return { text, metadata };
+}
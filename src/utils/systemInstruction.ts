@@ -0,0 +1,111 @@
+/**
+ * System Instruction
+ * Builds the system instruction from response style, custom prompts, structured
+ * output and safety settings, so every backend steers the model the same way
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import { contentFilterService } from '../services/ContentFilterService';
+import { structuredOutputService } from '../services/StructuredOutputService';
+import { getPersonaById } from '../config/personas';
+
+export type Verbosity = 'concise' | 'balanced' | 'detailed';
+
+export interface SystemPromptSettings {
+  enabled: boolean;
+  customPrompt: string;
+  selectedPreset: string | null;
+}
+
+export interface StructuredOutputSettings {
+  enabled: boolean;
+  format: string;
+  jsonSchema?: string;
+  xmlRootElement?: string;
+  csvIncludeHeaders?: boolean;
+  csvDelimiter?: string;
+}
+
+export interface SafetySettings {
+  enabled: boolean;
+  level: 'off' | 'moderate' | 'strict';
+  blockProfanity: boolean;
+  blockViolence: boolean;
+  blockSexual: boolean;
+  blockHate: boolean;
+  customFilters: string[];
+}
+
+/**
+ * Get system instruction based on verbosity setting
+ */
+export function getVerbosityInstruction(verbosity: Verbosity): string {
+  const instructions = {
+    concise: 'Provide direct, informative answers. Answer questions fully with essential facts and information. Be brief but complete - avoid unnecessary fluff or repetition.',
+    balanced: 'Provide clear explanations with moderate detail. Balance thoroughness with brevity.',
+    detailed: 'Provide comprehensive and thorough explanations with examples when helpful. Be detailed in your responses.'
+  };
+  return instructions[verbosity];
+}
+
+/**
+ * Build complete system instruction including custom prompts, verbosity, structured output, and safety
+ */
+export function buildSystemInstruction(
+  verbosity: Verbosity,
+  systemPromptSettings?: SystemPromptSettings,
+  structuredOutputSettings?: StructuredOutputSettings,
+  safetySettings?: SafetySettings,
+  toolInstruction?: string
+): string {
+  const instructions: string[] = [];
+
+  // Add safety instructions first
+  if (safetySettings?.enabled && safetySettings.level !== 'off') {
+    const safetyPrompt = contentFilterService.generateSafetyPrompt(safetySettings);
+    if (safetyPrompt) {
+      instructions.push(safetyPrompt);
+    }
+  }
+
+  // Add structured output instructions
+  if (structuredOutputSettings?.enabled) {
+    const formatPrompt = structuredOutputService.generateStructuredPrompt('', {
+      format: structuredOutputSettings.format as any,
+      schema: structuredOutputSettings.jsonSchema ? JSON.parse(structuredOutputSettings.jsonSchema) : undefined,
+      rootElement: structuredOutputSettings.xmlRootElement,
+      includeHeaders: structuredOutputSettings.csvIncludeHeaders,
+      delimiter: structuredOutputSettings.csvDelimiter,
+    });
+    // Extract just the instruction part (without "User request:")
+    const instructionPart = formatPrompt.split('User request:')[0].trim();
+    instructions.push(instructionPart);
+  }
+
+  // Add custom system prompt if enabled
+  if (systemPromptSettings?.enabled) {
+    if (systemPromptSettings.customPrompt) {
+      // User has a custom prompt
+      instructions.push(systemPromptSettings.customPrompt);
+    } else if (systemPromptSettings.selectedPreset) {
+      // User has selected a preset
+      const persona = getPersonaById(systemPromptSettings.selectedPreset);
+      if (persona) {
+        instructions.push(persona.systemPrompt);
+      }
+    }
+  }
+
+  // Always add verbosity instruction (can be omitted if custom prompt already handles it)
+  if (!systemPromptSettings?.enabled || !systemPromptSettings.customPrompt) {
+    instructions.push(getVerbosityInstruction(verbosity));
+  }
+
+  // Tool descriptions and call protocol go last so they stay closest to the conversation
+  if (toolInstruction) {
+    instructions.push(toolInstruction);
+  }
+
+  return instructions.filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,84 @@
+/**
+ * Token Timings
+ * Turns streamed chunk timestamps into latency metrics for message metadata
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { MessageMetadata } from '../types';
+
+export interface TokenChunkSample {
+  time: number; // When the chunk arrived (ms)
+  tokens: number; // Tokens in the chunk
+}
+
+export type TokenTimingMetadata = Pick<
+  MessageMetadata,
+  | 'tokensPerSecond'
+  | 'responseLatency'
+  | 'totalGenerationTime'
+  | 'totalTokens'
+  | 'prefillTime'
+  | 'decodeTime'
+  | 'interTokenLatencyP50'
+  | 'interTokenLatencyP95'
+>;
+
+/**
+ * Nearest-rank percentile of a list of values
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+/**
+ * Summarize a streamed generation
+ * @param requestStart - When the request started (includes waiting and session setup)
+ * @param submitTime - When the prompt was handed to the model
+ * @param samples - Streamed chunks in arrival order
+ * @param endTime - When the last chunk arrived (or the stream was stopped)
+ * @param totalTokens - Tokens in the full response
+ */
+export function summarizeTokenTimings(
+  requestStart: number,
+  submitTime: number,
+  samples: TokenChunkSample[],
+  endTime: number,
+  totalTokens: number
+): TokenTimingMetadata {
+  const totalGenerationTime = endTime - requestStart;
+  const tokensPerSecond = totalGenerationTime > 0 ? totalTokens / (totalGenerationTime / 1000) : 0;
+
+  const first = samples.find((sample) => sample.tokens > 0);
+  if (!first) {
+    return { tokensPerSecond, totalGenerationTime, totalTokens };
+  }
+
+  // A chunk can carry several tokens; its gap is spread evenly across them
+  const interTokenLatencies: number[] = [];
+  let previousTime = first.time;
+  for (const sample of samples.slice(samples.indexOf(first) + 1)) {
+    if (sample.tokens === 0) continue;
+    const perToken = (sample.time - previousTime) / sample.tokens;
+    for (let i = 0; i < sample.tokens; i++) {
+      interTokenLatencies.push(perToken);
+    }
+    previousTime = sample.time;
+  }
+
+  return {
+    tokensPerSecond,
+    responseLatency: first.time - requestStart,
+    totalGenerationTime,
+    totalTokens,
+    prefillTime: first.time - submitTime,
+    decodeTime: endTime - first.time,
+    ...(interTokenLatencies.length > 0 && {
+      interTokenLatencyP50: percentile(interTokenLatencies, 50),
+      interTokenLatencyP95: percentile(interTokenLatencies, 95),
+    }),
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Inference Worker
+ * Hosts the MediaPipe InferenceEngine off the main thread so the UI stays responsive
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import { EnginePool } from '../services/EnginePool';
+import { WORKER_UNSUPPORTED_ERROR, type InferenceRequest, type InferenceResponse } from './inferenceProtocol';
+
+// MediaPipe checks image sources with `instanceof HTMLImageElement` and friends,
+// which throws where those classes don't exist. Stand-ins let decoded
+// ImageBitmaps fall through to the generic path.
+for (const name of ['HTMLImageElement', 'HTMLVideoElement', 'VideoFrame']) {
+  if (!(name in self)) {
+    Object.defineProperty(self, name, { value: class {}, configurable: true });
+  }
+}
+
+// Statistics are recorded by the proxy on the main thread
+const engine = new EnginePool({ recordStats: false });
+
+// In-flight requests that can still be aborted
+const controllers = new Map<number, AbortController>();
+
+function post(message: InferenceResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<InferenceRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'abort') {
+    controllers.get(request.requestId)?.abort();
+    return;
+  }
+
+  const { requestId } = request;
+  const controller = new AbortController();
+  controllers.set(requestId, controller);
+
+  try {
+    switch (request.type) {
+      case 'initialize': {
+        if (!('gpu' in navigator)) {
+          post({
+            type: 'error',
+            requestId,
+            error: { name: WORKER_UNSUPPORTED_ERROR, message: 'WebGPU is not available in workers' },
+          });
+          return;
+        }
+        await engine.initialize(request.config, request.options);
+        post({ type: 'result', requestId, residentModelIds: engine.getResidentModelIds() });
+        break;
+      }
+
+      case 'generate': {
+        const { args } = request;
+        const result = await engine.generate(
+          args.prompt,
+          { ...args.options, signal: controller.signal },
+          args.verbosity,
+          args.systemPromptSettings,
+          args.structuredOutputSettings,
+          args.safetySettings,
+          args.toolInstruction
+        );
+        post({ type: 'result', requestId, result });
+        break;
+      }
+
+      case 'generateStreaming': {
+        const { args } = request;
+        await engine.generateStreaming(
+          args.prompt,
+          { ...args.options, signal: controller.signal },
+          (token, isDone, metadata) => post({ type: 'token', requestId, token, isDone, metadata }),
+          args.verbosity,
+          args.systemPromptSettings,
+          args.structuredOutputSettings,
+          args.safetySettings,
+          args.toolInstruction
+        );
+        post({ type: 'result', requestId });
+        break;
+      }
+
+      case 'generateMultimodal': {
+        const result = await engine.generateMultimodal(
+          request.inputs,
+          { ...request.options, signal: controller.signal },
+          request.imageResolution
+        );
+        post({ type: 'result', requestId, result });
+        break;
+      }
+
+      case 'generateMultimodalStreaming': {
+        await engine.generateMultimodalStreaming(
+          request.inputs,
+          { ...request.options, signal: controller.signal },
+          (token, isDone, metadata) => post({ type: 'token', requestId, token, isDone, metadata }),
+          request.imageResolution
+        );
+        post({ type: 'result', requestId });
+        break;
+      }
+
+      case 'preload': {
+        if (!('gpu' in navigator)) {
+          post({
+            type: 'error',
+            requestId,
+            error: { name: WORKER_UNSUPPORTED_ERROR, message: 'WebGPU is not available in workers' },
+          });
+          return;
+        }
+        await engine.preload(request.config, request.options);
+        post({ type: 'result', requestId, residentModelIds: engine.getResidentModelIds() });
+        break;
+      }
+
+      case 'unload': {
+        await engine.unload();
+        post({ type: 'result', requestId, residentModelIds: engine.getResidentModelIds() });
+        break;
+      }
+
+      case 'unloadModel': {
+        await engine.unloadModel(request.modelId);
+        post({ type: 'result', requestId, residentModelIds: engine.getResidentModelIds() });
+        break;
+      }
+
+      case 'setPolicy': {
+        await engine.setPolicy(request.policy);
+        post({ type: 'result', requestId, residentModelIds: engine.getResidentModelIds() });
+        break;
+      }
+
+      case 'countTokens': {
+        const tokenCounts = await engine.countTokens(request.texts);
+        post({ type: 'result', requestId, tokenCounts });
+        break;
+      }
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId,
+      error: {
+        name: error instanceof Error || error instanceof DOMException ? error.name : 'Error',
+        message: error instanceof Error || error instanceof DOMException ? error.message : String(error),
+      },
+    });
+  } finally {
+    controllers.delete(requestId);
+    if (request.type === 'generateMultimodal' || request.type === 'generateMultimodalStreaming') {
+      request.inputs.forEach((input) => {
+        if (input.imageSource instanceof ImageBitmap) input.imageSource.close();
+      });
+    }
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * Inference Worker Protocol
+ * Typed messages exchanged between InferenceEngineProxy and the inference worker
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ModelConfig } from '../config/models';
+import type { GenerationOptions, MessageMetadata } from '../types';
+import type { GenerationResult, InferenceEngine, MultimodalInput } from '../services/InferenceEngine';
+import type { ResidencyPolicy } from '../services/EnginePool';
+
+// AbortSignal can't cross the worker boundary; cancellation uses 'abort' messages
+export type WorkerGenerationOptions = Omit<GenerationOptions, 'signal'>;
+
+type GenerateParams = Parameters<InferenceEngine['generate']>;
+
+export interface TextGenerationArgs {
+  prompt: GenerateParams[0];
+  options: WorkerGenerationOptions;
+  verbosity?: GenerateParams[2];
+  systemPromptSettings?: GenerateParams[3];
+  structuredOutputSettings?: GenerateParams[4];
+  safetySettings?: GenerateParams[5];
+  toolInstruction?: string;
+}
+
+/**
+ * Main thread → worker
+ * Multimodal inputs arrive decoded (ImageBitmap and audio samples, transferred),
+ * since MediaPipe can't load URL sources without Image and AudioContext
+ */
+export type InferenceRequest =
+  | { type: 'initialize'; requestId: number; config: ModelConfig; options?: WorkerGenerationOptions }
+  | { type: 'generate'; requestId: number; args: TextGenerationArgs }
+  | { type: 'generateStreaming'; requestId: number; args: TextGenerationArgs }
+  | {
+      type: 'generateMultimodal';
+      requestId: number;
+      inputs: MultimodalInput[];
+      options: WorkerGenerationOptions;
+      imageResolution?: string;
+    }
+  | {
+      type: 'generateMultimodalStreaming';
+      requestId: number;
+      inputs: MultimodalInput[];
+      options: WorkerGenerationOptions;
+      imageResolution?: string;
+    }
+  | { type: 'preload'; requestId: number; config: ModelConfig; options?: WorkerGenerationOptions }
+  | { type: 'unload'; requestId: number } // Unloads every resident model
+  | { type: 'unloadModel'; requestId: number; modelId: string }
+  | { type: 'setPolicy'; requestId: number; policy: ResidencyPolicy }
+  | { type: 'countTokens'; requestId: number; texts: string[] }
+  | { type: 'abort'; requestId: number }; // Cancels the request with this id
+
+/**
+ * Worker → main thread
+ */
+export type InferenceResponse =
+  | { type: 'token'; requestId: number; token: string; isDone: boolean; metadata?: MessageMetadata }
+  | {
+      type: 'result';
+      requestId: number;
+      result?: GenerationResult;
+      residentModelIds?: string[];
+      tokenCounts?: Array<number | null>;
+    }
+  | { type: 'error'; requestId: number; error: { name: string; message: string } };
+
+// Error name sent when the worker can't run MediaPipe (e.g. no WebGPU in workers)
+export const WORKER_UNSUPPORTED_ERROR = 'WorkerUnsupportedError';
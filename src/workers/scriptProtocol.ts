@@ -0,0 +1,25 @@
+/**
+ * Script Worker Protocol
+ * Messages exchanged between ScriptSandbox and the script worker (relayed by
+ * the sandbox frame)
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { FunctionExecutionContext } from '../types';
+
+/**
+ * Main thread → worker (one run per worker)
+ */
+export interface ScriptRequest {
+  script: string;
+  params: Record<string, any>;
+  context: FunctionExecutionContext;
+}
+
+/**
+ * Worker → main thread
+ */
+export type ScriptResponse =
+  | { type: 'result'; result: any; logs: string[] }
+  | { type: 'error'; error: string; logs: string[] };
@@ -0,0 +1,132 @@
+/**
+ * Script Sandbox Frame
+ * The document ScriptSandbox runs JavaScript functions in: a sandboxed iframe
+ * (opaque origin, so IndexedDB, Cache Storage, OPFS and Web Locks throw) whose
+ * Content Security Policy blocks every network request, including fetch and
+ * dynamic import(). The frame starts the script in a blob worker, which
+ * inherits the policy, and relays its one reply over a MessagePort.
+ *
+ * frameMain and workerMain are serialized with toString(), so they must not
+ * reference anything outside themselves.
+ *
+ * @author Dr. Ernesto Lee
+ */
+
+import type { ScriptRequest, ScriptResponse } from './scriptProtocol';
+
+// 'unsafe-eval' compiles the function body; there is no source to fetch scripts from
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:";
+
+/**
+ * The frame's srcdoc
+ */
+export function createSandboxDocument(): string {
+  const workerSource = `(${workerMain.toString()})();`;
+  // Escape "<" so the sources can't close the inline script
+  const bootstrap = `(${frameMain.toString()})(${JSON.stringify(workerSource)});`.replace(/</g, '\\u003c');
+  return `<!DOCTYPE html><meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}"><script>${bootstrap}</script>`;
+}
+
+/**
+ * Runs in the frame: start the worker for the first request and relay its reply
+ */
+function frameMain(workerSource: string): void {
+  const onRequest = (event: MessageEvent<ScriptRequest>) => {
+    const port = event.ports[0];
+    if (event.source !== parent || !port) return;
+    removeEventListener('message', onRequest);
+
+    const reply = (response: ScriptResponse) => port.postMessage(response);
+    try {
+      const worker = new Worker(URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })));
+      worker.onmessage = (message: MessageEvent<ScriptResponse>) => reply(message.data);
+      worker.onerror = (error) => {
+        error.preventDefault();
+        reply({ type: 'error', error: error.message || 'The script worker failed', logs: [] });
+      };
+      worker.postMessage(event.data);
+    } catch (error) {
+      reply({ type: 'error', error: `The script worker could not start: ${error}`, logs: [] });
+    }
+  };
+  addEventListener('message', onRequest);
+}
+
+/**
+ * Runs in the worker: run one function body and post its JSON result
+ */
+function workerMain(): void {
+  const MAX_LOGS = 50;
+  const MAX_LOG_CHARS = 1000;
+  const MAX_RESULT_CHARS = 100000;
+
+  const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+    ...args: string[]
+  ) => (...args: any[]) => Promise<any>;
+
+  // Keep our own handle, then remove postMessage so the script can't forge a reply
+  const post = self.postMessage.bind(self) as (message: ScriptResponse) => void;
+  for (let scope: object | null = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    if (scope !== self && !Object.prototype.hasOwnProperty.call(scope, 'postMessage')) continue;
+    try {
+      Object.defineProperty(scope, 'postMessage', { value: undefined, configurable: false, writable: false });
+    } catch {
+      // Not configurable in this browser
+    }
+  }
+
+  const logs: string[] = [];
+
+  const safeStringify = (value: any): string => {
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  const capture = (...args: any[]) => {
+    if (logs.length < MAX_LOGS) {
+      const line = args.map((arg) => (typeof arg === 'string' ? arg : safeStringify(arg))).join(' ');
+      logs.push(line.length > MAX_LOG_CHARS ? `${line.slice(0, MAX_LOG_CHARS)}…` : line);
+    }
+  };
+
+  // Results must survive JSON (they become the tool result the model reads)
+  const toJson = (result: any): any => {
+    if (result === undefined) return null;
+
+    const json = JSON.stringify(result);
+    if (json === undefined) {
+      throw new Error('The function must return JSON (an object, array, string, number, boolean or null)');
+    }
+    if (json.length > MAX_RESULT_CHARS) {
+      throw new Error(`The result is too large (${json.length} characters, limit ${MAX_RESULT_CHARS})`);
+    }
+    return JSON.parse(json);
+  };
+
+  const describeError = (error: unknown): string => {
+    if (error instanceof RangeError && /memory|allocation|array length/i.test(error.message)) {
+      return `Out of memory: ${error.message}`;
+    }
+    if (error instanceof Error) {
+      return `${error.name}: ${error.message}`;
+    }
+    return String(error);
+  };
+
+  self.onmessage = async (event: MessageEvent<ScriptRequest>) => {
+    self.onmessage = null; // One run per worker
+    const { script, params, context } = event.data;
+
+    try {
+      const run = new AsyncFunction('params', 'context', 'console', `"use strict";\n${script}`);
+      const console = { log: capture, info: capture, warn: capture, error: capture };
+      const result = await run(Object.freeze(params), Object.freeze(context), console);
+      post({ type: 'result', result: toJson(result), logs });
+    } catch (error) {
+      post({ type: 'error', error: describeError(error), logs });
+    }
+  };
+}